@@ -8,10 +8,27 @@ import { ProgressBar } from './components/ProgressBar';
 import { ContactDetailsModal } from './components/ContactDetailsModal';
 import { EmailComposer } from './components/EmailComposer';
 import { LayoutShell } from './components/LayoutShell';
-import { graphService } from './services/microsoftGraph';
+import { CategoryRulesSettings } from './components/CategoryRulesSettings';
+import { IdentityReview } from './components/IdentityReview';
+import { MailFolderSettings } from './components/MailFolderSettings';
+import { CategoryWriteBack } from './components/CategoryWriteBack';
+import { AnalysisHistory } from './components/AnalysisHistory';
+import { ScheduledEmails } from './components/ScheduledEmails';
+import { CampaignComposer } from './components/CampaignComposer';
+import { Campaigns } from './components/Campaigns';
+import { MailboxSwitcher } from './components/MailboxSwitcher';
+import { getMailProvider } from './services/mailProvider';
+import { ContactAnalysisService } from './services/contactAnalysisService';
+import { getActiveAnalysisStore } from './services/mailboxes';
+import { loadCategoryRules } from './services/categoryRules';
+import { loadAutomatedOverrides } from './services/automatedSenders';
 import { useContactsFilter } from './hooks/useContactsFilter';
 import { useContactAnalysis } from './hooks/useContactAnalysis';
-import type { ContactWithAnalysis, ContactCategory } from './types/contact';
+import { useMailboxes } from './hooks/useMailboxes';
+import { useFollowUps } from './hooks/useFollowUps';
+import { useScheduledEmails } from './hooks/useScheduledEmails';
+import { useCampaigns } from './hooks/useCampaigns';
+import type { ContactWithAnalysis, ContactCategory, ContactAnalysisConfig } from './types/contact';
 import { getCategoryLabel } from './utils/contactCategory';
 import { loadResellerDataIntoLocalStorage, extractResellersFromCsv, type ResellerCsvEntry } from './utils/segmentation';
 // email templates handled inside EmailComposer
@@ -32,6 +49,16 @@ function App() {
   const [lastEmailHtml, setLastEmailHtml] = useState<string | null>(null);
   const [isLoadingLastEmail, setIsLoadingLastEmail] = useState(false);
   const [lastEmailCategories, setLastEmailCategories] = useState<string[] | null>(null);
+  const [showRulesSettings, setShowRulesSettings] = useState(false);
+  const [showIdentityReview, setShowIdentityReview] = useState(false);
+  const [showFolderSettings, setShowFolderSettings] = useState(false);
+  const [showCategoryWriteBack, setShowCategoryWriteBack] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showScheduled, setShowScheduled] = useState(false);
+  // Contacts picked in the list for a campaign
+  const [campaignSelection, setCampaignSelection] = useState<Set<string>>(new Set());
+  const [showCampaignComposer, setShowCampaignComposer] = useState(false);
+  const [showCampaigns, setShowCampaigns] = useState(false);
   
   const {
     selectedCategory,
@@ -44,7 +71,15 @@ function App() {
   } = useContactsFilter(contacts);
   
   const emailTemplatesRef = useRef<HTMLDivElement>(null);
-  const { analyzeContacts, isAnalyzing, progress } = useContactAnalysis(setContacts);
+  const { analyzeContacts, isAnalyzing, progress, lastMode, mergeSuggestions } = useContactAnalysis(setContacts);
+  const { mailboxes, activeMailbox, isTeamView, selectMailbox, selectTeamView, addMailbox, removeMailbox } = useMailboxes(setContacts);
+  const { followUps, mirrorToTodo, addFollowUp, completeFollowUp, removeFollowUp, setMirrorToTodo } = useFollowUps(contacts);
+  const { scheduledEmails, scheduleEmail, cancelScheduledEmail, rescheduleEmail, sendOverdueEmail, removeScheduledEmail } = useScheduledEmails();
+  const pendingScheduled = scheduledEmails.filter((item) => item.status === 'scheduled').length;
+  const overdueScheduled = scheduledEmails.filter((item) => item.status === 'overdue').length;
+  const { campaigns, startCampaign, pauseCampaign, resumeCampaign, retryFailed, removeCampaign } = useCampaigns();
+  const runningCampaigns = campaigns.filter((c) => c.status === 'running').length;
+  const campaignContacts = contacts.filter((c) => campaignSelection.has(c.id));
 
   useEffect(() => {
     const loadResellerData = async () => {
@@ -82,7 +117,7 @@ function App() {
 
     // Ensure MSAL is initialized after authentication
     try {
-      await graphService.initialize();
+      await getMailProvider().initialize();
     } catch (error) {
       console.error('Failed to initialize MSAL in App component:', error);
     }
@@ -106,7 +141,7 @@ function App() {
     setLastEmailHtml(null);
     setLastEmailCategories(null);
     try {
-      const msg = await graphService.getLastEmailWithContact(contact.email);
+      const msg = await getMailProvider().getLastEmailWithContact(contact.email);
       setLastEmailHtml(msg?.html ?? null);
       setLastEmailCategories((msg && Array.isArray((msg as any).categories)) ? (msg as any).categories : null);
     } finally {
@@ -116,6 +151,50 @@ function App() {
 
   // email composition handled by EmailComposer
 
+  // Re-evaluates categories and tags from the stored metrics; no mail is refetched
+  const recategorize = (config: ContactAnalysisConfig) => {
+    const service = new ContactAnalysisService(config);
+    service.setAutomatedOverrides(loadAutomatedOverrides());
+    const recategorized = service.recategorizeContacts(contacts);
+    setContacts(recategorized);
+    // The team view is assembled from every mailbox's results and is never stored
+    if (!isTeamView) {
+      getActiveAnalysisStore().saveAnalysisResults(recategorized).catch((error) =>
+        console.warn('Failed to store analysis results:', error)
+      );
+    }
+    return recategorized;
+  };
+
+  const handleCategoryRulesSaved = (config: ContactAnalysisConfig) => {
+    recategorize(config);
+  };
+
+  const handleAutomatedOverrideChanged = (contact: ContactWithAnalysis) => {
+    const recategorized = recategorize(loadCategoryRules());
+    setSelectedContactForDetails(recategorized.find((c) => c.id === contact.id) ?? null);
+  };
+
+  const handleSelectMailbox = async (mailboxId: string) => {
+    setSelectedContact(null);
+    // A mailbox analyzed for the first time starts with a quick analysis, like sign-in does
+    if ((await selectMailbox(mailboxId)) === 0) analyzeContacts('quick');
+  };
+
+  const handleAddMailbox = async (address: string) => {
+    const mailbox = await addMailbox(address);
+    if (mailbox) await handleSelectMailbox(mailbox.id);
+  };
+
+  const toggleCampaignSelection = (contact: ContactWithAnalysis) => {
+    setCampaignSelection((current) => {
+      const next = new Set(current);
+      if (next.has(contact.id)) next.delete(contact.id);
+      else next.add(contact.id);
+      return next;
+    });
+  };
+
   const handleCategoryClickLocal = (category: string | null) => {
     handleCategoryClick(category);
     setSelectedContact(null);
@@ -149,12 +228,27 @@ function App() {
     <LayoutShell
       title="OLXOutreach"
       subtitle={<span>{user?.displayName} • {contacts.length} contacts</span>}
+      switcher={mailboxes.length > 0 && (
+        <MailboxSwitcher
+          mailboxes={mailboxes}
+          activeMailbox={activeMailbox}
+          isTeamView={isTeamView}
+          disabled={isAnalyzing}
+          onSelect={handleSelectMailbox}
+          onSelectTeamView={() => {
+            setSelectedContact(null);
+            selectTeamView();
+          }}
+          onAdd={handleAddMailbox}
+          onRemove={(mailboxId) => removeMailbox(mailboxId)}
+        />
+      )}
       right={
         <>
           <button
             onClick={() => analyzeContacts('quick')}
             className="btn-primary"
-            disabled={isAnalyzing}
+            disabled={isAnalyzing || isTeamView}
             title="Quick analysis (~30s) - Recent contacts only"
           >
             {isAnalyzing ? 'Analyzing...' : 'Quick'}
@@ -162,14 +256,71 @@ function App() {
           <button
             onClick={() => analyzeContacts('comprehensive')}
             className="rounded-lg bg-rose-600 px-3 py-1.5 text-xs font-medium text-white transition-all duration-200 hover:-translate-y-0.5 hover:bg-rose-500 hover:shadow-md hover:shadow-rose-500/20 disabled:cursor-not-allowed disabled:opacity-50 disabled:hover:translate-y-0"
-            disabled={isAnalyzing}
+            disabled={isAnalyzing || isTeamView}
             title="Comprehensive analysis (~5-15min) - All contacts"
           >
             {isAnalyzing ? 'Analyzing...' : 'All'}
           </button>
+          <button
+            onClick={() => setShowRulesSettings(true)}
+            className="btn-secondary"
+            title="Configure how contacts are categorized"
+          >
+            Rules
+          </button>
+          <button
+            onClick={() => setShowIdentityReview(true)}
+            className="btn-secondary"
+            disabled={isTeamView}
+            title="Review addresses that may belong to the same person"
+          >
+            Identities{mergeSuggestions.length > 0 ? ` (${mergeSuggestions.length})` : ''}
+          </button>
+          {getMailProvider().listMailFolders && (
+            <button
+              onClick={() => setShowFolderSettings(true)}
+              className="btn-secondary"
+              disabled={isAnalyzing || isTeamView}
+              title="Choose which mail folders are analyzed"
+            >
+              Folders
+            </button>
+          )}
+          {getMailProvider().planCategoryWriteBack && (
+            <button
+              onClick={() => setShowCategoryWriteBack(true)}
+              className="btn-secondary"
+              disabled={isAnalyzing || isTeamView || contacts.length === 0}
+              title="Write the analysis categories to your Outlook contacts"
+            >
+              Write back
+            </button>
+          )}
+          <button
+            onClick={() => setShowHistory(true)}
+            className="btn-secondary"
+            disabled={isTeamView}
+            title="Compare analysis runs: who moved between categories"
+          >
+            History
+          </button>
+          <button
+            onClick={() => setShowScheduled(true)}
+            className="btn-secondary"
+            title="Emails waiting to be sent later"
+          >
+            Scheduled{pendingScheduled > 0 ? ` (${pendingScheduled})` : ''}{overdueScheduled > 0 ? ` · ${overdueScheduled} overdue` : ''}
+          </button>
+          <button
+            onClick={() => setShowCampaigns(true)}
+            className="btn-secondary"
+            title="Progress of bulk campaigns"
+          >
+            Campaigns{runningCampaigns > 0 ? ` (${runningCampaigns} sending)` : ''}
+          </button>
           <button
             onClick={() => {
-              graphService.signOut();
+              getMailProvider().signOut();
               setIsAuthenticated(false);
               setUser(null);
               setContacts([]);
@@ -187,6 +338,8 @@ function App() {
               onDraftEmail={handleDraftEmail}
               onShowContactDetails={handleShowContactDetails}
               onSnooze={handleSnoozeContact}
+              followUps={followUps}
+              onCompleteFollowUp={completeFollowUp}
               resellerCsv={resellers}
             />
             
@@ -210,9 +363,34 @@ function App() {
             {/* Contacts Section - Fixed height with scrolling */}
             <div className="flex-1 min-h-0">
               <div className="glass-panel p-3">
-                <h3 className="text-sm font-semibold text-slate-800 mb-3">
-                  {selectedCategory ? `${getCategoryLabel(selectedCategory as ContactCategory)} Contacts` : 'All Contacts'} ({filteredContacts.length})
-                </h3>
+                <div className="flex items-center justify-between gap-2 mb-3">
+                  <h3 className="text-sm font-semibold text-slate-800">
+                    {selectedCategory ? `${getCategoryLabel(selectedCategory as ContactCategory)} Contacts` : 'All Contacts'} ({filteredContacts.length})
+                  </h3>
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={() => setCampaignSelection(new Set([...campaignSelection, ...filteredContacts.map((c) => c.id)]))}
+                      className="btn-ghost"
+                      disabled={filteredContacts.length === 0}
+                      title="Select every contact the current filter shows"
+                    >
+                      Select all
+                    </button>
+                    {campaignSelection.size > 0 && (
+                      <button onClick={() => setCampaignSelection(new Set())} className="btn-ghost">
+                        Clear
+                      </button>
+                    )}
+                    <button
+                      onClick={() => setShowCampaignComposer(true)}
+                      className="btn-primary"
+                      disabled={campaignContacts.length === 0}
+                      title="Send one template to the selected contacts"
+                    >
+                      Campaign{campaignContacts.length > 0 ? ` (${campaignContacts.length})` : ''}
+                    </button>
+                  </div>
+                </div>
                 
                 {/* Search and Filter Controls */}
                 <div className="mb-2">
@@ -225,7 +403,14 @@ function App() {
                 </div>
                 
                 <div className="h-full max-h-80 overflow-y-auto">
-                  <ContactList contacts={filteredContacts} onDraftEmail={handleDraftEmail} onViewEmail={handleShowContactDetails} onSnooze={handleSnoozeContact} />
+                  <ContactList
+                    contacts={filteredContacts}
+                    onDraftEmail={handleDraftEmail}
+                    onViewEmail={handleShowContactDetails}
+                    onSnooze={handleSnoozeContact}
+                    selectedIds={campaignSelection}
+                    onToggleSelect={toggleCampaignSelection}
+                  />
                 </div>
               </div>
             </div>
@@ -239,10 +424,76 @@ function App() {
                   onClose={() => {
                     setSelectedContact(null);
                   }}
+                  onSchedule={scheduleEmail}
                 />
               )}
             </div>
     </LayoutShell>
+      {showRulesSettings && (
+        <CategoryRulesSettings
+          onClose={() => setShowRulesSettings(false)}
+          onSaved={handleCategoryRulesSaved}
+        />
+      )}
+      {showIdentityReview && (
+        <IdentityReview
+          suggestions={mergeSuggestions}
+          onClose={() => setShowIdentityReview(false)}
+          onSaved={() => analyzeContacts(lastMode)}
+        />
+      )}
+      {showFolderSettings && (
+        <MailFolderSettings
+          onClose={() => setShowFolderSettings(false)}
+          onSaved={() => analyzeContacts(lastMode)}
+        />
+      )}
+      {showCategoryWriteBack && (
+        <CategoryWriteBack contacts={contacts} onClose={() => setShowCategoryWriteBack(false)} />
+      )}
+      {showScheduled && (
+        <ScheduledEmails
+          items={scheduledEmails}
+          onClose={() => setShowScheduled(false)}
+          onCancelItem={cancelScheduledEmail}
+          onReschedule={rescheduleEmail}
+          onSendNow={sendOverdueEmail}
+          onRemove={removeScheduledEmail}
+        />
+      )}
+      {showCampaignComposer && (
+        <CampaignComposer
+          contacts={campaignContacts}
+          senderName={user?.displayName || 'Your Name'}
+          onClose={() => setShowCampaignComposer(false)}
+          onStart={(campaign) => {
+            startCampaign(campaign);
+            setCampaignSelection(new Set());
+            setShowCampaignComposer(false);
+            setShowCampaigns(true);
+          }}
+        />
+      )}
+      {showCampaigns && (
+        <Campaigns
+          campaigns={campaigns}
+          onClose={() => setShowCampaigns(false)}
+          onPause={pauseCampaign}
+          onResume={resumeCampaign}
+          onRetryFailed={retryFailed}
+          onRemove={removeCampaign}
+        />
+      )}
+      {showHistory && (
+        <AnalysisHistory
+          contacts={contacts}
+          onClose={() => setShowHistory(false)}
+          onSelectContact={(contact) => {
+            setShowHistory(false);
+            handleShowContactDetails(contact);
+          }}
+        />
+      )}
       {selectedContactForDetails && (
         <ContactDetailsModal
           contact={selectedContactForDetails!}
@@ -250,6 +501,13 @@ function App() {
           categories={lastEmailCategories}
           isLoading={isLoadingLastEmail}
           onClose={() => setSelectedContactForDetails(null)}
+          onAutomatedOverrideChanged={handleAutomatedOverrideChanged}
+          followUps={followUps.filter((t) => t.contactId === selectedContactForDetails.id)}
+          mirrorToTodo={getMailProvider().mirrorFollowUp ? mirrorToTodo : undefined}
+          onAddFollowUp={addFollowUp}
+          onCompleteFollowUp={completeFollowUp}
+          onRemoveFollowUp={removeFollowUp}
+          onMirrorToTodoChange={setMirrorToTodo}
           onDraft={(c) => {
             setSelectedContactForDetails(null);
             handleDraftEmail(c);
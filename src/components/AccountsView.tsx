@@ -0,0 +1,160 @@
+import { useMemo, useState } from 'react';
+import type { AccountSettings, ContactCategory, ContactWithAnalysis } from '../types/contact';
+import { buildAccounts, DEFAULT_ACCOUNT_SETTINGS, loadAccountSettings, saveAccountSettings } from '../services/accountRollup';
+import { CONTACT_CATEGORIES, loadCategoryRules } from '../services/categoryRules';
+import { getCategoryColorClasses, getCategoryIcon, getCategoryLabel, getCategoryTooltip } from '../utils/contactCategory';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toLines = (values: string[]) => values.join('\n');
+const fromLines = (text: string) =>
+  text.split('\n').map((line) => line.trim().toLowerCase()).filter(Boolean);
+
+function parseMerges(text: string): Record<string, string> {
+  const merges: Record<string, string> = {};
+  fromLines(text).forEach((line) => {
+    const [from, to] = line.split('=').map((part) => part.trim());
+    if (from && to && from !== to) merges[from] = to;
+  });
+  return merges;
+}
+
+/**
+ * Contacts rolled up into accounts by domain, filtered by the same categories as contacts
+ */
+export function AccountsView({
+  contacts,
+  onShowContactDetails,
+}: {
+  contacts: ContactWithAnalysis[];
+  onShowContactDetails: (contact: ContactWithAnalysis) => void;
+}) {
+  const [settings, setSettings] = useState<AccountSettings>(() => loadAccountSettings());
+  const [category, setCategory] = useState<ContactCategory | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState(() => ({
+    freemail: toLines(settings.freemailDomains),
+    merges: Object.entries(settings.domainMerges).map(([from, to]) => `${from} = ${to}`).join('\n'),
+    splits: toLines(settings.splitDomains),
+  }));
+
+  const accounts = useMemo(() => buildAccounts(contacts, settings, loadCategoryRules()), [contacts, settings]);
+  const visible = category ? accounts.filter((a) => a.category === category) : accounts;
+
+  const applySettings = (next: AccountSettings) => {
+    saveAccountSettings(next);
+    setSettings(next);
+    setDraft({
+      freemail: toLines(next.freemailDomains),
+      merges: Object.entries(next.domainMerges).map(([from, to]) => `${from} = ${to}`).join('\n'),
+      splits: toLines(next.splitDomains),
+    });
+  };
+
+  const textareaClass = 'w-full border border-slate-300 rounded px-1.5 py-1 text-xs bg-white font-mono';
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-1">
+        <button
+          onClick={() => setCategory(null)}
+          className={`px-2 py-1 rounded text-xs font-medium transition-colors ${category === null ? 'bg-slate-300 text-slate-800' : 'bg-slate-200 text-slate-700 hover:bg-slate-300'}`}
+        >
+          All ({accounts.length})
+        </button>
+        {CONTACT_CATEGORIES.map((c) => (
+          <button
+            key={c}
+            onClick={() => setCategory(c)}
+            title={`${getCategoryLabel(c)} — ${getCategoryTooltip(c)}`}
+            className={`px-2 py-1 rounded text-xs font-medium border transition-colors ${getCategoryColorClasses(c)} ${category === c ? 'ring-1 ring-slate-400' : ''}`}
+          >
+            {getCategoryLabel(c)} ({accounts.filter((a) => a.category === c).length})
+          </button>
+        ))}
+      </div>
+
+      <div className="max-h-64 overflow-y-auto space-y-1.5">
+        {visible.map((account) => {
+          const daysSince = account.lastContactDate
+            ? Math.floor((Date.now() - account.lastContactDate.getTime()) / DAY_MS)
+            : null;
+          const expanded = expandedId === account.id;
+          return (
+            <div key={account.id} className="p-2 bg-slate-50 rounded-lg border border-slate-200">
+              <div className="cursor-pointer" onClick={() => setExpandedId(expanded ? null : account.id)}>
+                <div className="flex items-center gap-2 mb-1">
+                  <span className="text-sm">{getCategoryIcon(account.category)}</span>
+                  <p className="text-xs font-medium text-slate-800 truncate" title={account.domains.join(', ')}>{account.id}</p>
+                  <span className={`px-1.5 py-0.5 text-xs font-medium rounded border ${getCategoryColorClasses(account.category)}`}>
+                    {getCategoryLabel(account.category)}
+                  </span>
+                  <span className="ml-auto text-xs text-slate-500">{expanded ? '▴' : '▾'}</span>
+                </div>
+                <div className="flex flex-wrap items-center gap-x-3 text-xs text-slate-500">
+                  <span>{account.contacts.length} contacts</span>
+                  <span>{account.metrics.totalEmails} emails</span>
+                  <span>{daysSince !== null ? `${daysSince}d ago` : 'Never contacted'}</span>
+                  <span className="truncate">Top: {account.mostEngagedContact.name}</span>
+                </div>
+              </div>
+              {expanded && (
+                <ul className="mt-1.5 border-t border-slate-200 pt-1">
+                  {[...account.contacts].sort((a, b) => b.emailCount - a.emailCount).map((contact) => (
+                    <li key={contact.id}>
+                      <button
+                        onClick={() => onShowContactDetails(contact)}
+                        className="w-full flex justify-between gap-2 px-1 rounded text-xs hover:bg-slate-200"
+                      >
+                        <span className="truncate text-slate-700">{contact.name} <span className="text-slate-400">{contact.email}</span></span>
+                        <span className="text-slate-500 flex-shrink-0">{contact.emailCount} · {getCategoryLabel(contact.category)}</span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          );
+        })}
+        {visible.length === 0 && <div className="text-xs text-slate-500">No accounts in this category.</div>}
+      </div>
+
+      <details className="text-xs">
+        <summary className="cursor-pointer text-slate-600 hover:text-slate-800">Domain settings</summary>
+        <div className="mt-2 space-y-2">
+          <label className="block">
+            <span className="text-slate-700">Merge domains (one <code>domain = account domain</code> per line)</span>
+            <textarea className={textareaClass} rows={3} value={draft.merges} onChange={(e) => setDraft({ ...draft, merges: e.target.value })} />
+          </label>
+          <label className="block">
+            <span className="text-slate-700">Keep subdomains as separate accounts (one per line)</span>
+            <textarea className={textareaClass} rows={2} value={draft.splits} onChange={(e) => setDraft({ ...draft, splits: e.target.value })} />
+          </label>
+          <label className="block">
+            <span className="text-slate-700">Freemail domains, never grouped (one per line)</span>
+            <textarea className={textareaClass} rows={4} value={draft.freemail} onChange={(e) => setDraft({ ...draft, freemail: e.target.value })} />
+          </label>
+          <div className="flex gap-2">
+            <button
+              className="btn-secondary"
+              onClick={() => applySettings({ ...DEFAULT_ACCOUNT_SETTINGS, freemailDomains: [...DEFAULT_ACCOUNT_SETTINGS.freemailDomains] })}
+            >
+              Reset
+            </button>
+            <button
+              className="btn-primary"
+              onClick={() => applySettings({
+                version: 1,
+                freemailDomains: fromLines(draft.freemail),
+                domainMerges: parseMerges(draft.merges),
+                splitDomains: fromLines(draft.splits),
+              })}
+            >
+              Apply
+            </button>
+          </div>
+        </div>
+      </details>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import type { ContactAnalysis, EvaluatedCondition } from '../types/contact';
+import { CATEGORY_METRICS, getMetricLabel } from '../services/categoryRules';
+import { getCategoryLabel } from '../utils/contactCategory';
+
+function formatMetricValue(metric: EvaluatedCondition['metric'], value: number): string {
+  if (!Number.isFinite(value)) return 'never';
+  if (metric === 'responseRate') return `${Math.round(value * 100)}%`;
+  if (metric === 'averageResponseTime') return `${value.toFixed(1)}h`;
+  return String(value);
+}
+
+/**
+ * Explains an analysis: which category rule fired (and which were checked before it),
+ * how the confidence score was built up, the contact's trend, and the metric values behind them
+ */
+export function AnalysisBreakdown({ analysis }: { analysis: ContactAnalysis }) {
+  const { explanation } = analysis;
+  const maxMonthly = Math.max(1, ...analysis.trend.monthlyVolume.map((m) => m.sent + m.received));
+
+  return (
+    <div className="space-y-2 text-xs">
+      <div>
+        <div className="font-semibold text-slate-700 mb-1">Why {getCategoryLabel(analysis.category)}?</div>
+        <ul className="space-y-1">
+          {explanation.rules.map((rule, index) => (
+            <li
+              key={rule.ruleId}
+              className={`rounded border p-1.5 ${rule.matched ? 'border-emerald-200 bg-emerald-50' : 'border-slate-200 bg-white'}`}
+            >
+              <div className="font-medium text-slate-700">
+                {rule.matched ? '✓' : '✗'} Rule {index + 1}: {getCategoryLabel(rule.category)}
+                {rule.customCategory ? ` (${rule.customCategory})` : ''}
+              </div>
+              {rule.conditionGroups.map((group, groupIndex) => (
+                <div key={groupIndex} className="pl-3 text-slate-600">
+                  {groupIndex > 0 && <span className="text-slate-400">or </span>}
+                  {group.map((condition, conditionIndex) => (
+                    <span key={conditionIndex} className={condition.passed ? 'text-emerald-700' : 'text-slate-500'}>
+                      {conditionIndex > 0 && ' and '}
+                      {getMetricLabel(condition.metric)} {formatMetricValue(condition.metric, condition.actual)}{' '}
+                      {condition.operator === '>=' ? '≥' : '≤'} {formatMetricValue(condition.metric, condition.value)}
+                      {condition.passed ? ' ✓' : ' ✗'}
+                    </span>
+                  ))}
+                </div>
+              ))}
+            </li>
+          ))}
+          {explanation.usedFallback && (
+            <li className="rounded border border-emerald-200 bg-emerald-50 p-1.5 font-medium text-slate-700">
+              ✓ No rule matched, so the contact is {getCategoryLabel(analysis.category)}
+            </li>
+          )}
+        </ul>
+      </div>
+
+      <div>
+        <div className="font-semibold text-slate-700 mb-1">Confidence score: {analysis.score}</div>
+        <table className="w-full">
+          <tbody>
+            <tr>
+              <td className="text-slate-600">Base score</td>
+              <td className="text-right text-slate-800">{explanation.scoreBase}</td>
+            </tr>
+            {explanation.scoreFactors.map((factor) => (
+              <tr key={factor.label}>
+                <td className="text-slate-600">{factor.label}</td>
+                <td className={`text-right ${factor.points < 0 ? 'text-rose-600' : 'text-emerald-700'}`}>
+                  {factor.points > 0 ? `+${factor.points}` : factor.points}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div>
+        <div className="font-semibold text-slate-700 mb-1">
+          Trend {analysis.cooling && <span className="ml-1 px-1.5 py-0.5 rounded bg-amber-100 text-amber-800">Cooling</span>}
+        </div>
+        <div className="flex items-end gap-0.5 h-10" title="Monthly emails over the last 12 months (sent / received)">
+          {analysis.trend.monthlyVolume.map((m) => (
+            <div key={m.month} className="flex-1 flex flex-col justify-end h-full" title={`${m.month}: ${m.sent} sent, ${m.received} received`}>
+              <div className="bg-emerald-300" style={{ height: `${(m.received / maxMonthly) * 100}%` }} />
+              <div className="bg-blue-400" style={{ height: `${(m.sent / maxMonthly) * 100}%` }} />
+            </div>
+          ))}
+        </div>
+        <div className="grid grid-cols-2 gap-x-3 mt-1">
+          <div className="flex justify-between">
+            <span className="text-slate-600">Emails/month (last 90d)</span>
+            <span className="text-slate-800">{analysis.trend.recentEmailsPerMonth.toFixed(1)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-slate-600">Emails/month (before)</span>
+            <span className="text-slate-800">{analysis.trend.baselineEmailsPerMonth.toFixed(1)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-slate-600">Usual gap</span>
+            <span className="text-slate-800">{analysis.trend.typicalGapDays !== null ? `${Math.round(analysis.trend.typicalGapDays)}d` : '—'}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-slate-600">Reply time change</span>
+            <span className="text-slate-800">{analysis.trend.responseTimeChange !== null ? `×${analysis.trend.responseTimeChange.toFixed(1)}` : '—'}</span>
+          </div>
+        </div>
+      </div>
+
+      <div>
+        <div className="font-semibold text-slate-700 mb-1">Metrics used</div>
+        <div className="grid grid-cols-2 gap-x-3">
+          {CATEGORY_METRICS.map(({ metric }) => (
+            <div key={metric} className="flex justify-between">
+              <span className="text-slate-600">{getMetricLabel(metric)}</span>
+              <span className="text-slate-800">{formatMetricValue(metric, analysis.metrics[metric])}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
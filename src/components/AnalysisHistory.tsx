@@ -0,0 +1,149 @@
+import { useEffect, useState } from 'react';
+import { getActiveAnalysisStore } from '../services/mailboxes';
+import { diffSnapshots, findBaselineSnapshot } from '../services/analysisHistory';
+import { getCategoryLabel, getCategoryPillClasses } from '../utils/contactCategory';
+import type { AnalysisSnapshot, CategoryMove, ContactWithAnalysis } from '../types/contact';
+
+const snapshotLabel = (snapshot: AnalysisSnapshot) =>
+  `${snapshot.takenAt.toLocaleString()} · ${snapshot.mode} · ${snapshot.contactCount} contacts`;
+
+/**
+ * Compares the latest analysis run with an earlier one: who moved between categories, and who slipped
+ */
+export function AnalysisHistory({
+  contacts,
+  onClose,
+  onSelectContact,
+}: {
+  contacts: ContactWithAnalysis[];
+  onClose: () => void;
+  onSelectContact: (contact: ContactWithAnalysis) => void;
+}) {
+  const [snapshots, setSnapshots] = useState<AnalysisSnapshot[] | null>(null);
+  const [baselineId, setBaselineId] = useState<number | null>(null);
+  const [moves, setMoves] = useState<CategoryMove[] | null>(null);
+  const [onlySlipped, setOnlySlipped] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getActiveAnalysisStore().getSnapshots()
+      .then((stored) => {
+        setSnapshots(stored);
+        // Prefer the previous run of the same mode; other modes cover a different time window
+        setBaselineId((stored.slice(1).find((s) => s.mode === stored[0].mode) ?? stored[1])?.id ?? null);
+      })
+      .catch((err) => {
+        console.error('Failed to load analysis history:', err);
+        setError('Could not load the analysis history.');
+      });
+  }, []);
+
+  useEffect(() => {
+    if (!snapshots || snapshots.length < 2 || baselineId === null) return;
+    let cancelled = false;
+    const store = getActiveAnalysisStore();
+    setMoves(null);
+    Promise.all([store.getSnapshotEntries(baselineId), store.getSnapshotEntries(snapshots[0].id)])
+      .then(([before, after]) => { if (!cancelled) setMoves(diffSnapshots(before, after)); })
+      .catch((err) => {
+        console.error('Failed to compare analysis runs:', err);
+        if (!cancelled) setError('Could not compare the analysis runs.');
+      });
+    return () => { cancelled = true; };
+  }, [snapshots, baselineId]);
+
+  const selectWeeklyBaseline = () => {
+    const baseline = snapshots && findBaselineSnapshot(snapshots, 7);
+    if (baseline) setBaselineId(baseline.id);
+  };
+
+  const baseline = snapshots?.find((s) => s.id === baselineId);
+  const isCrossMode = !!baseline && !!snapshots && baseline.mode !== snapshots[0].mode;
+  const hasWeeklyBaseline = !!snapshots && findBaselineSnapshot(snapshots, 7) !== null;
+
+  const shownMoves = (moves ?? []).filter((move) => !onlySlipped || move.slipped);
+  const slippedCount = (moves ?? []).filter((move) => move.slipped).length;
+  const contactById = new Map(contacts.map((c) => [c.id, c]));
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center z-50 p-2">
+      <div className="glass-panel w-full max-w-lg max-h-[95vh] overflow-hidden flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-slate-200 bg-slate-50">
+          <div>
+            <h3 className="text-lg font-semibold text-slate-800">Analysis History</h3>
+            <p className="text-xs text-slate-600">
+              {snapshots?.[0] ? `Latest run: ${snapshotLabel(snapshots[0])}` : 'Category changes between analysis runs.'}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-slate-500 hover:text-slate-700 text-xl font-light hover:bg-slate-200 rounded-full w-6 h-6 flex items-center justify-center transition-colors ml-2 flex-shrink-0"
+          >
+            ×
+          </button>
+        </div>
+
+        {snapshots && snapshots.length >= 2 && (
+          <div className="px-3 py-2 bg-slate-50 border-b border-slate-200 text-xs flex flex-wrap items-center gap-2">
+            <span className="text-slate-600">Compare with</span>
+            <select
+              className="border border-slate-300 rounded px-1.5 py-0.5 bg-white text-slate-700 min-w-0 flex-1"
+              value={baselineId ?? ''}
+              onChange={(e) => setBaselineId(Number(e.target.value))}
+            >
+              {snapshots.slice(1).map((snapshot) => (
+                <option key={snapshot.id} value={snapshot.id}>{snapshotLabel(snapshot)}</option>
+              ))}
+            </select>
+            <button
+              className="btn-ghost"
+              onClick={selectWeeklyBaseline}
+              disabled={!hasWeeklyBaseline}
+              title={hasWeeklyBaseline ? `Compare with the ${snapshots[0].mode} run from a week ago` : `No earlier ${snapshots[0].mode} run to compare with`}
+            >
+              Last 7 days
+            </button>
+            <label className="flex items-center gap-1 text-slate-700">
+              <input type="checkbox" checked={onlySlipped} onChange={(e) => setOnlySlipped(e.target.checked)} />
+              Only slipped ({slippedCount})
+            </label>
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto p-3 space-y-1 text-xs">
+          {error && <div className="text-rose-600">{error}</div>}
+          {isCrossMode && (
+            <div className="p-2 bg-amber-50 border border-amber-200 rounded text-amber-800">
+              This compares a {baseline.mode} run with a {snapshots![0].mode} run. They cover different time windows, so some moves come from that, not from the contacts.
+            </div>
+          )}
+          {!snapshots && !error && <div className="text-slate-500">Loading history...</div>}
+          {snapshots && snapshots.length < 2 && (
+            <div className="text-slate-500">The history starts with your next analysis. Run it again later to see who moved.</div>
+          )}
+          {snapshots && snapshots.length >= 2 && !moves && !error && <div className="text-slate-500">Comparing runs...</div>}
+          {moves && shownMoves.length === 0 && <div className="text-slate-500">No category changes.</div>}
+          {shownMoves.map((move) => {
+            const contact = contactById.get(move.contactId);
+            return (
+              <button
+                key={move.contactId}
+                className="w-full flex items-center gap-2 bg-white border border-slate-200 rounded px-2 py-1 text-left hover:bg-slate-50 disabled:cursor-default"
+                disabled={!contact}
+                onClick={() => contact && onSelectContact(contact)}
+              >
+                <span className="truncate text-slate-700 flex-1" title={move.contactId}>{move.name}</span>
+                <span className={`px-1.5 py-0.5 rounded-full ${getCategoryPillClasses(move.from)}`}>{getCategoryLabel(move.from)}</span>
+                <span className={move.slipped ? 'text-rose-600' : 'text-emerald-600'}>→</span>
+                <span className={`px-1.5 py-0.5 rounded-full ${getCategoryPillClasses(move.to)}`}>{getCategoryLabel(move.to)}</span>
+                <span className={`w-8 text-right ${move.scoreChange < 0 ? 'text-rose-600' : 'text-emerald-600'}`}>
+                  {move.scoreChange > 0 ? '+' : ''}{Math.round(move.scoreChange)}
+                </span>
+              </button>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
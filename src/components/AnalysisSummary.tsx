@@ -1,7 +1,9 @@
 import { useEffect, useMemo, useState } from 'react';
 import type { ResellerCsvEntry } from '../utils/segmentation';
 import { ContactSearch } from './ContactSearch';
-import type { ContactWithAnalysis } from '../types/contact';
+import { AccountsView } from './AccountsView';
+import type { ContactWithAnalysis, FollowUpTask } from '../types/contact';
+import { dueFollowUps, todayKey } from '../services/followUps';
 import { SNOOZE_DURATIONS } from '../types';
 import { getCategoryColorClasses, getCategoryIcon, getCategoryTooltip, getCategoryLabel } from '../utils/contactCategory';
 
@@ -11,6 +13,8 @@ export function AnalysisSummary({
   onDraftEmail,
   onShowContactDetails,
   onSnooze,
+  followUps,
+  onCompleteFollowUp,
   resellerCsv,
 }: {
   contacts: ContactWithAnalysis[];
@@ -18,9 +22,12 @@ export function AnalysisSummary({
   onDraftEmail: (contact: ContactWithAnalysis) => void;
   onShowContactDetails: (contact: ContactWithAnalysis) => void;
   onSnooze: (contact: ContactWithAnalysis, days: number) => void;
+  followUps: FollowUpTask[];
+  onCompleteFollowUp: (task: FollowUpTask) => void;
   resellerCsv?: ResellerCsvEntry[];
 }) {
   const [needsAttentionContacts, setNeedsAttentionContacts] = useState<ContactWithAnalysis[]>([]);
+  const [view, setView] = useState<'contacts' | 'accounts'>('contacts');
   const summary = {
     total: contacts.length,
     recent: contacts.filter((c) => c.category === 'recent').length,
@@ -36,10 +43,14 @@ export function AnalysisSummary({
     return contacts
       .filter((contact) => !(contact.tags || []).includes('crossware'))
       .filter((contact) => !(contact.tags || []).includes('reseller'))
+      .filter((contact) => !(contact.tags || []).includes('automated'))
       .filter((contact) => {
         if (!contact.lastContactDate || contact.emailCount === 0) return false;
         
         const daysSinceLastContact = Math.floor((now - contact.lastContactDate.getTime()) / (24 * 60 * 60 * 1000));
+
+        // Cooling contacts break their own rhythm before the fixed thresholds would catch them
+        if (contact.analysis.cooling) return true;
         
         if (daysSinceLastContact < MIN_DAYS_SINCE_CONTACT) return false;
         
@@ -73,6 +84,9 @@ export function AnalysisSummary({
       });
   }, [contacts]);
 
+  const dueTasks = useMemo(() => dueFollowUps(followUps), [followUps]);
+  const contactById = useMemo(() => new Map(contacts.map((c) => [c.id, c])), [contacts]);
+
   const resellerContacts = useMemo(() => contacts.filter((c) => (c.tags || []).includes('reseller')), [contacts]);
   const crosswareContacts = useMemo(() => contacts.filter((c) => (c.tags || []).includes('crossware')), [contacts]);
 
@@ -83,39 +97,109 @@ export function AnalysisSummary({
   return (
     <div className="space-y-2">
       <div className="glass-panel p-2">
-        <h3 className="text-xs font-semibold text-slate-700 mb-2">Contact Categories</h3>
-        <div className="flex flex-wrap gap-1">
-          <button
-            onClick={() => onCategoryClick(null)}
-            className="px-2 py-1 rounded text-xs font-medium bg-slate-200 text-slate-700 hover:bg-slate-300 transition-colors"
-            title="Show all contacts"
-          >
-            All ({summary.total})
-          </button>
-          <button
-            onClick={() => onCategoryClick('recent')}
-            className="px-2 py-1 rounded text-xs font-medium bg-emerald-100 text-emerald-800 hover:bg-emerald-200 transition-colors"
-            title={`${getCategoryLabel('recent')} — ${getCategoryTooltip('recent')}`}
-          >
-            {getCategoryLabel('recent')} ({summary.recent})
-          </button>
-          <button
-            onClick={() => onCategoryClick('in_touch')}
-            className="px-2 py-1 rounded text-xs font-medium bg-blue-100 text-blue-800 hover:bg-blue-200 transition-colors"
-            title={`${getCategoryLabel('in_touch')} — ${getCategoryTooltip('in_touch')}`}
-          >
-            {getCategoryLabel('in_touch')} ({summary.in_touch})
-          </button>
-          <button
-            onClick={() => onCategoryClick('inactive')}
-            className="px-2 py-1 rounded text-xs font-medium bg-slate-100 text-slate-700 hover:bg-slate-200 transition-colors"
-            title={`${getCategoryLabel('inactive')} — ${getCategoryTooltip('inactive')}`}
-          >
-            {getCategoryLabel('inactive')} ({summary.inactive})
-          </button>
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-xs font-semibold text-slate-700">{view === 'contacts' ? 'Contact Categories' : 'Accounts'}</h3>
+          <div className="flex text-xs border border-slate-300 rounded overflow-hidden">
+            {(['contacts', 'accounts'] as const).map((v) => (
+              <button
+                key={v}
+                onClick={() => setView(v)}
+                className={`px-2 py-0.5 capitalize ${view === v ? 'bg-slate-700 text-white' : 'bg-white text-slate-600 hover:bg-slate-100'}`}
+              >
+                {v}
+              </button>
+            ))}
+          </div>
         </div>
+        {view === 'accounts' ? (
+          <AccountsView contacts={contacts} onShowContactDetails={onShowContactDetails} />
+        ) : (
+          <div className="flex flex-wrap gap-1">
+            <button
+              onClick={() => onCategoryClick(null)}
+              className="px-2 py-1 rounded text-xs font-medium bg-slate-200 text-slate-700 hover:bg-slate-300 transition-colors"
+              title="Show all contacts"
+            >
+              All ({summary.total})
+            </button>
+            <button
+              onClick={() => onCategoryClick('recent')}
+              className="px-2 py-1 rounded text-xs font-medium bg-emerald-100 text-emerald-800 hover:bg-emerald-200 transition-colors"
+              title={`${getCategoryLabel('recent')} — ${getCategoryTooltip('recent')}`}
+            >
+              {getCategoryLabel('recent')} ({summary.recent})
+            </button>
+            <button
+              onClick={() => onCategoryClick('in_touch')}
+              className="px-2 py-1 rounded text-xs font-medium bg-blue-100 text-blue-800 hover:bg-blue-200 transition-colors"
+              title={`${getCategoryLabel('in_touch')} — ${getCategoryTooltip('in_touch')}`}
+            >
+              {getCategoryLabel('in_touch')} ({summary.in_touch})
+            </button>
+            <button
+              onClick={() => onCategoryClick('inactive')}
+              className="px-2 py-1 rounded text-xs font-medium bg-slate-100 text-slate-700 hover:bg-slate-200 transition-colors"
+              title={`${getCategoryLabel('inactive')} — ${getCategoryTooltip('inactive')}`}
+            >
+              {getCategoryLabel('inactive')} ({summary.inactive})
+            </button>
+          </div>
+        )}
       </div>
 
+      {dueTasks.length > 0 && (
+        <div className="glass-panel p-3">
+          <h3 className="text-sm font-semibold text-slate-800 mb-2">Due Today / Overdue ({dueTasks.length})</h3>
+          <div className="max-h-48 overflow-y-auto space-y-1.5">
+            {dueTasks.map((task) => {
+              const contact = contactById.get(task.contactId);
+              const isOverdue = task.dueDate < todayKey();
+              return (
+                <div
+                  key={task.id}
+                  className="flex items-center justify-between gap-2 p-2 bg-slate-50 rounded-lg hover:bg-slate-100 transition-colors cursor-pointer border border-slate-200"
+                  onClick={() => contact && onShowContactDetails(contact)}
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <p className="text-xs font-medium text-slate-800 truncate">{task.contactName}</p>
+                      {task.priority === 'high' && (
+                        <span className="px-1.5 py-0.5 text-[10px] font-medium rounded border bg-rose-100 text-rose-800 border-rose-200">High</span>
+                      )}
+                      <span className={`text-xs ${isOverdue ? 'text-rose-600' : 'text-amber-700'}`}>
+                        {isOverdue ? `Overdue since ${new Date(`${task.dueDate}T00:00:00`).toLocaleDateString()}` : 'Today'}
+                      </span>
+                    </div>
+                    {task.note && <p className="text-[11px] text-slate-500 truncate" title={task.note}>{task.note}</p>}
+                  </div>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onCompleteFollowUp(task);
+                    }}
+                    className="text-xs text-slate-600 hover:text-slate-900 px-2 py-1 rounded hover:bg-slate-200"
+                  >
+                    Done
+                  </button>
+                  {contact && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onDraftEmail(contact);
+                      }}
+                      className="text-xs text-blue-600 hover:text-blue-800 font-medium px-2 py-1 hover:bg-blue-100 rounded transition-colors"
+                      title="Draft email to this contact"
+                    >
+                      Draft
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       {contactsNeedingAttention.length > 0 && (
         <div className="glass-panel p-3">
           <h3 className="text-sm font-semibold text-slate-800 mb-2">Needs Attention ({needsAttentionContacts.length})</h3>
@@ -150,6 +234,11 @@ export function AnalysisSummary({
                       <span title={getCategoryTooltip(contact.category)} className={`px-1.5 py-0.5 text-xs font-medium rounded border ${getCategoryColor(contact.category)}`}>
                         {getCategoryLabel(contact.category)}
                       </span>
+                      {contact.analysis.cooling && (
+                        <span title="Contact cadence has dropped below their usual rhythm" className="px-1.5 py-0.5 text-xs font-medium rounded border bg-amber-100 text-amber-800 border-amber-200">
+                          Cooling
+                        </span>
+                      )}
                     </div>
                     <div className="flex items-center gap-3 text-xs text-slate-500">
                       <span>{contact.emailCount} emails</span>
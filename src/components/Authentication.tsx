@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { graphService } from '../services/microsoftGraph';
+import { getMailProvider } from '../services/mailProvider';
 
 interface AuthenticationProps {
   onAuthenticated: (user: { displayName: string; mail: string; id: string }) => void;
@@ -9,6 +9,8 @@ export function Authentication({ onAuthenticated }: AuthenticationProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isInitialized, setIsInitialized] = useState(false);
+  const provider = getMailProvider();
+  const isGmail = provider.type === 'gmail';
 
   useEffect(() => {
     initializeAuth();
@@ -16,15 +18,15 @@ export function Authentication({ onAuthenticated }: AuthenticationProps) {
 
   const initializeAuth = async () => {
     try {
-      await graphService.initialize();
+      await provider.initialize();
       setIsInitialized(true);
 
-      const account = graphService.getCurrentAccount();
+      const account = provider.getCurrentAccount();
       if (account) {
         try {
-          const token = await graphService.getAccessToken();
+          const token = await provider.getAccessToken();
           if (token) {
-            const user = await graphService.getCurrentUser();
+            const user = await provider.getCurrentUser();
             onAuthenticated(user);
           } else {
             console.log('No valid token found, user needs to sign in again');
@@ -44,18 +46,18 @@ export function Authentication({ onAuthenticated }: AuthenticationProps) {
     setError(null);
 
     try {
-      const authResult = await graphService.signIn();
+      const authResult = await provider.signIn();
 
       if (!authResult) {
         throw new Error('Sign in failed - no authentication result');
       }
 
-      const token = await graphService.getAccessToken();
+      const token = await provider.getAccessToken();
       if (!token) {
         throw new Error('Failed to get access token after sign in');
       }
 
-      const user = await graphService.getCurrentUser();
+      const user = await provider.getCurrentUser();
       onAuthenticated(user);
     } catch (error) {
       console.error('Sign in failed:', error);
@@ -100,10 +102,10 @@ export function Authentication({ onAuthenticated }: AuthenticationProps) {
           {/* Header */}
           <div className="text-center mb-8">
             <h2 className="text-xl font-semibold text-slate-800 tracking-tight mb-2">
-              Connect to Outlook
+              Connect to {provider.displayName}
             </h2>
             <p className="text-sm text-slate-600 leading-relaxed">
-              Sign in with Microsoft to access your contacts and send emails.
+              Sign in with {isGmail ? 'Google' : 'Microsoft'} to access your contacts and send emails.
             </p>
           </div>
 
@@ -130,14 +132,21 @@ export function Authentication({ onAuthenticated }: AuthenticationProps) {
               </>
             ) : (
               <>
-                {/* Microsoft logo */}
-                <svg className="h-4 w-4" viewBox="0 0 21 21" fill="none">
-                  <rect x="1" y="1" width="9" height="9" fill="#F25022" />
-                  <rect x="11" y="1" width="9" height="9" fill="#7FBA00" />
-                  <rect x="1" y="11" width="9" height="9" fill="#00A4EF" />
-                  <rect x="11" y="11" width="9" height="9" fill="#FFB900" />
-                </svg>
-                <span>Sign in with Microsoft</span>
+                {isGmail ? (
+                  /* Google logo */
+                  <svg className="h-4 w-4" viewBox="0 0 24 24">
+                    <path fill="#FFFFFF" d="M21.35 11.1H12v2.98h5.35c-.23 1.48-1.72 4.34-5.35 4.34-3.22 0-5.85-2.67-5.85-5.96S8.78 6.5 12 6.5c1.83 0 3.06.78 3.76 1.45l2.56-2.47C16.68 3.95 14.54 3 12 3 7.03 3 3 7.03 3 12s4.03 9 9 9c5.2 0 8.64-3.65 8.64-8.8 0-.59-.06-1.04-.29-1.1z" />
+                  </svg>
+                ) : (
+                  /* Microsoft logo */
+                  <svg className="h-4 w-4" viewBox="0 0 21 21" fill="none">
+                    <rect x="1" y="1" width="9" height="9" fill="#F25022" />
+                    <rect x="11" y="1" width="9" height="9" fill="#7FBA00" />
+                    <rect x="1" y="11" width="9" height="9" fill="#00A4EF" />
+                    <rect x="11" y="11" width="9" height="9" fill="#FFB900" />
+                  </svg>
+                )}
+                <span>Sign in with {isGmail ? 'Google' : 'Microsoft'}</span>
               </>
             )}
           </button>
@@ -169,7 +178,7 @@ export function Authentication({ onAuthenticated }: AuthenticationProps) {
 
         {/* Footer */}
         <p className="mt-6 text-center text-xs text-slate-500">
-          Secured by Microsoft Authentication
+          Secured by {isGmail ? 'Google' : 'Microsoft'} Authentication
         </p>
       </div>
     </div>
@@ -0,0 +1,152 @@
+import { useMemo, useState } from 'react';
+import DOMPurify from 'dompurify';
+import { createCampaign } from '../services/campaigns';
+import { getDefaultTemplate, loadTemplates } from '../services/templateStore';
+import { findUnresolvedPlaceholders } from '../utils/templateEngine';
+import type { Campaign } from '../types';
+import type { ContactWithAnalysis } from '../types/contact';
+
+/**
+ * Builds a campaign for the selected contacts: pick a template, check each recipient's merged
+ * message, then start sending. Snoozed, Crossware and reseller contacts are left out.
+ */
+export function CampaignComposer({
+  contacts,
+  senderName,
+  onClose,
+  onStart,
+}: {
+  contacts: ContactWithAnalysis[];
+  senderName: string;
+  onClose: () => void;
+  onStart: (campaign: Campaign) => void;
+}) {
+  const [templates] = useState(() => loadTemplates());
+  // Start with the default template of the category most of the segment is in
+  const [templateId, setTemplateId] = useState(() => {
+    const counts = new Map<ContactWithAnalysis['category'], number>();
+    contacts.forEach((c) => counts.set(c.category, (counts.get(c.category) ?? 0) + 1));
+    const [topCategory] = [...counts.entries()].sort((a, b) => b[1] - a[1])[0] ?? [];
+    return (topCategory && getDefaultTemplate(topCategory)?.id) || templates[0]?.id || '';
+  });
+  const [name, setName] = useState(() => `Campaign ${new Date().toLocaleDateString()}`);
+  const [previewId, setPreviewId] = useState<string | null>(null);
+
+  const template = templates.find((t) => t.id === templateId);
+  const campaign = useMemo(
+    () => (template ? createCampaign(name.trim() || template.name, template, contacts, senderName) : null),
+    [name, template, contacts, senderName]
+  );
+  const recipients = campaign?.recipients ?? [];
+  const queued = recipients.filter((r) => r.status === 'queued');
+  const suppressed = recipients.filter((r) => r.status === 'suppressed');
+  const unresolved = queued.filter((r) => findUnresolvedPlaceholders(r.subject + r.htmlBody).length > 0);
+  const preview = recipients.find((r) => r.contactId === previewId) ?? queued[0];
+
+  const handleStart = () => {
+    if (!template || !campaign || unresolved.length > 0) return;
+    if (!confirm(`Send "${template.name}" to ${queued.length} recipients?`)) return;
+    onStart(campaign);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center z-50 p-2">
+      <div className="glass-panel w-full max-w-2xl max-h-[95vh] overflow-hidden flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-slate-200 bg-slate-50">
+          <div>
+            <h3 className="text-lg font-semibold text-slate-800">New Campaign</h3>
+            <p className="text-xs text-slate-600">
+              One template to {contacts.length} selected contacts, sent in small batches. Check the merged message per recipient before sending.
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-slate-500 hover:text-slate-700 text-xl font-light hover:bg-slate-200 rounded-full w-6 h-6 flex items-center justify-center transition-colors ml-2 flex-shrink-0"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-3 space-y-2 text-xs">
+          <div className="flex flex-wrap gap-2">
+            <input
+              className="border border-slate-300 rounded px-1.5 py-0.5 bg-white flex-1 min-w-[10rem]"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Campaign name"
+            />
+            <select
+              className="border border-slate-300 rounded px-1.5 py-0.5 bg-white"
+              value={templateId}
+              onChange={(e) => setTemplateId(e.target.value)}
+            >
+              {templates.length === 0 && <option value="">No templates</option>}
+              {templates.map((t) => (
+                <option key={t.id} value={t.id}>{t.name}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex gap-2 min-h-[16rem]">
+            <div className="w-2/5 space-y-1 overflow-y-auto max-h-80">
+              {recipients.map((r) => (
+                <button
+                  key={r.contactId}
+                  onClick={() => setPreviewId(r.contactId)}
+                  className={`w-full text-left bg-white border rounded px-2 py-1 ${preview?.contactId === r.contactId ? 'border-blue-400' : 'border-slate-200'} ${r.status === 'suppressed' ? 'opacity-60' : ''}`}
+                >
+                  <div className="truncate text-slate-700" title={r.email}>{r.name}</div>
+                  {r.status === 'suppressed' ? (
+                    <div className="text-rose-600 truncate">{r.error}</div>
+                  ) : findUnresolvedPlaceholders(r.subject + r.htmlBody).length > 0 ? (
+                    <div className="text-amber-600 truncate">Unfilled {findUnresolvedPlaceholders(r.subject + r.htmlBody).join(', ')}</div>
+                  ) : (
+                    <div className="text-slate-500 truncate">{r.email}</div>
+                  )}
+                </button>
+              ))}
+            </div>
+            <div className="flex-1 bg-white border border-slate-200 rounded p-2 overflow-y-auto max-h-80">
+              {preview ? (
+                <>
+                  <div className="text-slate-500 mb-1">To: {preview.name} &lt;{preview.email}&gt;</div>
+                  <div className="font-medium text-slate-800 mb-2">{preview.subject}</div>
+                  <div className="text-slate-700" dangerouslySetInnerHTML={{ __html: DOMPurify.sanitize(preview.htmlBody) }} />
+                </>
+              ) : (
+                <div className="text-slate-500">No recipients left to send to.</div>
+              )}
+            </div>
+          </div>
+
+          <div className="text-slate-600">
+            {queued.length} to send{suppressed.length > 0 ? `, ${suppressed.length} left out (snoozed, Crossware or reseller)` : ''}
+            {unresolved.length > 0 && <span className="text-amber-600">, {unresolved.length} with unfilled placeholders</span>}
+          </div>
+          {unresolved.length > 0 && (
+            <div className="p-2 bg-amber-50 border border-amber-200 rounded text-amber-800">
+              Sending is blocked until every message is complete. Add a fallback to the template, e.g. {'{{company|Ihr Unternehmen}}'},
+              or deselect the contacts without a value.
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-2 p-3 border-t border-slate-200 bg-slate-50">
+          <button
+            onClick={onClose}
+            className="flex-1 px-3 py-2 text-xs text-slate-700 hover:text-slate-900 transition-colors border border-slate-300 rounded-lg hover:bg-slate-200"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleStart}
+            disabled={queued.length === 0 || unresolved.length > 0}
+            className="flex-1 px-3 py-2 text-xs bg-blue-600 text-white rounded-lg hover:bg-blue-500 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Send to {queued.length} recipient{queued.length === 1 ? '' : 's'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import { countRecipients } from '../services/campaigns';
+import type { Campaign, CampaignRecipientStatus } from '../types';
+
+const STATUS_CLASSES: Record<CampaignRecipientStatus, string> = {
+  queued: 'bg-blue-50 text-blue-700',
+  sent: 'bg-emerald-50 text-emerald-700',
+  failed: 'bg-rose-50 text-rose-700',
+  suppressed: 'bg-slate-100 text-slate-600',
+};
+
+/**
+ * Campaign progress with per-recipient status, pause/resume and a retry for failed sends
+ */
+export function Campaigns({
+  campaigns,
+  onClose,
+  onPause,
+  onResume,
+  onRetryFailed,
+  onRemove,
+}: {
+  campaigns: Campaign[];
+  onClose: () => void;
+  onPause: (id: string) => void;
+  onResume: (id: string) => void;
+  onRetryFailed: (id: string) => void;
+  onRemove: (id: string) => void;
+}) {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const sorted = [...campaigns].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center z-50 p-2">
+      <div className="glass-panel w-full max-w-lg max-h-[95vh] overflow-hidden flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-slate-200 bg-slate-50">
+          <div>
+            <h3 className="text-lg font-semibold text-slate-800">Campaigns</h3>
+            <p className="text-xs text-slate-600">Campaigns send only while the app is open; a paused campaign continues where it stopped.</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-slate-500 hover:text-slate-700 text-xl font-light hover:bg-slate-200 rounded-full w-6 h-6 flex items-center justify-center transition-colors ml-2 flex-shrink-0"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-3 space-y-2 text-xs">
+          {sorted.length === 0 && <div className="text-slate-500">No campaigns yet. Select contacts in the list and choose "Campaign".</div>}
+          {sorted.map((campaign) => {
+            const counts = countRecipients(campaign);
+            const total = campaign.recipients.length - counts.suppressed;
+            const done = counts.sent + counts.failed;
+            return (
+              <div key={campaign.id} className="bg-white border border-slate-200 rounded px-2 py-1 space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="truncate text-slate-700 font-medium flex-1">{campaign.name}</span>
+                  <span className="text-slate-500">{campaign.status}</span>
+                </div>
+                {campaign.status === 'paused' && campaign.pauseReason && (
+                  <div className="text-amber-700">{campaign.pauseReason}</div>
+                )}
+                <div className="h-1.5 bg-slate-100 rounded overflow-hidden">
+                  <div className="h-full bg-blue-500" style={{ width: `${total > 0 ? (done / total) * 100 : 100}%` }} />
+                </div>
+                <div className="flex items-center gap-2 text-slate-500">
+                  <span>{counts.sent} sent · {counts.queued} queued · {counts.failed} failed · {counts.suppressed} suppressed</span>
+                  <span className="ml-auto flex gap-2">
+                    {campaign.status === 'running' && (
+                      <button className="text-amber-600 hover:text-amber-800" onClick={() => onPause(campaign.id)}>Pause</button>
+                    )}
+                    {campaign.status === 'paused' && counts.queued > 0 && (
+                      <button className="text-blue-600 hover:text-blue-800" onClick={() => onResume(campaign.id)}>Resume</button>
+                    )}
+                    {campaign.status !== 'running' && counts.failed > 0 && (
+                      <button className="text-blue-600 hover:text-blue-800" onClick={() => onRetryFailed(campaign.id)}>Retry failed</button>
+                    )}
+                    <button className="text-slate-600 hover:text-slate-800" onClick={() => setExpandedId(expandedId === campaign.id ? null : campaign.id)}>
+                      {expandedId === campaign.id ? 'Hide' : 'Recipients'}
+                    </button>
+                    {campaign.status !== 'running' && (
+                      <button
+                        className="text-slate-500 hover:text-slate-700"
+                        onClick={() => confirm(`Remove the campaign "${campaign.name}"? Queued recipients will not be sent.`) && onRemove(campaign.id)}
+                      >
+                        Remove
+                      </button>
+                    )}
+                  </span>
+                </div>
+                {expandedId === campaign.id && (
+                  <div className="space-y-0.5 pt-1 border-t border-slate-100">
+                    {campaign.recipients.map((r) => (
+                      <div key={r.contactId} className="flex items-center gap-2">
+                        <span className="truncate text-slate-700 flex-1" title={r.email}>{r.name}</span>
+                        {r.error && <span className="text-slate-500 truncate max-w-[12rem]" title={r.error}>{r.error}</span>}
+                        <span className={`px-1.5 rounded ${STATUS_CLASSES[r.status]}`}>{r.status}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,257 @@
+import { useMemo, useState } from 'react';
+import type { CategoryCondition, ContactAnalysisConfig, ContactCategory } from '../types/contact';
+import {
+  CATEGORY_METRICS,
+  CONTACT_CATEGORIES,
+  loadCategoryRules,
+  resetCategoryRules,
+  saveCategoryRules,
+  validateCategoryRules,
+} from '../services/categoryRules';
+import { getCategoryLabel } from '../utils/contactCategory';
+
+const newId = (prefix: string) => `${prefix}-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+export function CategoryRulesSettings({
+  onClose,
+  onSaved,
+}: {
+  onClose: () => void;
+  onSaved: (config: ContactAnalysisConfig) => void;
+}) {
+  const [draft, setDraft] = useState<ContactAnalysisConfig>(() => structuredClone(loadCategoryRules()));
+  const errors = useMemo(() => validateCategoryRules(draft), [draft]);
+
+  const update = (mutate: (next: ContactAnalysisConfig) => void) => {
+    setDraft((prev) => {
+      const next = structuredClone(prev);
+      mutate(next);
+      return next;
+    });
+  };
+
+  const moveRule = (index: number, delta: number) => update((next) => {
+    const target = index + delta;
+    if (target < 0 || target >= next.rules.length) return;
+    [next.rules[index], next.rules[target]] = [next.rules[target], next.rules[index]];
+  });
+
+  const updateCondition = (ruleIndex: number, groupIndex: number, conditionIndex: number, patch: Partial<CategoryCondition>) =>
+    update((next) => {
+      const group = next.rules[ruleIndex].conditionGroups[groupIndex];
+      group[conditionIndex] = { ...group[conditionIndex], ...patch };
+    });
+
+  const handleSave = () => {
+    try {
+      saveCategoryRules(draft);
+      onSaved(draft);
+      onClose();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to save category rules');
+    }
+  };
+
+  const handleReset = () => {
+    if (!confirm('Reset category rules to the defaults?')) return;
+    const defaults = resetCategoryRules();
+    setDraft(structuredClone(defaults));
+    onSaved(defaults);
+  };
+
+  const inputClass = 'border border-slate-300 rounded px-1.5 py-1 text-xs bg-white';
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center z-50 p-2">
+      <div className="glass-panel w-full max-w-lg max-h-[95vh] overflow-hidden flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-slate-200 bg-slate-50">
+          <div>
+            <h3 className="text-lg font-semibold text-slate-800">Category Rules</h3>
+            <p className="text-xs text-slate-600">Rules run top to bottom; the first match decides the category.</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-slate-500 hover:text-slate-700 text-xl font-light hover:bg-slate-200 rounded-full w-6 h-6 flex items-center justify-center transition-colors ml-2 flex-shrink-0"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-3 space-y-3 text-xs">
+          {draft.rules.map((rule, ruleIndex) => (
+            <div key={rule.id} className="bg-white border border-slate-200 rounded p-2 space-y-2">
+              <div className="flex items-center gap-2">
+                <span className="font-semibold text-slate-700">{ruleIndex + 1}.</span>
+                <select
+                  className={inputClass}
+                  value={rule.category}
+                  onChange={(e) => update((next) => { next.rules[ruleIndex].category = e.target.value as ContactCategory; })}
+                >
+                  {CONTACT_CATEGORIES.map((c) => <option key={c} value={c}>{getCategoryLabel(c)}</option>)}
+                </select>
+                {draft.customCategories.length > 0 && (
+                  <select
+                    className={inputClass}
+                    value={rule.customCategoryId ?? ''}
+                    onChange={(e) => update((next) => { next.rules[ruleIndex].customCategoryId = e.target.value || undefined; })}
+                  >
+                    <option value="">No custom category</option>
+                    {draft.customCategories.map((c) => <option key={c.id} value={c.id}>{c.label || c.id}</option>)}
+                  </select>
+                )}
+                <div className="ml-auto flex gap-1">
+                  <button className="btn-ghost" disabled={ruleIndex === 0} onClick={() => moveRule(ruleIndex, -1)} title="Move up">↑</button>
+                  <button className="btn-ghost" disabled={ruleIndex === draft.rules.length - 1} onClick={() => moveRule(ruleIndex, 1)} title="Move down">↓</button>
+                  <button className="btn-ghost text-rose-600" onClick={() => update((next) => { next.rules.splice(ruleIndex, 1); })} title="Remove rule">✕</button>
+                </div>
+              </div>
+
+              {rule.conditionGroups.map((group, groupIndex) => (
+                <div key={groupIndex} className="border-l-2 border-blue-200 pl-2 space-y-1">
+                  <div className="text-slate-500">{groupIndex === 0 ? 'When all of:' : 'Or when all of:'}</div>
+                  {group.map((condition, conditionIndex) => (
+                    <div key={conditionIndex} className="flex items-center gap-1">
+                      <select
+                        className={`${inputClass} flex-1`}
+                        value={condition.metric}
+                        onChange={(e) => updateCondition(ruleIndex, groupIndex, conditionIndex, { metric: e.target.value as CategoryCondition['metric'] })}
+                      >
+                        {CATEGORY_METRICS.map((m) => <option key={m.metric} value={m.metric}>{m.label}</option>)}
+                      </select>
+                      <select
+                        className={inputClass}
+                        value={condition.operator}
+                        onChange={(e) => updateCondition(ruleIndex, groupIndex, conditionIndex, { operator: e.target.value as CategoryCondition['operator'] })}
+                      >
+                        <option value=">=">≥</option>
+                        <option value="<=">≤</option>
+                      </select>
+                      <input
+                        type="number"
+                        min={0}
+                        step={condition.metric === 'responseRate' ? 0.05 : 1}
+                        className={`${inputClass} w-16`}
+                        value={Number.isFinite(condition.value) ? condition.value : ''}
+                        onChange={(e) => updateCondition(ruleIndex, groupIndex, conditionIndex, { value: e.target.value === '' ? NaN : Number(e.target.value) })}
+                      />
+                      <button
+                        className="btn-ghost text-rose-600"
+                        onClick={() => update((next) => { next.rules[ruleIndex].conditionGroups[groupIndex].splice(conditionIndex, 1); })}
+                        title="Remove condition"
+                      >
+                        ✕
+                      </button>
+                    </div>
+                  ))}
+                  <div className="flex gap-2">
+                    <button
+                      className="text-blue-600 hover:text-blue-800"
+                      onClick={() => update((next) => { next.rules[ruleIndex].conditionGroups[groupIndex].push({ metric: 'totalEmails', operator: '>=', value: 1 }); })}
+                    >
+                      + Condition
+                    </button>
+                    <button
+                      className="text-slate-500 hover:text-rose-600"
+                      onClick={() => update((next) => { next.rules[ruleIndex].conditionGroups.splice(groupIndex, 1); })}
+                    >
+                      Remove group
+                    </button>
+                  </div>
+                </div>
+              ))}
+              <button
+                className="text-blue-600 hover:text-blue-800"
+                onClick={() => update((next) => { next.rules[ruleIndex].conditionGroups.push([{ metric: 'totalEmails', operator: '>=', value: 1 }]); })}
+              >
+                + Or group
+              </button>
+            </div>
+          ))}
+
+          <button
+            className="btn-secondary"
+            onClick={() => update((next) => {
+              next.rules.push({
+                id: newId('rule'),
+                category: 'in_touch',
+                conditionGroups: [[{ metric: 'totalEmails', operator: '>=', value: 1 }]],
+              });
+            })}
+          >
+            + Rule
+          </button>
+
+          <div className="bg-white border border-slate-200 rounded p-2 flex items-center gap-2">
+            <span className="text-slate-700">Otherwise:</span>
+            <select
+              className={inputClass}
+              value={draft.fallbackCategory}
+              onChange={(e) => update((next) => { next.fallbackCategory = e.target.value as ContactCategory; })}
+            >
+              {CONTACT_CATEGORIES.map((c) => <option key={c} value={c}>{getCategoryLabel(c)}</option>)}
+            </select>
+          </div>
+
+          <div className="bg-white border border-slate-200 rounded p-2 space-y-1">
+            <div className="font-semibold text-slate-700">Custom categories</div>
+            <p className="text-slate-500">Shown next to the built-in category when a rule assigns them.</p>
+            {draft.customCategories.map((custom, index) => (
+              <div key={custom.id} className="flex items-center gap-1">
+                <input
+                  className={`${inputClass} flex-1`}
+                  placeholder="Label, e.g. Key account"
+                  value={custom.label}
+                  onChange={(e) => update((next) => { next.customCategories[index].label = e.target.value; })}
+                />
+                <button
+                  className="btn-ghost text-rose-600"
+                  onClick={() => update((next) => {
+                    next.customCategories.splice(index, 1);
+                    next.rules.forEach((r) => { if (r.customCategoryId === custom.id) r.customCategoryId = undefined; });
+                  })}
+                  title="Remove custom category"
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+            <button
+              className="text-blue-600 hover:text-blue-800"
+              onClick={() => update((next) => { next.customCategories.push({ id: newId('custom'), label: '' }); })}
+            >
+              + Custom category
+            </button>
+          </div>
+
+          {errors.length > 0 && (
+            <ul className="bg-rose-50 border border-rose-200 text-rose-700 rounded p-2 list-disc list-inside">
+              {errors.map((error) => <li key={error}>{error}</li>)}
+            </ul>
+          )}
+        </div>
+
+        <div className="flex gap-2 p-3 border-t border-slate-200 bg-slate-50">
+          <button
+            onClick={handleReset}
+            className="px-3 py-2 text-xs text-slate-700 hover:text-slate-900 transition-colors border border-slate-300 rounded-lg hover:bg-slate-200"
+          >
+            Reset
+          </button>
+          <button
+            onClick={onClose}
+            className="flex-1 px-3 py-2 text-xs text-slate-700 hover:text-slate-900 transition-colors border border-slate-300 rounded-lg hover:bg-slate-200"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={errors.length > 0}
+            className="flex-1 px-3 py-2 text-xs bg-blue-600 text-white rounded-lg hover:bg-blue-500 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Save &amp; Re-categorize
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
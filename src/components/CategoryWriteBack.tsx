@@ -0,0 +1,141 @@
+import { useState } from 'react';
+import { getMailProvider, type CategoryChange, type CategoryWriteBackResult } from '../services/mailProvider';
+import { OLX_CATEGORY_PREFIX } from '../services/categoryWriteBack';
+import type { ContactWithAnalysis } from '../types/contact';
+
+/**
+ * Writes the analysis categories to the address book. A dry run lists every change first;
+ * nothing is written until the user confirms it.
+ */
+export function CategoryWriteBack({
+  contacts,
+  onClose,
+}: {
+  contacts: ContactWithAnalysis[];
+  onClose: () => void;
+}) {
+  const provider = getMailProvider();
+  const [createMissing, setCreateMissing] = useState(false);
+  const [changes, setChanges] = useState<CategoryChange[] | null>(null);
+  const [isPlanning, setIsPlanning] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [result, setResult] = useState<CategoryWriteBackResult | null>(null);
+
+  const handlePlan = async () => {
+    if (!provider.planCategoryWriteBack) return;
+    setIsPlanning(true);
+    setResult(null);
+    try {
+      setChanges(await provider.planCategoryWriteBack(contacts, { createMissing }));
+    } catch (error) {
+      console.error('Failed to plan category write-back:', error);
+      alert('Could not read the address book. Writing categories needs the Contacts.ReadWrite permission.');
+    } finally {
+      setIsPlanning(false);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!provider.applyCategoryWriteBack || !changes) return;
+    setProgress({ done: 0, total: changes.length });
+    try {
+      setResult(await provider.applyCategoryWriteBack(changes, (done, total) => setProgress({ done, total })));
+      setChanges(null);
+    } catch (error) {
+      console.error('Failed to write categories:', error);
+      alert('Failed to write categories');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const isWriting = progress !== null;
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center z-50 p-2">
+      <div className="glass-panel w-full max-w-lg max-h-[95vh] overflow-hidden flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-slate-200 bg-slate-50">
+          <div>
+            <h3 className="text-lg font-semibold text-slate-800">Write Categories to {provider.displayName}</h3>
+            <p className="text-xs text-slate-600">
+              Adds "{OLX_CATEGORY_PREFIX}Recent", "{OLX_CATEGORY_PREFIX}In Touch" or "{OLX_CATEGORY_PREFIX}Inactive" and custom categories to your contacts. Your own categories are kept.
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            disabled={isWriting}
+            className="text-slate-500 hover:text-slate-700 text-xl font-light hover:bg-slate-200 rounded-full w-6 h-6 flex items-center justify-center transition-colors ml-2 flex-shrink-0"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-3 space-y-2 text-xs">
+          {!provider.planCategoryWriteBack && (
+            <div className="text-slate-500">{provider.displayName} does not support contact categories.</div>
+          )}
+          <label className="flex items-center gap-2 text-slate-700">
+            <input
+              type="checkbox"
+              checked={createMissing}
+              disabled={isPlanning || isWriting}
+              onChange={(e) => { setCreateMissing(e.target.checked); setChanges(null); }}
+            />
+            Create contacts for addresses known only from mail (automated senders are skipped)
+          </label>
+
+          {result && (
+            <div className="bg-emerald-50 border border-emerald-200 text-emerald-800 rounded px-2 py-1">
+              Updated {result.written}, created {result.created}{result.failed > 0 ? `, ${result.failed} failed (see console)` : ''}.
+            </div>
+          )}
+          {progress && <div className="text-slate-600">Writing {progress.done} of {progress.total}...</div>}
+          {changes && changes.length === 0 && <div className="text-slate-500">Everything is up to date.</div>}
+          {changes?.map((change) => {
+            const removed = change.before.filter((c) => !change.after.includes(c));
+            const added = change.after.filter((c) => !change.before.includes(c));
+            return (
+              <div key={change.contactId ?? change.email} className="bg-white border border-slate-200 rounded px-2 py-1">
+                <div className="flex items-center gap-2">
+                  <span className="truncate text-slate-700" title={change.email}>{change.name}</span>
+                  {!change.contactId && <span className="px-1.5 rounded bg-blue-50 text-blue-700">new contact</span>}
+                </div>
+                <div className="flex flex-wrap gap-1 mt-1">
+                  {removed.map((c) => <span key={c} className="px-1.5 rounded bg-rose-50 text-rose-700 line-through">{c}</span>)}
+                  {added.map((c) => <span key={c} className="px-1.5 rounded bg-emerald-50 text-emerald-700">+ {c}</span>)}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex gap-2 p-3 border-t border-slate-200 bg-slate-50">
+          <button
+            onClick={changes ? () => setChanges(null) : onClose}
+            disabled={isWriting}
+            className="flex-1 px-3 py-2 text-xs text-slate-700 hover:text-slate-900 transition-colors border border-slate-300 rounded-lg hover:bg-slate-200"
+          >
+            {changes ? 'Back' : 'Cancel'}
+          </button>
+          {changes ? (
+            <button
+              onClick={handleApply}
+              disabled={changes.length === 0 || isWriting}
+              className="flex-1 px-3 py-2 text-xs bg-blue-600 text-white rounded-lg hover:bg-blue-500 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isWriting ? 'Writing...' : `Write ${changes.length} change${changes.length === 1 ? '' : 's'}`}
+            </button>
+          ) : (
+            <button
+              onClick={handlePlan}
+              disabled={!provider.planCategoryWriteBack || isPlanning || contacts.length === 0}
+              className="flex-1 px-3 py-2 text-xs bg-blue-600 text-white rounded-lg hover:bg-blue-500 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isPlanning ? 'Comparing...' : 'Preview changes'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,14 @@
+import { useEffect, useState } from 'react';
 import DOMPurify from 'dompurify';
-import type { ContactWithAnalysis } from '../types/contact';
+import type { ContactWithAnalysis, EmailInteraction, FollowUpPriority, FollowUpTask, SnapshotEntry } from '../types/contact';
 import { getCategoryPillClasses, getCategoryLabel } from '../utils/contactCategory';
+import { getMailProvider } from '../services/mailProvider';
+import { getMailboxStore } from '../services/storage/analysisStore';
+import { getActiveMailbox } from '../services/mailboxes';
+import { loadAutomatedOverrides, setAutomatedOverride } from '../services/automatedSenders';
+import { AnalysisBreakdown } from './AnalysisBreakdown';
+import { ContactTimeline } from './ContactTimeline';
+import { FollowUpEditor } from './FollowUpEditor';
 
 export function ContactDetailsModal({
   contact,
@@ -9,6 +17,13 @@ export function ContactDetailsModal({
   isLoading,
   onClose,
   onDraft,
+  onAutomatedOverrideChanged,
+  followUps,
+  mirrorToTodo,
+  onAddFollowUp,
+  onCompleteFollowUp,
+  onRemoveFollowUp,
+  onMirrorToTodoChange,
 }: {
   contact: ContactWithAnalysis;
   html: string | null;
@@ -16,7 +31,103 @@ export function ContactDetailsModal({
   isLoading: boolean;
   onClose: () => void;
   onDraft: (contact: ContactWithAnalysis) => void;
+  onAutomatedOverrideChanged: (contact: ContactWithAnalysis) => void;
+  /** This contact's follow-up tasks */
+  followUps: FollowUpTask[];
+  mirrorToTodo?: boolean;
+  onAddFollowUp: (contact: ContactWithAnalysis, dueDate: string, note: string, priority: FollowUpPriority) => void;
+  onCompleteFollowUp: (task: FollowUpTask) => void;
+  onRemoveFollowUp: (task: FollowUpTask) => void;
+  onMirrorToTodoChange: (mirror: boolean) => void;
 }) {
+  const [timeline, setTimeline] = useState<EmailInteraction[] | null>(null);
+  const [timelineError, setTimelineError] = useState(false);
+  const [selected, setSelected] = useState<EmailInteraction | null>(null);
+  const [selectedHtml, setSelectedHtml] = useState<string | null>(null);
+  const [isLoadingSelected, setIsLoadingSelected] = useState(false);
+  // Message id -> mailbox it is stored in; the merged team view reads several mailboxes
+  const [mailboxOf, setMailboxOf] = useState<Map<string, string>>(new Map());
+  const [history, setHistory] = useState<SnapshotEntry[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setHistory(null);
+    getMailboxStore(contact.lastTouchMailbox ?? getActiveMailbox()).getContactHistory(contact.id)
+      .then((entries) => { if (!cancelled) setHistory(entries); })
+      .catch((error) => {
+        console.warn('Failed to load category history:', error);
+        if (!cancelled) setHistory([]);
+      });
+    return () => { cancelled = true; };
+  }, [contact.id, contact.lastTouchMailbox]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const contactIds = [contact.email.toLowerCase(), ...(contact.aliases ?? [])];
+    setTimeline(null);
+    setTimelineError(false);
+    setSelected(null);
+    const mailboxIds = contact.mailboxes ?? [getActiveMailbox()];
+    Promise.all(mailboxIds.map((mailboxId) => getMailboxStore(mailboxId).getInteractionsForContacts(contactIds)))
+      .then((results) => {
+        if (cancelled) return;
+        // The same message can be stored once per folder sync or merged address; keep one entry per message
+        const unique = new Map<string, EmailInteraction>();
+        const sources = new Map<string, string>();
+        results.forEach((byContact, index) => {
+          contactIds.forEach((id) => (byContact.get(id) ?? []).forEach((i) => {
+            unique.set(i.id, i);
+            sources.set(i.id, mailboxIds[index]);
+          }));
+        });
+        setMailboxOf(sources);
+        setTimeline(Array.from(unique.values()).sort((a, b) => a.date.getTime() - b.date.getTime()));
+      })
+      .catch((error) => {
+        console.warn('Failed to load contact timeline:', error);
+        if (!cancelled) setTimelineError(true);
+      });
+    return () => { cancelled = true; };
+  }, [contact.email, contact.aliases, contact.mailboxes]);
+
+  const handleSelectInteraction = async (interaction: EmailInteraction) => {
+    setSelected(interaction);
+    setSelectedHtml(null);
+    // Meetings have no message body to show
+    if (interaction.channel === 'meeting') return;
+    // Message ids only resolve in their own mailbox
+    if ((mailboxOf.get(interaction.id) ?? getActiveMailbox()) !== getActiveMailbox()) return;
+    setIsLoadingSelected(true);
+    try {
+      const preview = await getMailProvider().getMessageBody(interaction.id);
+      setSelectedHtml(preview?.html ?? null);
+    } catch (error) {
+      console.warn('Failed to load message body:', error);
+    } finally {
+      setIsLoadingSelected(false);
+    }
+  };
+
+  const profile = contact.profile;
+  // Runs where the category changed, newest first
+  const categoryChanges = (history ?? [])
+    .filter((entry, index, all) => index === 0 || all[index - 1].category !== entry.category)
+    .reverse();
+  const isAutomated = (contact.tags || []).includes('automated');
+  const detectedReasons = contact.analysis.automatedReasons ?? [];
+  const domain = contact.email.split('@')[1] || '';
+  const overrides = loadAutomatedOverrides();
+  const contactOverride = overrides.contacts[contact.email.toLowerCase()];
+  const domainOverride = overrides.domains[domain.toLowerCase()];
+
+  const changeOverride = (scope: 'contact' | 'domain', value: boolean | null) => {
+    setAutomatedOverride(scope, contact.email, value);
+    onAutomatedOverrideChanged(contact);
+  };
+
+  const shownHtml = selected ? selectedHtml : html;
+  const shownLoading = selected ? isLoadingSelected : isLoading;
+
   return (
     <div className="fixed inset-0 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center z-50 p-2">
       <div className="glass-panel w-full max-w-sm max-h-[95vh] overflow-hidden flex flex-col">
@@ -24,6 +135,43 @@ export function ContactDetailsModal({
           <div className="flex-1 min-w-0">
             <h3 className="text-lg font-semibold text-slate-800 truncate">{contact.name}</h3>
             <p className="text-xs text-slate-600 truncate">{contact.email}</p>
+            {contact.aliases && contact.aliases.length > 0 && (
+              <p className="text-[11px] text-slate-500 truncate" title={contact.aliases.join(', ')}>
+                Also: {contact.aliases.join(', ')}
+              </p>
+            )}
+            {profile && (profile.jobTitle || profile.companyName) && (
+              <p className="text-xs text-slate-700 truncate mt-1">
+                {[profile.jobTitle, profile.companyName].filter(Boolean).join(' · ')}
+              </p>
+            )}
+            {profile?.businessPhones && (
+              <p className="text-[11px] text-slate-600 truncate">
+                {profile.businessPhones.map((phone, index) => (
+                  <span key={phone}>
+                    {index > 0 && ', '}
+                    <a className="text-blue-600 hover:text-blue-800" href={`tel:${phone.replace(/[^\d+]/g, '')}`}>{phone}</a>
+                  </span>
+                ))}
+              </p>
+            )}
+            {profile?.personalNotes && (
+              <p className="text-[11px] text-slate-500 italic line-clamp-2" title={profile.personalNotes}>
+                {profile.personalNotes}
+              </p>
+            )}
+            {profile?.categories && (
+              <div className="flex flex-wrap gap-1 mt-1" title="Categories of the address book entry">
+                {profile.categories.map((cat) => (
+                  <span
+                    key={cat}
+                    className="inline-flex items-center px-2 py-0.5 rounded-full text-[10px] font-medium bg-amber-100 text-amber-800 border border-amber-200"
+                  >
+                    {cat}
+                  </span>
+                ))}
+              </div>
+            )}
             {categories && categories.length > 0 && (
               <div className="flex flex-wrap gap-1 mt-2">
                 {categories.map((cat) => (
@@ -53,6 +201,11 @@ export function ContactDetailsModal({
                 <span className={`px-1.5 py-0.5 rounded-full text-xs font-medium ${getCategoryPillClasses(contact.category)}`}>
                   {getCategoryLabel(contact.category)}
                 </span>
+                {contact.customCategory && (
+                  <span className="ml-1 px-1.5 py-0.5 rounded-full text-xs font-medium bg-violet-100 text-violet-800">
+                    {contact.customCategory}
+                  </span>
+                )}
               </div>
             </div>
 
@@ -75,10 +228,108 @@ export function ContactDetailsModal({
           </div>
         </div>
 
+        <div className="px-3 py-2 bg-slate-50 border-b border-slate-200 text-xs flex flex-wrap items-center gap-1.5">
+          <span
+            className={`px-1.5 py-0.5 rounded font-medium ${isAutomated ? 'bg-slate-200 text-slate-700' : 'bg-emerald-50 text-emerald-700'}`}
+            title={detectedReasons.length > 0 ? `Detected: ${detectedReasons.join('; ')}` : 'Nothing suggests an automated sender'}
+          >
+            {isAutomated ? 'Automated sender' : 'Person'}
+          </span>
+          {contactOverride !== undefined ? (
+            <button className="text-blue-600 hover:text-blue-800" onClick={() => changeOverride('contact', null)}>
+              Undo override
+            </button>
+          ) : (
+            <button className="text-blue-600 hover:text-blue-800" onClick={() => changeOverride('contact', !isAutomated)}>
+              {isAutomated ? 'Not automated' : 'Mark automated'}
+            </button>
+          )}
+          {domain && (domainOverride !== undefined ? (
+            <button className="text-blue-600 hover:text-blue-800" onClick={() => changeOverride('domain', null)}>
+              Undo override for @{domain}
+            </button>
+          ) : (
+            <button className="text-blue-600 hover:text-blue-800" onClick={() => changeOverride('domain', !isAutomated)}>
+              {isAutomated ? 'Not automated' : 'Mark automated'}: all @{domain}
+            </button>
+          ))}
+        </div>
+
         <div className="flex-1 overflow-y-auto p-3">
+          <details className="mb-3 bg-slate-50 border border-slate-200 rounded p-2" open={followUps.some((t) => !t.doneAt)}>
+            <summary className="cursor-pointer text-sm font-semibold text-slate-800">
+              Follow-ups{followUps.some((t) => !t.doneAt) ? ` (${followUps.filter((t) => !t.doneAt).length} open)` : ''}
+            </summary>
+            <div className="mt-2">
+              <FollowUpEditor
+                tasks={followUps}
+                mirrorToTodo={mirrorToTodo}
+                onAdd={(dueDate, note, priority) => onAddFollowUp(contact, dueDate, note, priority)}
+                onComplete={onCompleteFollowUp}
+                onRemove={onRemoveFollowUp}
+                onMirrorToTodoChange={onMirrorToTodoChange}
+              />
+            </div>
+          </details>
+
+          <details className="mb-3 bg-slate-50 border border-slate-200 rounded p-2">
+            <summary className="cursor-pointer text-sm font-semibold text-slate-800">Score breakdown</summary>
+            <div className="mt-2">
+              <AnalysisBreakdown analysis={contact.analysis} />
+            </div>
+          </details>
+
+          <details className="mb-3 bg-slate-50 border border-slate-200 rounded p-2">
+            <summary className="cursor-pointer text-sm font-semibold text-slate-800">
+              Category history{history ? ` (${history.length} runs)` : ''}
+            </summary>
+            <div className="mt-2 space-y-1 text-xs">
+              {!history && <div className="text-slate-500">Loading history…</div>}
+              {history && history.length === 0 && <div className="text-slate-500">Not in any stored analysis run yet</div>}
+              {categoryChanges.map((entry) => (
+                <div key={entry.snapshotId} className="flex items-center gap-2">
+                  <span className="text-slate-500 w-20">{new Date(entry.snapshotId).toLocaleDateString()}</span>
+                  <span className={`px-1.5 py-0.5 rounded-full font-medium ${getCategoryPillClasses(entry.category)}`}>
+                    {getCategoryLabel(entry.category)}
+                  </span>
+                  <span className="text-slate-500">score {Math.round(entry.score)}</span>
+                </div>
+              ))}
+            </div>
+          </details>
+
+          <details className="mb-3 bg-slate-50 border border-slate-200 rounded p-2" open>
+            <summary className="cursor-pointer text-sm font-semibold text-slate-800">Timeline</summary>
+            <div className="mt-2">
+              {timelineError ? (
+                <div className="text-xs text-slate-500">Timeline unavailable</div>
+              ) : timeline ? (
+                <ContactTimeline interactions={timeline} selectedId={selected?.id ?? null} onSelect={handleSelectInteraction} />
+              ) : (
+                <div className="text-xs text-slate-500">Loading timeline…</div>
+              )}
+            </div>
+          </details>
+
           <div className="mb-3">
-            <h4 className="text-sm font-semibold text-slate-800 mb-2">Last Email</h4>
-            {categories && categories.length > 0 && (
+            {selected ? (
+              <div className="flex items-center justify-between mb-2 gap-2">
+                <h4 className="text-sm font-semibold text-slate-800 truncate" title={selected.subject}>
+                  {selected.channel === 'meeting' ? 'Meeting' : selected.direction === 'sent' ? 'Sent' : 'Received'} {selected.date.toLocaleDateString()}: {selected.subject}
+                </h4>
+                <button onClick={() => setSelected(null)} className="text-xs text-blue-600 hover:text-blue-800 flex-shrink-0">
+                  Back to last email
+                </button>
+              </div>
+            ) : (
+              <h4 className="text-sm font-semibold text-slate-800 mb-2">Last Email</h4>
+            )}
+            {selected && (mailboxOf.get(selected.id) ?? getActiveMailbox()) !== getActiveMailbox() && (
+              <div className="text-xs text-slate-500 mb-2">
+                From {mailboxOf.get(selected.id) === 'me' ? 'your mailbox' : mailboxOf.get(selected.id)}. Switch to that mailbox to read this message.
+              </div>
+            )}
+            {!selected && categories && categories.length > 0 && (
               <div className="flex flex-wrap gap-1 mb-2">
                 {categories.map((cat) => (
                   <span
@@ -92,25 +343,25 @@ export function ContactDetailsModal({
             )}
           </div>
 
-          {isLoading ? (
+          {shownLoading ? (
             <div className="flex items-center justify-center h-24">
               <div className="text-slate-600 text-center">
                 <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-primary-600 mx-auto mb-2"></div>
                 <div className="text-xs">Loading email…</div>
               </div>
             </div>
-          ) : html ? (
+          ) : shownHtml ? (
             <div className="bg-white border border-slate-200 rounded p-3 shadow-sm">
               <div
                 className="prose prose-sm max-w-none text-slate-800 leading-relaxed prose-headings:text-slate-800 prose-p:text-slate-700 prose-strong:text-slate-900 prose-a:text-blue-600"
-                dangerouslySetInnerHTML={{ __html: DOMPurify.sanitize(html) }}
+                dangerouslySetInnerHTML={{ __html: DOMPurify.sanitize(shownHtml) }}
               />
             </div>
           ) : (
             <div className="flex items-center justify-center h-24 text-slate-500">
               <div className="text-center">
                 <div className="text-2xl mb-1">📧</div>
-                <div className="text-xs">No email available</div>
+                <div className="text-xs">{selected?.channel === 'meeting' ? 'Calendar meeting, no email to show' : 'No email available'}</div>
               </div>
             </div>
           )}
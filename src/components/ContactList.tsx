@@ -6,9 +6,12 @@ interface ContactListProps {
   onDraftEmail: (contact: ContactWithAnalysis) => void;
   onViewEmail?: (contact: ContactWithAnalysis) => void;
   onSnooze?: (contact: ContactWithAnalysis, days: number) => void;
+  /** Contact ids picked for a campaign; checkboxes are shown when onToggleSelect is given */
+  selectedIds?: Set<string>;
+  onToggleSelect?: (contact: ContactWithAnalysis) => void;
 }
 
-export function ContactList({ contacts, onDraftEmail, onViewEmail, onSnooze }: ContactListProps) {
+export function ContactList({ contacts, onDraftEmail, onViewEmail, onSnooze, selectedIds, onToggleSelect }: ContactListProps) {
 
   const getCategoryColor = (category: ContactWithAnalysis['category']) => {
     switch (category) {
@@ -37,10 +40,38 @@ export function ContactList({ contacts, onDraftEmail, onViewEmail, onSnooze }: C
               <div className="flex items-start justify-between gap-2">
                 <div className="flex-1 min-w-0">
                   <div className="flex items-center gap-2 mb-1">
+                    {onToggleSelect && (
+                      <input
+                        type="checkbox"
+                        checked={selectedIds?.has(contact.id) ?? false}
+                        onChange={() => onToggleSelect(contact)}
+                        title="Select for a campaign"
+                      />
+                    )}
                     <h4 className="font-medium text-slate-800 text-sm truncate">{contact.name}</h4>
                     <span title={getCategoryTooltip(contact.category)} className={`px-1.5 py-0.5 text-xs font-medium rounded ${getCategoryColor(contact.category)}`}>
                       {getCategoryLabel(contact.category)}
                     </span>
+                    {contact.analysis.cooling && (
+                      <span title="Contact cadence has dropped below their usual rhythm" className="px-1.5 py-0.5 text-xs font-medium rounded bg-amber-100 text-amber-800 border border-amber-200">
+                        Cooling
+                      </span>
+                    )}
+                    {(contact.tags || []).includes('automated') && (
+                      <span title="Newsletter, notification or other automated sender" className="px-1.5 py-0.5 text-xs font-medium rounded bg-slate-100 text-slate-600 border border-slate-200">
+                        Automated
+                      </span>
+                    )}
+                    {contact.lastTouchMailbox && (contact.mailboxes?.length ?? 0) > 1 && (
+                      <span title={`Last touched from ${contact.lastTouchMailbox === 'me' ? 'your mailbox' : contact.lastTouchMailbox}; seen in ${contact.mailboxes!.length} mailboxes`} className="px-1.5 py-0.5 text-xs font-medium rounded bg-sky-50 text-sky-700 border border-sky-200 truncate max-w-[10rem]">
+                        via {contact.lastTouchMailbox === 'me' ? 'me' : contact.lastTouchMailbox}
+                      </span>
+                    )}
+                    {contact.customCategory && (
+                      <span className="px-1.5 py-0.5 text-xs font-medium rounded bg-violet-100 text-violet-800 border border-violet-200">
+                        {contact.customCategory}
+                      </span>
+                    )}
                   </div>
                   <p className="text-xs text-slate-500 truncate mb-1">{contact.email}</p>
                   <div className="flex items-center gap-3 text-xs text-slate-500">
@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
 import type { ContactWithAnalysis } from '../types/contact';
+import { loadSavedFilters, saveSavedFilters, type ContactFilterOptions, type SavedFilter } from '../services/savedFilters';
 
 interface ContactSearchProps {
   contacts: ContactWithAnalysis[];
@@ -8,14 +9,7 @@ interface ContactSearchProps {
   showAdvancedFilters?: boolean;
 }
 
-interface FilterOptions {
-  searchTerm: string;
-  responseRateRange: [number, number];
-  lastContactFilter: string;
-  emailCountRange: [number, number];
-  sortBy: 'default' | 'name' | 'emailCount' | 'lastContact' | 'responseRate';
-  sortOrder: 'asc' | 'desc';
-}
+type FilterOptions = ContactFilterOptions;
 
 export function ContactSearch({ 
   contacts, 
@@ -33,6 +27,7 @@ export function ContactSearch({
   });
 
   const [showAdvanced, setShowAdvanced] = useState(false);
+  const [savedFilters, setSavedFilters] = useState<SavedFilter[]>(() => loadSavedFilters());
 
   // Debounced search effect
   useEffect(() => {
@@ -53,7 +48,12 @@ export function ContactSearch({
       filtered = filtered.filter(contact => {
         const nameLower = (contact.name || '').toLowerCase();
         const emailLower = (contact.email || '').toLowerCase();
-        return nameLower.includes(searchLower) || emailLower.includes(searchLower);
+        if (nameLower.includes(searchLower) || emailLower.includes(searchLower)) return true;
+        // Address book details: company, job title, categories and notes
+        const profile = contact.profile;
+        if (!profile) return false;
+        return [profile.companyName, profile.jobTitle, profile.personalNotes, ...(profile.categories ?? [])]
+          .some(value => (value || '').toLowerCase().includes(searchLower));
       });
     }
 
@@ -178,6 +178,26 @@ export function ContactSearch({
     });
   };
 
+  const handleSaveFilter = () => {
+    const name = prompt('Name for this filter:')?.trim();
+    if (!name) return;
+    const next = [...savedFilters.filter(f => f.name !== name), { name, filters }];
+    setSavedFilters(next);
+    saveSavedFilters(next);
+  };
+
+  const handleApplySavedFilter = (name: string) => {
+    const saved = savedFilters.find(f => f.name === name);
+    if (saved) setFilters(saved.filters);
+  };
+
+  const handleDeleteSavedFilter = (name: string) => {
+    if (!confirm(`Delete the saved filter "${name}"?`)) return;
+    const next = savedFilters.filter(f => f.name !== name);
+    setSavedFilters(next);
+    saveSavedFilters(next);
+  };
+
   const hasActiveFilters = filters.searchTerm || 
     filters.responseRateRange[0] > 0 || 
     filters.responseRateRange[1] < 100 ||
@@ -242,6 +262,29 @@ export function ContactSearch({
           </button>
         )}
 
+        {savedFilters.length > 0 && (
+          <select
+            value=""
+            onChange={(e) => handleApplySavedFilter(e.target.value)}
+            className="select-glass"
+            title="Apply a saved filter"
+          >
+            <option value="">Saved filters…</option>
+            {savedFilters.map(f => (
+              <option key={f.name} value={f.name}>{f.name}</option>
+            ))}
+          </select>
+        )}
+
+        {hasActiveFilters && (
+          <button
+            onClick={handleSaveFilter}
+            className="text-xs px-2 py-1 bg-slate-200 hover:bg-slate-300 rounded text-slate-700 focus:outline-none focus:ring-1 focus:ring-blue-500/40"
+          >
+            Save Filter
+          </button>
+        )}
+
         {hasActiveFilters && (
           <button
             onClick={clearFilters}
@@ -302,6 +345,22 @@ export function ContactSearch({
               <span className="text-xs text-slate-400">emails</span>
             </div>
           </div>
+
+          {savedFilters.length > 0 && (
+            <div>
+              <label className="text-xs font-medium text-slate-600 block mb-1">
+                Saved Filters
+              </label>
+              <div className="flex flex-wrap gap-1">
+                {savedFilters.map(f => (
+                  <span key={f.name} className="inline-flex items-center gap-1 px-1.5 py-0.5 text-xs rounded bg-white border border-slate-300 text-slate-700">
+                    {f.name}
+                    <button onClick={() => handleDeleteSavedFilter(f.name)} className="text-slate-400 hover:text-rose-600" title="Delete saved filter">×</button>
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
       )}
     </div>
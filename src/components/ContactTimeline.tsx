@@ -0,0 +1,162 @@
+import { useMemo } from 'react';
+import type { EmailInteraction } from '../types/contact';
+import { isDirectInteraction } from '../services/contactAnalyzer';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_DOTS_PER_WEEK = 4;
+
+type ThreadGroup = {
+  threadId: string;
+  subject: string;
+  lastTime: number;
+  // Each interaction with the time since the other side's previous message, when it is a reply
+  items: Array<{ interaction: EmailInteraction; replyHours: number | null }>;
+};
+
+function weekStart(time: number): number {
+  const d = new Date(time);
+  d.setHours(0, 0, 0, 0);
+  d.setDate(d.getDate() - ((d.getDay() + 6) % 7)); // back to Monday
+  return d.getTime();
+}
+
+function formatHours(hours: number): string {
+  if (hours < 1) return '<1h';
+  if (hours < 48) return `${Math.round(hours)}h`;
+  return `${Math.round(hours / 24)}d`;
+}
+
+function buildWeeks(interactions: EmailInteraction[]) {
+  if (interactions.length === 0) return [];
+  const byWeek = new Map<number, EmailInteraction[]>();
+  interactions.forEach(interaction => {
+    const key = weekStart(interaction.date.getTime());
+    if (!byWeek.has(key)) byWeek.set(key, []);
+    byWeek.get(key)!.push(interaction);
+  });
+
+  // Include empty weeks so gaps in the relationship are visible
+  const weeks: Array<{ start: number; interactions: EmailInteraction[] }> = [];
+  const first = weekStart(interactions[0].date.getTime());
+  const last = weekStart(Date.now());
+  for (let start = first; start <= last; start = weekStart(start + 8 * DAY_MS)) {
+    weeks.push({ start, interactions: byWeek.get(start) ?? [] });
+  }
+  return weeks;
+}
+
+function buildThreads(interactions: EmailInteraction[]): ThreadGroup[] {
+  const threads = new Map<string, ThreadGroup>();
+  interactions.forEach(interaction => {
+    const threadId = interaction.threadId || `msg:${interaction.id}`;
+    let thread = threads.get(threadId);
+    if (!thread) {
+      thread = { threadId, subject: interaction.subject, lastTime: 0, items: [] };
+      threads.set(threadId, thread);
+    }
+    // Copies (CC/BCC) are not replies between us and the contact
+    const previous = [...thread.items].reverse().find(item => isDirectInteraction(item.interaction))?.interaction;
+    const replyHours = previous && isDirectInteraction(interaction) && previous.direction !== interaction.direction
+      ? (interaction.date.getTime() - previous.date.getTime()) / (60 * 60 * 1000)
+      : null;
+    thread.items.push({ interaction, replyHours });
+    thread.lastTime = Math.max(thread.lastTime, interaction.date.getTime());
+  });
+  return Array.from(threads.values()).sort((a, b) => b.lastTime - a.lastTime);
+}
+
+/**
+ * Weekly sent/received markers plus the contact's threads with reply-time annotations.
+ * Interactions must be sorted oldest first.
+ */
+export function ContactTimeline({
+  interactions,
+  selectedId,
+  onSelect,
+}: {
+  interactions: EmailInteraction[];
+  selectedId: string | null;
+  onSelect: (interaction: EmailInteraction) => void;
+}) {
+  const weeks = useMemo(() => buildWeeks(interactions), [interactions]);
+  // Meetings show on the weekly strip; threads are mail only
+  const threads = useMemo(() => buildThreads(interactions.filter(i => i.channel !== 'meeting')), [interactions]);
+  const meetingCount = interactions.filter(i => i.channel === 'meeting').length;
+
+  if (interactions.length === 0) {
+    return <div className="text-xs text-slate-500">No email history stored for this contact.</div>;
+  }
+
+  const dotClass = (interaction: EmailInteraction) =>
+    `block w-2 h-2 rounded-full cursor-pointer hover:ring-2 hover:ring-offset-1 ${
+      interaction.channel === 'meeting'
+        ? 'bg-violet-500 hover:ring-violet-300'
+        : interaction.direction === 'sent' ? 'bg-blue-500 hover:ring-blue-300' : 'bg-emerald-500 hover:ring-emerald-300'
+    } ${selectedId === interaction.id ? 'ring-2 ring-offset-1 ring-slate-700' : ''}`;
+
+  return (
+    <div className="space-y-2 text-xs">
+      <div className="overflow-x-auto pb-1">
+        <div className="flex items-center gap-px min-w-max h-16" title="One column per week; sent (or meetings we organized) above the line, received below">
+          {weeks.map(week => {
+            const sent = week.interactions.filter(i => i.direction === 'sent');
+            const received = week.interactions.filter(i => i.direction === 'received');
+            return (
+              <div key={week.start} className="w-2.5 h-full flex flex-col items-center" title={new Date(week.start).toLocaleDateString()}>
+                <div className="flex-1 flex flex-col-reverse items-center gap-px">
+                  {sent.slice(0, MAX_DOTS_PER_WEEK).map(i => (
+                    <button key={i.id} className={dotClass(i)} onClick={() => onSelect(i)} title={`${i.channel === 'meeting' ? 'Meeting' : 'Sent'} ${i.date.toLocaleDateString()}: ${i.subject}`} />
+                  ))}
+                </div>
+                <div className="w-full border-t border-slate-300" />
+                <div className="flex-1 flex flex-col items-center gap-px">
+                  {received.slice(0, MAX_DOTS_PER_WEEK).map(i => (
+                    <button key={i.id} className={dotClass(i)} onClick={() => onSelect(i)} title={`${i.channel === 'meeting' ? 'Meeting' : 'Received'} ${i.date.toLocaleDateString()}: ${i.subject}`} />
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+      <div className="flex gap-3 text-slate-500">
+        <span><span className="inline-block w-2 h-2 rounded-full bg-blue-500 mr-1" />Sent</span>
+        <span><span className="inline-block w-2 h-2 rounded-full bg-emerald-500 mr-1" />Received</span>
+        {meetingCount > 0 && (
+          <span><span className="inline-block w-2 h-2 rounded-full bg-violet-500 mr-1" />{meetingCount} meetings</span>
+        )}
+        <span>{threads.length} threads</span>
+      </div>
+
+      <div className="space-y-1.5 max-h-48 overflow-y-auto">
+        {threads.map(thread => (
+          <div key={thread.threadId} className="bg-white border border-slate-200 rounded p-1.5">
+            <div className="font-medium text-slate-700 truncate" title={thread.subject}>
+              {thread.subject} <span className="text-slate-400">({thread.items.length})</span>
+            </div>
+            <ul>
+              {thread.items.map(({ interaction, replyHours }) => (
+                <li key={interaction.id}>
+                  <button
+                    onClick={() => onSelect(interaction)}
+                    className={`w-full flex justify-between gap-2 px-1 rounded hover:bg-slate-100 ${selectedId === interaction.id ? 'bg-slate-100' : ''}`}
+                  >
+                    <span className={interaction.direction === 'sent' ? 'text-blue-700' : 'text-emerald-700'}>
+                      {interaction.direction === 'sent' ? '→ Sent' : '← Received'} {interaction.date.toLocaleDateString()}
+                      {!isDirectInteraction(interaction) && <span className="text-slate-400"> ({interaction.role})</span>}
+                    </span>
+                    {replyHours !== null && (
+                      <span className="text-slate-500">
+                        {interaction.direction === 'received' ? 'they replied' : 'you replied'} in {formatHours(replyHours)}
+                      </span>
+                    )}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
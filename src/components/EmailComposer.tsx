@@ -1,19 +1,30 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { EmailTemplateSelector } from './EmailTemplateSelector';
 import { EmailEditor } from './EmailEditor';
-import { graphService } from '../services/microsoftGraph';
+import { getMailProvider } from '../services/mailProvider';
 import { llmClient } from '../services/llmClient';
+import { getDraftMode } from '../utils/llmPrompt';
 import type { ContactWithAnalysis } from '../types/contact';
-import type { EmailTemplate } from '../types/email';
+import type { EmailDraft, EmailTemplate } from '../types/email';
+import type { ScheduleRequest } from '../hooks/useScheduledEmails';
+import { builtInTemplates } from '../data/emailTemplates';
+import { loadTemplates } from '../services/templateStore';
+import { getDraftsForContact, removeEmailDraft, upsertEmailDraft } from '../services/emailDrafts';
+import { getActiveMailbox } from '../services/mailboxes';
+import { canOpenOutlookCompose, openOutlookCompose } from '../services/officeHost';
+
+type SendMode = 'reply' | 'replyAll' | 'new';
 
 export function EmailComposer({
   contact,
   senderName,
   onClose,
+  onSchedule,
 }: {
   contact: ContactWithAnalysis;
   senderName: string;
   onClose: () => void;
+  onSchedule: (request: ScheduleRequest) => Promise<unknown>;
 }) {
   const [selectedTemplate, setSelectedTemplate] = useState<EmailTemplate | null>(null);
   const [showEditor, setShowEditor] = useState(false);
@@ -25,15 +36,85 @@ export function EmailComposer({
     bodyText: string;
   } | null>(null);
   const [lastEmailContext, setLastEmailContext] = useState<string | null>(null);
+  // Message the AI draft answers; Send can reply to it in its thread instead of starting a new one
+  const [replyTarget, setReplyTarget] = useState<{ messageId: string; subject: string } | null>(null);
+  const [sendMode, setSendMode] = useState<SendMode>('new');
+  // Saved draft being edited; saving updates it instead of creating another
+  const [openedDraft, setOpenedDraft] = useState<EmailDraft | null>(null);
+  const [savedDrafts, setSavedDrafts] = useState<EmailDraft[]>(() => getDraftsForContact(contact.id));
+  const [isOpeningDraft, setIsOpeningDraft] = useState(false);
+
+  useEffect(() => {
+    setSavedDrafts(getDraftsForContact(contact.id));
+  }, [contact.id]);
 
   const handleTemplateSelect = (template: EmailTemplate) => {
     setSelectedTemplate(template);
     setAiDraft(null);
+    setOpenedDraft(null);
+  };
+
+  /** The mailbox copy of a draft saved while another (shared) mailbox was active */
+  const draftMailboxElsewhere = (draft: EmailDraft): string | null => {
+    const mailboxId = draft.mailboxId ?? 'me';
+    if (!draft.remoteId || mailboxId === getActiveMailbox()) return null;
+    return mailboxId === 'me' ? 'your own mailbox' : mailboxId;
+  };
+
+  const handleOpenDraft = async (draft: EmailDraft) => {
+    const provider = getMailProvider();
+    const elsewhere = draftMailboxElsewhere(draft);
+    if (elsewhere) {
+      alert(`This draft is in the Drafts folder of ${elsewhere}. Switch to that mailbox to open it.`);
+      return;
+    }
+    let opened = draft;
+    if (draft.remoteId && provider.getDraft) {
+      // The draft may have been edited in Outlook since; its copy there wins
+      setIsOpeningDraft(true);
+      const remote = await provider.getDraft(draft.remoteId);
+      setIsOpeningDraft(false);
+      if (!remote) {
+        removeEmailDraft(draft.id);
+        setSavedDrafts(getDraftsForContact(contact.id));
+        alert('This draft is no longer in your Drafts folder; it was sent or deleted.');
+        return;
+      }
+      opened = { ...draft, subject: remote.subject, htmlBody: remote.html };
+    }
+    setSelectedTemplate(loadTemplates().find((t) => t.id === draft.templateId) ?? builtInTemplates[0]);
+    setAiDraft(null);
+    setOpenedDraft(opened);
+    setShowEditor(true);
+  };
+
+  const handleDeleteDraft = (draft: EmailDraft) => {
+    const elsewhere = draftMailboxElsewhere(draft);
+    if (elsewhere) {
+      alert(`This draft is in the Drafts folder of ${elsewhere}. Switch to that mailbox to delete it.`);
+      return;
+    }
+    if (!confirm(`Delete the draft "${draft.subject}"?`)) return;
+    removeEmailDraft(draft.id);
+    setSavedDrafts(getDraftsForContact(contact.id));
+    if (draft.remoteId) {
+      getMailProvider().deleteDraft?.(draft.remoteId).catch((error) => console.warn('Failed to delete the Outlook draft:', error));
+    }
+  };
+
+  /** The opened draft has been sent, scheduled or handed to Outlook; drop it here and in the mailbox */
+  const discardOpenedDraft = () => {
+    if (!openedDraft) return;
+    removeEmailDraft(openedDraft.id);
+    if (openedDraft.remoteId) {
+      getMailProvider().deleteDraft?.(openedDraft.remoteId).catch((error) => console.warn('Failed to delete the Outlook draft:', error));
+    }
   };
 
   const handleCreateDraft = () => {
     if (selectedTemplate) {
       setAiDraft(null);
+      setOpenedDraft(null);
       setShowEditor(true);
     }
   };
@@ -47,14 +128,14 @@ export function EmailComposer({
     setAiError(null);
 
     try {
-      const lastEmail = await graphService.getLastEmailWithContact(contact.email);
+      const lastEmail = await getMailProvider().getLastEmailWithContact(contact.email);
 
       if (!lastEmail) {
         setAiError('No previous email found for this contact.');
         return;
       }
 
-      const draft = await llmClient.generateDraft({
+      const draftParams = {
         lastEmailHtml: lastEmail.html,
         contactName: contact.name,
         senderName,
@@ -62,9 +143,17 @@ export function EmailComposer({
         daysSinceLastContact: contact.analysis.metrics.daysSinceLastContact,
         contactCategory: contact.category,
         totalEmailCount: contact.emailCount,
-      });
+        contactTitle: contact.profile?.title,
+        contactCompany: contact.profile?.companyName,
+        contactJobTitle: contact.profile?.jobTitle,
+      };
+      const draft = await llmClient.generateDraft(draftParams);
 
       setLastEmailContext(lastEmail.html);
+      const canReply = Boolean(lastEmail.id && getMailProvider().replyToEmail);
+      setReplyTarget(canReply && lastEmail.id ? { messageId: lastEmail.id, subject: lastEmail.subject } : null);
+      // Outreach drafts start a new conversation; replies and hybrids answer the last email
+      setSendMode(canReply && getDraftMode(draftParams) !== 'outreach' ? 'reply' : 'new');
       setAiDraft({
         subject: draft.subject,
         bodyHtml: draft.bodyHtml,
@@ -81,22 +170,56 @@ export function EmailComposer({
     }
   };
 
-  const handleSaveDraft = (_draft: { subject: string; body: string; htmlBody: string }) => {
+  const handleSaveDraft = async (email: { subject: string; body: string; htmlBody: string }) => {
+    const provider = getMailProvider();
+    const now = new Date();
+    const draft: EmailDraft = {
+      id: openedDraft?.id ?? `${contact.id}:${now.getTime()}`,
+      contactId: contact.id,
+      templateId: selectedTemplate?.id ?? '',
+      subject: email.subject,
+      body: email.body,
+      htmlBody: email.htmlBody,
+      status: 'draft',
+      createdAt: openedDraft?.createdAt ?? now,
+      updatedAt: now,
+      remoteId: openedDraft?.remoteId,
+      mailboxId: openedDraft?.mailboxId,
+    };
+    if (provider.saveDraft) {
+      try {
+        draft.remoteId = await provider.saveDraft(contact.email, email.subject, email.htmlBody, openedDraft?.remoteId);
+        draft.mailboxId = getActiveMailbox();
+      } catch (error) {
+        console.error('Failed to save draft to the mailbox:', error);
+        alert(`Saved in the app only; the ${provider.displayName} Drafts folder could not be updated: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+    upsertEmailDraft(draft);
+    setOpenedDraft(null);
     setShowEditor(false);
     setSelectedTemplate(null);
     setAiDraft(null);
     setLastEmailContext(null);
+    setReplyTarget(null);
     onClose();
   };
 
   const handleSendEmail = async (email: { subject: string; body: string; htmlBody: string }) => {
     try {
-      await graphService.sendEmail(contact.email, email.subject, email.htmlBody, true);
+      const provider = getMailProvider();
+      if (aiDraft && replyTarget && sendMode !== 'new' && provider.replyToEmail) {
+        await provider.replyToEmail(replyTarget.messageId, email.htmlBody, sendMode === 'replyAll');
+      } else {
+        await provider.sendEmail(contact.email, email.subject, email.htmlBody, true);
+      }
+      discardOpenedDraft();
       alert(`Email sent to ${contact.email}!\nSubject: ${email.subject}`);
       setShowEditor(false);
       setSelectedTemplate(null);
       setAiDraft(null);
       setLastEmailContext(null);
+      setReplyTarget(null);
       onClose();
     } catch (error) {
       console.error('Failed to send email:', error);
@@ -104,11 +227,45 @@ export function EmailComposer({
     }
   };
 
+  const handleScheduleEmail = async (email: { subject: string; htmlBody: string }, sendAt: Date, timeZone: string) => {
+    try {
+      await onSchedule({ to: contact.email, toName: contact.name, subject: email.subject, htmlBody: email.htmlBody, sendAt, timeZone });
+      discardOpenedDraft();
+      alert(`Email to ${contact.email} scheduled for ${sendAt.toLocaleString()}`);
+      setShowEditor(false);
+      setSelectedTemplate(null);
+      setAiDraft(null);
+      setLastEmailContext(null);
+      setReplyTarget(null);
+      onClose();
+    } catch (error) {
+      console.error('Failed to schedule email:', error);
+      alert(`Failed to schedule email: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleOpenInOutlook = (email: { subject: string; htmlBody: string }) => {
+    try {
+      openOutlookCompose({ to: contact.email, subject: email.subject, htmlBody: email.htmlBody });
+      discardOpenedDraft();
+      setShowEditor(false);
+      setSelectedTemplate(null);
+      setAiDraft(null);
+      setLastEmailContext(null);
+      setReplyTarget(null);
+      onClose();
+    } catch (error) {
+      console.error('Failed to open the Outlook compose window:', error);
+      alert('Could not open the message in Outlook');
+    }
+  };
+
   const handleCancel = () => {
     setShowEditor(false);
     setSelectedTemplate(null);
     setAiDraft(null);
     setLastEmailContext(null);
+    setReplyTarget(null);
     onClose();
   };
 
@@ -125,6 +282,9 @@ export function EmailComposer({
         daysSinceLastContact: contact.analysis.metrics.daysSinceLastContact,
         contactCategory: contact.category,
         totalEmailCount: contact.emailCount,
+        contactTitle: contact.profile?.title,
+        contactCompany: contact.profile?.companyName,
+        contactJobTitle: contact.profile?.jobTitle,
       });
       setAiDraft({
         subject: draft.subject,
@@ -144,6 +304,31 @@ export function EmailComposer({
 
   return (
     <div className="space-y-3">
+      {!showEditor && savedDrafts.length > 0 && (
+        <div className="glass-panel p-3">
+          <h3 className="text-sm font-semibold text-slate-800 mb-2">Saved Drafts ({savedDrafts.length})</h3>
+          <div className="space-y-1.5">
+            {savedDrafts.map((draft) => (
+              <div key={draft.id} className="flex items-center gap-2 p-2 bg-slate-50 rounded-lg border border-slate-200 text-xs">
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-slate-800 truncate">{draft.subject || '(no subject)'}</p>
+                  <p className="text-slate-500">
+                    {(draft.updatedAt ?? draft.createdAt).toLocaleString()}
+                    {draft.remoteId ? ` · in ${getMailProvider().displayName} Drafts` : ''}
+                  </p>
+                </div>
+                <button className="btn-secondary" disabled={isOpeningDraft} onClick={() => handleOpenDraft(draft)}>
+                  Open
+                </button>
+                <button className="btn-ghost" onClick={() => handleDeleteDraft(draft)} title="Delete draft">
+                  ×
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {!showEditor && (
         <EmailTemplateSelector
           key={contact.id}
@@ -174,18 +359,36 @@ export function EmailComposer({
         <p className="mt-2 text-center text-xs text-red-600">{aiError}</p>
       )}
 
+      {showEditor && selectedTemplate && aiDraft && replyTarget && (
+        <div className="glass-panel p-2 flex flex-wrap items-center gap-2 text-xs">
+          <span className="text-slate-600">Send as</span>
+          {([['reply', 'Reply'], ['replyAll', 'Reply all'], ['new', 'New email']] as const).map(([mode, label]) => (
+            <label key={mode} className="flex items-center gap-1 text-slate-700">
+              <input type="radio" name="send-mode" checked={sendMode === mode} onChange={() => setSendMode(mode)} />
+              {label}
+            </label>
+          ))}
+          <span className="text-slate-500 truncate" title={replyTarget.subject}>
+            {sendMode === 'new'
+              ? 'Starts a new conversation with the subject below'
+              : `Answers "${replyTarget.subject}" in its thread, quoted below; the subject field is not used`}
+          </span>
+        </div>
+      )}
+
       {showEditor && selectedTemplate && (
         <EmailEditor
           template={selectedTemplate}
-          contactName={contact.name}
-          contactEmail={contact.email}
+          contact={contact}
           senderName={senderName}
-          initialSubject={aiDraft?.subject ?? undefined}
-          initialBodyText={aiDraft?.bodyText ?? undefined}
-          initialHtmlBody={aiDraft?.bodyHtml ?? undefined}
-          enableTemplateAutoUpdate={!aiDraft}
+          initialSubject={aiDraft?.subject ?? openedDraft?.subject ?? undefined}
+          initialBodyText={aiDraft?.bodyText ?? openedDraft?.body ?? undefined}
+          initialHtmlBody={aiDraft?.bodyHtml ?? openedDraft?.htmlBody ?? openedDraft?.body ?? undefined}
+          enableTemplateAutoUpdate={!aiDraft && !openedDraft}
           onSave={handleSaveDraft}
           onSend={(e) => handleSendEmail(e)}
+          onSchedule={handleScheduleEmail}
+          onOpenInOutlook={canOpenOutlookCompose() ? handleOpenInOutlook : undefined}
           onCancel={handleCancel}
           onRegenerate={aiDraft ? handleRegenerate : undefined}
           isRegenerating={isGeneratingWithAi}
@@ -1,12 +1,20 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useMemo } from 'react';
 import ReactQuill from 'react-quill';
+import type { ContactWithAnalysis } from '../types/contact';
 import type { EmailTemplate } from '../types/email';
-import { processTemplate } from '../data/emailTemplates';
+import {
+  buildTemplateContext,
+  findUnresolvedPlaceholders,
+  getTemplateVariables,
+  renderTemplate,
+  validateTemplate,
+} from '../utils/templateEngine';
+import { SendTimePicker, type SendTime } from './SendTimePicker';
+import { dateToZonedTime, getLocalTimeZone, zonedTimeToDate } from '../utils/timeZone';
 
 interface EmailEditorProps {
   template: EmailTemplate;
-  contactName: string;
-  contactEmail: string;
+  contact: ContactWithAnalysis;
   senderName: string;
   initialSubject?: string;
   initialBodyText?: string;
@@ -14,6 +22,10 @@ interface EmailEditorProps {
   enableTemplateAutoUpdate?: boolean;
   onSave: (draft: { subject: string; body: string; htmlBody: string }) => void;
   onSend: (email: { subject: string; body: string; htmlBody: string; to: string }) => void;
+  /** Offers "Send Later" when given */
+  onSchedule?: (email: { subject: string; body: string; htmlBody: string; to: string }, sendAt: Date, timeZone: string) => void | Promise<void>;
+  /** Continues the message in Outlook's own compose window (add-in only) */
+  onOpenInOutlook?: (email: { subject: string; htmlBody: string; to: string }) => void;
   onCancel: () => void;
   onRegenerate?: () => void | Promise<void>;
   isRegenerating?: boolean;
@@ -21,8 +33,7 @@ interface EmailEditorProps {
 
 export function EmailEditor({
   template,
-  contactName,
-  contactEmail,
+  contact,
   senderName,
   initialSubject,
   initialBodyText,
@@ -30,21 +41,21 @@ export function EmailEditor({
   enableTemplateAutoUpdate = true,
   onSave,
   onSend,
+  onSchedule,
+  onOpenInOutlook,
   onCancel,
   onRegenerate,
   isRegenerating = false,
 }: EmailEditorProps) {
-  const [variables, setVariables] = useState({
-    name: contactName,
-    senderName: senderName,
-    company: 'Your Company',
-    industry: 'Your Industry'
-  });
+  // Values typed into the variable fields; they take precedence over the contact's own data
+  const [overrides, setOverrides] = useState<Record<string, string>>({});
 
   const [subject, setSubject] = useState(initialSubject ?? template.subject);
   const [body, setBody] = useState(initialBodyText ?? template.body);
   const [htmlBody, setHtmlBody] = useState(initialHtmlBody ?? template.body);
   const quillRef = useRef<ReactQuill>(null);
+  const [sendTime, setSendTime] = useState<SendTime | null>(null);
+  const [isScheduling, setIsScheduling] = useState(false);
 
   // Quill editor configuration
   const quillModules = {
@@ -63,19 +74,22 @@ export function EmailEditor({
     'color', 'background', 'list', 'bullet', 'link', 'blockquote'
   ];
 
+  const contactContext = useMemo(() => buildTemplateContext(contact, senderName), [contact, senderName]);
+  const context = useMemo(() => buildTemplateContext(contact, senderName, overrides), [contact, senderName, overrides]);
+  const templateText = `${template.subject}\n${template.body}`;
+  const templateVariables = enableTemplateAutoUpdate ? getTemplateVariables(templateText) : [];
+  const issues = enableTemplateAutoUpdate ? validateTemplate(templateText, context) : [];
+
   // Update email content when variables change (template-based drafts only)
   React.useEffect(() => {
     if (!enableTemplateAutoUpdate) {
       return;
     }
-    const processed = processTemplate(
-      { ...template, subject: template.subject, body: template.body },
-      variables
-    );
-    setSubject(processed.subject);
-    setBody(processed.body);
-    setHtmlBody(processed.body);
-  }, [variables, template, enableTemplateAutoUpdate]);
+    const renderedBody = renderTemplate(template.body, context);
+    setSubject(renderTemplate(template.subject, context));
+    setBody(renderedBody);
+    setHtmlBody(renderedBody);
+  }, [context, template, enableTemplateAutoUpdate]);
 
   // Sync editor when parent updates draft (e.g. after regenerate) - AI drafts only
   React.useEffect(() => {
@@ -87,7 +101,15 @@ export function EmailEditor({
   }, [initialSubject, initialBodyText, initialHtmlBody, enableTemplateAutoUpdate]);
 
   const handleVariableChange = (key: string, value: string) => {
-    setVariables(prev => ({ ...prev, [key]: value }));
+    setOverrides(prev => ({ ...prev, [key]: value }));
+  };
+
+  /** Blocks sending while the subject or message still contains a template tag */
+  const confirmNoPlaceholders = () => {
+    const unresolved = findUnresolvedPlaceholders(`${subject}\n${htmlBody}`);
+    if (unresolved.length === 0) return true;
+    alert(`This email still contains ${unresolved.join(', ')}. Fill in the value or remove the placeholder before sending.`);
+    return false;
   };
 
   const handleBodyChange = (content: string, _delta: unknown, _source: string, editor: { getText: () => string }) => {
@@ -100,7 +122,28 @@ export function EmailEditor({
   };
 
   const handleSend = () => {
-    onSend({ subject, body, htmlBody, to: contactEmail });
+    if (!confirmNoPlaceholders()) return;
+    onSend({ subject, body, htmlBody, to: contact.email });
+  };
+
+  const openSendLater = () => {
+    // Default: tomorrow 09:00 in the local zone
+    const timeZone = getLocalTimeZone();
+    const tomorrow = new Date();
+    tomorrow.setDate(tomorrow.getDate() + 1);
+    setSendTime({ wallClock: `${dateToZonedTime(tomorrow, timeZone).slice(0, 10)}T09:00`, timeZone });
+  };
+
+  const sendAt = sendTime?.wallClock ? zonedTimeToDate(sendTime.wallClock, sendTime.timeZone) : null;
+
+  const handleSchedule = async () => {
+    if (!onSchedule || !sendTime || !sendAt || !confirmNoPlaceholders()) return;
+    setIsScheduling(true);
+    try {
+      await onSchedule({ subject, body, htmlBody, to: contact.email }, sendAt, sendTime.timeZone);
+    } finally {
+      setIsScheduling(false);
+    }
   };
 
   return (
@@ -126,6 +169,20 @@ export function EmailEditor({
           >
             Send Email
           </button>
+          {onOpenInOutlook && (
+            <button
+              onClick={() => onOpenInOutlook({ subject, htmlBody, to: contact.email })}
+              className="btn-secondary"
+              title="Finish this message in Outlook, with your signature"
+            >
+              Open in Outlook
+            </button>
+          )}
+          {onSchedule && !sendTime && (
+            <button onClick={openSendLater} className="btn-secondary">
+              Send Later…
+            </button>
+          )}
           {onRegenerate && (
             <button
               onClick={() => onRegenerate()}
@@ -146,34 +203,68 @@ export function EmailEditor({
         </div>
       </div>
 
+      {sendTime && (
+        <div className="mb-4 p-3 bg-slate-50 border border-slate-200 rounded-lg space-y-2">
+          <p className="text-xs font-medium text-slate-700">Send later</p>
+          <SendTimePicker value={sendTime} onChange={setSendTime} />
+          {sendAt && (
+            <p className={`text-xs ${sendAt.getTime() <= Date.now() ? 'text-rose-600' : 'text-slate-500'}`}>
+              {sendAt.getTime() <= Date.now() ? 'This time has passed.' : `Your time: ${sendAt.toLocaleString()}`}
+            </p>
+          )}
+          <div className="flex gap-2">
+            <button onClick={() => setSendTime(null)} className="btn-ghost">Cancel</button>
+            <button
+              onClick={handleSchedule}
+              disabled={!sendAt || sendAt.getTime() <= Date.now() || isScheduling}
+              className="btn-primary disabled:opacity-50"
+            >
+              {isScheduling ? 'Scheduling…' : 'Schedule'}
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Recipient Info */}
       <div className="mb-4 p-3 bg-slate-50 border border-slate-200 rounded-lg">
         <div className="flex items-center">
           <div>
-            <p className="text-xs font-medium text-slate-700">To: {contactName}</p>
-            <p className="text-xs text-slate-500">{contactEmail}</p>
+            <p className="text-xs font-medium text-slate-700">To: {contact.name}</p>
+            <p className="text-xs text-slate-500">{contact.email}</p>
           </div>
         </div>
       </div>
 
       {/* Variable inputs */}
       <div className="grid grid-cols-1 gap-2 mb-4">
-        {template.variables.map((variable) => (
-          <div key={variable}>
-            <label className="block text-xs font-medium text-slate-600 mb-1">
-              {variable.charAt(0).toUpperCase() + variable.slice(1)}
-            </label>
-            <input
-              type="text"
-              value={variables[variable as keyof typeof variables]}
-              onChange={(e) => handleVariableChange(variable, e.target.value)}
-              className="input-glass text-xs px-2 py-1"
-              placeholder={`Enter ${variable}`}
-            />
-          </div>
-        ))}
+        {templateVariables.map((variable) => {
+          const contactValue = renderTemplate(`{{${variable}}}`, contactContext);
+          const hasIssue = issues.some((issue) => issue.variable === variable);
+          return (
+            <div key={variable}>
+              <label className={`block text-xs font-medium mb-1 ${hasIssue ? 'text-amber-700' : 'text-slate-600'}`}>
+                {variable.charAt(0).toUpperCase() + variable.slice(1)}
+              </label>
+              <input
+                type="text"
+                value={overrides[variable] ?? ''}
+                onChange={(e) => handleVariableChange(variable, e.target.value)}
+                className={`input-glass text-xs px-2 py-1 ${hasIssue ? 'border-amber-400' : ''}`}
+                placeholder={findUnresolvedPlaceholders(contactValue).length === 0 ? contactValue : `Enter ${variable}`}
+              />
+            </div>
+          );
+        })}
       </div>
 
+      {issues.length > 0 && (
+        <div className="mb-4 p-2 bg-amber-50 border border-amber-200 rounded-lg space-y-0.5">
+          {issues.map((issue) => (
+            <p key={issue.message} className="text-xs text-amber-800">{issue.message}</p>
+          ))}
+        </div>
+      )}
+
       {/* Subject */}
       <div className="mb-3">
         <label className="block text-xs font-medium text-slate-600 mb-1">
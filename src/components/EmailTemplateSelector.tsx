@@ -1,8 +1,9 @@
 import { useState, useEffect } from 'react';
 import type { EmailTemplate } from '../types/email';
 import type { ContactCategory } from '../types/contact';
-import { emailTemplates } from '../data/emailTemplates';
+import { getTemplatesForCategory } from '../services/templateStore';
 import { getCategoryLabel } from '../utils/contactCategory';
+import { TemplateManager } from './TemplateManager';
 
 interface EmailTemplateSelectorProps {
   selectedCategory: ContactCategory;
@@ -11,17 +12,18 @@ interface EmailTemplateSelectorProps {
 
 export function EmailTemplateSelector({ selectedCategory, onTemplateSelect }: EmailTemplateSelectorProps) {
   const [selectedTemplate, setSelectedTemplate] = useState<string>('');
+  const [categoryTemplates, setCategoryTemplates] = useState<EmailTemplate[]>(() => getTemplatesForCategory(selectedCategory));
+  const [showManager, setShowManager] = useState(false);
 
   // Reset selection when category changes
   useEffect(() => {
     setSelectedTemplate('');
+    setCategoryTemplates(getTemplatesForCategory(selectedCategory));
   }, [selectedCategory]);
 
-  const categoryTemplates = emailTemplates.filter(template => template.category === selectedCategory);
-
   const handleTemplateChange = (templateId: string) => {
     setSelectedTemplate(templateId);
-    const template = emailTemplates.find(t => t.id === templateId);
+    const template = categoryTemplates.find(t => t.id === templateId);
     if (template) {
       onTemplateSelect(template);
     }
@@ -29,9 +31,14 @@ export function EmailTemplateSelector({ selectedCategory, onTemplateSelect }: Em
 
   return (
     <div className="glass-panel p-3">
-      <h3 className="text-sm font-semibold text-slate-800 mb-3">
-        Templates - {getCategoryLabel(selectedCategory)}
-      </h3>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-slate-800">
+          Templates - {getCategoryLabel(selectedCategory)}
+        </h3>
+        <button onClick={() => setShowManager(true)} className="btn-ghost" title="Create, edit, import and export templates">
+          Manage
+        </button>
+      </div>
       
       {categoryTemplates.length === 0 ? (
         <p className="text-xs text-slate-500">No templates for {selectedCategory}</p>
@@ -49,7 +56,10 @@ export function EmailTemplateSelector({ selectedCategory, onTemplateSelect }: Em
             >
               <div className="flex items-center justify-between">
                 <div className="flex-1 min-w-0">
-                  <h4 className="text-sm font-medium text-slate-800 truncate">{template.name}</h4>
+                  <h4 className="text-sm font-medium text-slate-800 truncate">
+                    {template.name}
+                    {template.isDefault && <span className="ml-1.5 px-1.5 py-0.5 text-xs font-normal rounded bg-blue-50 text-blue-700">Default</span>}
+                  </h4>
                   <p className="text-xs text-slate-500 truncate">{template.subject}</p>
                 </div>
                 <input
@@ -71,6 +81,14 @@ export function EmailTemplateSelector({ selectedCategory, onTemplateSelect }: Em
           </p>
         </div>
       )}
+
+      {showManager && (
+        <TemplateManager
+          initialCategory={selectedCategory}
+          onClose={() => setShowManager(false)}
+          onChanged={() => setCategoryTemplates(getTemplatesForCategory(selectedCategory))}
+        />
+      )}
     </div>
   );
 }
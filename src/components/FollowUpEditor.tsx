@@ -0,0 +1,105 @@
+import { useState } from 'react';
+import { todayKey } from '../services/followUps';
+import type { FollowUpPriority, FollowUpTask } from '../types/contact';
+
+const PRIORITY_CLASSES: Record<FollowUpPriority, string> = {
+  high: 'bg-rose-100 text-rose-800',
+  normal: 'bg-slate-100 text-slate-700',
+  low: 'bg-slate-50 text-slate-500',
+};
+
+const inDays = (days: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  return todayKey(date);
+};
+
+/**
+ * A contact's follow-up tasks, with a form to add one
+ */
+export function FollowUpEditor({
+  tasks,
+  mirrorToTodo,
+  onAdd,
+  onComplete,
+  onRemove,
+  onMirrorToTodoChange,
+}: {
+  tasks: FollowUpTask[];
+  /** Undefined when the provider has no task list to mirror to */
+  mirrorToTodo?: boolean;
+  onAdd: (dueDate: string, note: string, priority: FollowUpPriority) => void;
+  onComplete: (task: FollowUpTask) => void;
+  onRemove: (task: FollowUpTask) => void;
+  onMirrorToTodoChange: (mirror: boolean) => void;
+}) {
+  const [dueDate, setDueDate] = useState(() => inDays(7));
+  const [note, setNote] = useState('');
+  const [priority, setPriority] = useState<FollowUpPriority>('normal');
+  const today = todayKey();
+  const open = tasks.filter((task) => !task.doneAt).sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+  const done = tasks.filter((task) => task.doneAt);
+
+  const handleAdd = () => {
+    onAdd(dueDate, note.trim(), priority);
+    setNote('');
+  };
+
+  return (
+    <div className="space-y-1 text-xs">
+      {open.map((task) => (
+        <div key={task.id} className="flex items-center gap-2 bg-white border border-slate-200 rounded px-2 py-1">
+          <span className={task.dueDate < today ? 'text-rose-600 font-medium' : task.dueDate === today ? 'text-amber-700 font-medium' : 'text-slate-600'}>
+            {new Date(`${task.dueDate}T00:00:00`).toLocaleDateString()}
+          </span>
+          <span className={`px-1.5 rounded ${PRIORITY_CLASSES[task.priority]}`}>{task.priority}</span>
+          <span className="truncate flex-1 text-slate-700" title={task.note}>{task.note}</span>
+          {task.todoTaskId && <span className="text-slate-400" title="Mirrored to Microsoft To Do">To Do</span>}
+          <button className="text-blue-600 hover:text-blue-800" onClick={() => onComplete(task)}>Done</button>
+          <button className="text-slate-400 hover:text-rose-600" onClick={() => onRemove(task)} title="Delete task">×</button>
+        </div>
+      ))}
+      {done.length > 0 && (
+        <div className="text-slate-500">
+          {done.length} done, last {new Date(done[done.length - 1].doneAt!).toLocaleDateString()}
+          {done[done.length - 1].doneReason === 'mail_sent' ? ' (mail sent)' : ''}
+        </div>
+      )}
+      <div className="flex flex-wrap items-center gap-1 pt-1">
+        <input
+          type="date"
+          className="border border-slate-300 rounded px-1.5 py-0.5 bg-white"
+          value={dueDate}
+          min={today}
+          onChange={(e) => setDueDate(e.target.value)}
+        />
+        <select
+          className="border border-slate-300 rounded px-1.5 py-0.5 bg-white"
+          value={priority}
+          onChange={(e) => setPriority(e.target.value as FollowUpPriority)}
+        >
+          <option value="high">High</option>
+          <option value="normal">Normal</option>
+          <option value="low">Low</option>
+        </select>
+        <input
+          className="border border-slate-300 rounded px-1.5 py-0.5 bg-white flex-1 min-w-0"
+          placeholder="Note, e.g. ask about the renewal"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && dueDate && handleAdd()}
+        />
+        <button className="btn-secondary" disabled={!dueDate} onClick={handleAdd}>Add</button>
+      </div>
+      <div className="text-slate-500">
+        A task is marked done once mail goes to the contact or a merged address from a mailbox in the current analysis; mail sent from other mailboxes does not count.
+      </div>
+      {mirrorToTodo !== undefined && (
+        <label className="flex items-center gap-1 text-slate-600">
+          <input type="checkbox" checked={mirrorToTodo} onChange={(e) => onMirrorToTodoChange(e.target.checked)} />
+          Also add new follow-ups to Microsoft To Do
+        </label>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+import { useState } from 'react';
+import type { IdentityDecisions, MergeSuggestion } from '../types/contact';
+import { loadIdentityDecisions, saveIdentityDecisions } from '../services/identityResolution';
+
+type Choice = 'merge' | 'swap' | 'dismiss' | 'later';
+
+export function IdentityReview({
+  suggestions,
+  onClose,
+  onSaved,
+}: {
+  suggestions: MergeSuggestion[];
+  onClose: () => void;
+  onSaved: (decisions: IdentityDecisions) => void;
+}) {
+  const [decisions] = useState<IdentityDecisions>(() => loadIdentityDecisions());
+  const [choices, setChoices] = useState<Record<string, Choice>>({});
+  const [unmerged, setUnmerged] = useState<Set<string>>(new Set());
+
+  const existingMerges = Object.entries(decisions.merges).filter(([alias]) => !unmerged.has(alias));
+  const hasChanges = unmerged.size > 0 || Object.values(choices).some((choice) => choice !== 'later');
+
+  const handleSave = () => {
+    const next: IdentityDecisions = {
+      version: 1,
+      merges: Object.fromEntries(existingMerges),
+      dismissed: [...decisions.dismissed],
+    };
+    suggestions.forEach((suggestion) => {
+      const choice = choices[suggestion.key] ?? 'later';
+      if (choice === 'merge') next.merges[suggestion.alias.email] = suggestion.primary.email;
+      if (choice === 'swap') next.merges[suggestion.primary.email] = suggestion.alias.email;
+      if (choice === 'dismiss') next.dismissed.push(suggestion.key);
+    });
+    saveIdentityDecisions(next);
+    onSaved(next);
+    onClose();
+  };
+
+  const choiceButton = (key: string, choice: Choice, label: string, active: string) => (
+    <button
+      onClick={() => setChoices((prev) => ({ ...prev, [key]: choice }))}
+      className={`px-2 py-0.5 rounded border text-xs ${
+        (choices[key] ?? 'later') === choice ? active : 'border-slate-300 text-slate-600 hover:bg-slate-100'
+      }`}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center z-50 p-2">
+      <div className="glass-panel w-full max-w-lg max-h-[95vh] overflow-hidden flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-slate-200 bg-slate-50">
+          <div>
+            <h3 className="text-lg font-semibold text-slate-800">Review Identities</h3>
+            <p className="text-xs text-slate-600">Addresses that may belong to the same person. Merged histories are analyzed as one contact.</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-slate-500 hover:text-slate-700 text-xl font-light hover:bg-slate-200 rounded-full w-6 h-6 flex items-center justify-center transition-colors ml-2 flex-shrink-0"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-3 space-y-2 text-xs">
+          {suggestions.length === 0 && (
+            <div className="text-slate-500">No new merge suggestions. Run an analysis to look for more.</div>
+          )}
+          {suggestions.map((suggestion) => (
+            <div key={suggestion.key} className="bg-white border border-slate-200 rounded p-2 space-y-1.5">
+              <div className="grid grid-cols-2 gap-2">
+                <div className="min-w-0">
+                  <div className="font-medium text-slate-800 truncate">{suggestion.primary.name}</div>
+                  <div className="text-slate-500 truncate">{suggestion.primary.email}</div>
+                </div>
+                <div className="min-w-0">
+                  <div className="font-medium text-slate-800 truncate">{suggestion.alias.name}</div>
+                  <div className="text-slate-500 truncate">{suggestion.alias.email}</div>
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {suggestion.reasons.map((reason) => (
+                  <span key={reason} className="px-1.5 py-0.5 rounded bg-slate-100 text-slate-600">{reason}</span>
+                ))}
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {choiceButton(suggestion.key, 'merge', 'Merge into left', 'border-emerald-300 bg-emerald-50 text-emerald-800')}
+                {choiceButton(suggestion.key, 'swap', 'Merge into right', 'border-emerald-300 bg-emerald-50 text-emerald-800')}
+                {choiceButton(suggestion.key, 'dismiss', 'Different people', 'border-rose-300 bg-rose-50 text-rose-700')}
+                {choiceButton(suggestion.key, 'later', 'Decide later', 'border-slate-400 bg-slate-100 text-slate-700')}
+              </div>
+            </div>
+          ))}
+
+          {existingMerges.length > 0 && (
+            <div className="bg-white border border-slate-200 rounded p-2 space-y-1">
+              <div className="font-semibold text-slate-700">Merged addresses</div>
+              {existingMerges.map(([alias, primary]) => (
+                <div key={alias} className="flex items-center justify-between gap-2">
+                  <span className="truncate text-slate-600">{alias} → {primary}</span>
+                  <button
+                    className="text-rose-600 hover:text-rose-800 flex-shrink-0"
+                    onClick={() => setUnmerged((prev) => new Set(prev).add(alias))}
+                  >
+                    Unmerge
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-2 p-3 border-t border-slate-200 bg-slate-50">
+          <button
+            onClick={onClose}
+            className="flex-1 px-3 py-2 text-xs text-slate-700 hover:text-slate-900 transition-colors border border-slate-300 rounded-lg hover:bg-slate-200"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!hasChanges}
+            className="flex-1 px-3 py-2 text-xs bg-blue-600 text-white rounded-lg hover:bg-blue-500 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Save &amp; Re-analyze
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -3,11 +3,14 @@ import type { ReactNode } from 'react';
 export function LayoutShell({
   title,
   subtitle,
+  switcher,
   right,
   children,
 }: {
   title: string;
   subtitle?: ReactNode;
+  /** Mailbox switcher shown next to the title */
+  switcher?: ReactNode;
   right?: ReactNode;
   children: ReactNode;
 }) {
@@ -15,9 +18,12 @@ export function LayoutShell({
     <div className="app-surface min-h-screen px-3 py-3">
       <div className="glass-panel px-3 py-3">
         <div className="flex items-center justify-between gap-3">
-          <div>
-            <h1 className="text-lg font-semibold text-slate-800 tracking-tight">{title}</h1>
-            {subtitle && <div className="text-xs text-slate-500">{subtitle}</div>}
+          <div className="flex items-center gap-3 min-w-0">
+            <div>
+              <h1 className="text-lg font-semibold text-slate-800 tracking-tight">{title}</h1>
+              {subtitle && <div className="text-xs text-slate-500">{subtitle}</div>}
+            </div>
+            {switcher}
           </div>
           <div className="flex items-center gap-2">{right}</div>
         </div>
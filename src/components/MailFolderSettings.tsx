@@ -0,0 +1,126 @@
+import { useEffect, useState } from 'react';
+import { getMailProvider, type MailFolderInfo, type MailFolderSelection } from '../services/mailProvider';
+import { DEFAULT_MAIL_FOLDERS } from '../services/mailFolderSelection';
+
+type Direction = MailFolderSelection['direction'] | 'none';
+
+const folderKey = (folder: MailFolderInfo) => folder.wellKnownName ?? folder.id;
+
+/**
+ * Picks which mail folders (including child folders) count as received and as sent mail
+ */
+export function MailFolderSettings({
+  onClose,
+  onSaved,
+}: {
+  onClose: () => void;
+  onSaved: () => void;
+}) {
+  const provider = getMailProvider();
+  const [folders, setFolders] = useState<MailFolderInfo[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [directions, setDirections] = useState<Record<string, Direction>>(() =>
+    Object.fromEntries((provider.getMailFolderSelection?.() ?? DEFAULT_MAIL_FOLDERS).map((s) => [s.folder, s.direction]))
+  );
+
+  useEffect(() => {
+    if (!provider.listMailFolders) return;
+    provider.listMailFolders()
+      .then(setFolders)
+      .catch((err) => {
+        console.error('Failed to load mail folders:', err);
+        setError('Could not load mail folders.');
+      });
+  }, [provider]);
+
+  const selection: MailFolderSelection[] = (folders ?? [])
+    .filter((folder) => (directions[folderKey(folder)] ?? 'none') !== 'none')
+    .map((folder) => ({
+      folder: folderKey(folder),
+      direction: directions[folderKey(folder)] as MailFolderSelection['direction'],
+      displayName: folder.path,
+    }));
+  const canSave = selection.some((s) => s.direction === 'received') && selection.some((s) => s.direction === 'sent');
+
+  const handleSave = async () => {
+    if (!provider.setMailFolderSelection) return;
+    setIsSaving(true);
+    try {
+      await provider.setMailFolderSelection(selection);
+      onSaved();
+      onClose();
+    } catch (err) {
+      console.error('Failed to save mail folder selection:', err);
+      alert('Failed to save mail folder selection');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center z-50 p-2">
+      <div className="glass-panel w-full max-w-lg max-h-[95vh] overflow-hidden flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-slate-200 bg-slate-50">
+          <div>
+            <h3 className="text-lg font-semibold text-slate-800">Mail Folders</h3>
+            <p className="text-xs text-slate-600">Choose which folders count as received and sent mail. Changing them refetches the mailbox.</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-slate-500 hover:text-slate-700 text-xl font-light hover:bg-slate-200 rounded-full w-6 h-6 flex items-center justify-center transition-colors ml-2 flex-shrink-0"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-3 space-y-1 text-xs">
+          {!provider.listMailFolders && (
+            <div className="text-slate-500">{provider.displayName} does not support folder selection.</div>
+          )}
+          {error && <div className="text-rose-600">{error}</div>}
+          {provider.listMailFolders && !folders && !error && <div className="text-slate-500">Loading folders...</div>}
+          {folders?.map((folder) => {
+            const depth = folder.path.split(' / ').length - 1;
+            return (
+              <div key={folder.id} className="flex items-center gap-2 bg-white border border-slate-200 rounded px-2 py-1">
+                <span className="truncate text-slate-700" style={{ paddingLeft: depth * 12 }} title={folder.path}>
+                  {folder.displayName}
+                </span>
+                <span className="text-slate-400 flex-shrink-0">{folder.totalItemCount}</span>
+                <select
+                  className="ml-auto border border-slate-300 rounded px-1.5 py-0.5 text-xs bg-white"
+                  value={directions[folderKey(folder)] ?? 'none'}
+                  onChange={(e) => setDirections((prev) => ({ ...prev, [folderKey(folder)]: e.target.value as Direction }))}
+                >
+                  <option value="none">Not analyzed</option>
+                  <option value="received">Received</option>
+                  <option value="sent">Sent</option>
+                </select>
+              </div>
+            );
+          })}
+          {folders && !canSave && (
+            <div className="text-amber-700">Select at least one received and one sent folder.</div>
+          )}
+        </div>
+
+        <div className="flex gap-2 p-3 border-t border-slate-200 bg-slate-50">
+          <button
+            onClick={onClose}
+            className="flex-1 px-3 py-2 text-xs text-slate-700 hover:text-slate-900 transition-colors border border-slate-300 rounded-lg hover:bg-slate-200"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!folders || !canSave || isSaving}
+            className="flex-1 px-3 py-2 text-xs bg-blue-600 text-white rounded-lg hover:bg-blue-500 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSaving ? 'Saving...' : 'Save & Re-analyze'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import { useState } from 'react';
+import type { MailboxInfo } from '../services/mailProvider';
+
+const TEAM_VIEW = '__team';
+
+/**
+ * Picks the analyzed mailbox (own, shared or delegated) or the merged team view
+ */
+export function MailboxSwitcher({
+  mailboxes,
+  activeMailbox,
+  isTeamView,
+  disabled,
+  onSelect,
+  onSelectTeamView,
+  onAdd,
+  onRemove,
+}: {
+  mailboxes: MailboxInfo[];
+  activeMailbox: string;
+  isTeamView: boolean;
+  disabled?: boolean;
+  onSelect: (mailboxId: string) => void;
+  onSelectTeamView: () => void;
+  onAdd: (address: string) => Promise<void>;
+  onRemove: (mailboxId: string) => void;
+}) {
+  const [isAdding, setIsAdding] = useState(false);
+  const [address, setAddress] = useState('');
+  const [isChecking, setIsChecking] = useState(false);
+
+  const handleAdd = async () => {
+    if (!address.includes('@')) return;
+    setIsChecking(true);
+    try {
+      await onAdd(address);
+      setAddress('');
+      setIsAdding(false);
+    } catch (error) {
+      console.error('Failed to add mailbox:', error);
+      alert(`Cannot open ${address}. You need full access or delegate permissions on the mailbox.`);
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-1 text-xs">
+      <select
+        className="border border-slate-300 rounded px-1.5 py-0.5 bg-white text-slate-700"
+        value={isTeamView ? TEAM_VIEW : activeMailbox}
+        disabled={disabled}
+        onChange={(e) => (e.target.value === TEAM_VIEW ? onSelectTeamView() : onSelect(e.target.value))}
+        title="Mailbox to analyze"
+      >
+        {mailboxes.map((mailbox) => (
+          <option key={mailbox.id} value={mailbox.id}>
+            {mailbox.displayName}{mailbox.address && mailbox.address !== mailbox.displayName ? ` (${mailbox.address})` : ''}
+          </option>
+        ))}
+        {mailboxes.length > 1 && <option value={TEAM_VIEW}>All mailboxes (team view)</option>}
+      </select>
+      {!isTeamView && activeMailbox !== 'me' && (
+        <button
+          className="btn-ghost"
+          disabled={disabled}
+          onClick={() => confirm(`Remove ${activeMailbox} from the mailbox list?`) && onRemove(activeMailbox)}
+          title="Remove this mailbox"
+        >
+          ×
+        </button>
+      )}
+      {isAdding ? (
+        <>
+          <input
+            type="email"
+            className="border border-slate-300 rounded px-1.5 py-0.5 bg-white w-44"
+            placeholder="sales@example.com"
+            value={address}
+            autoFocus
+            onChange={(e) => setAddress(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+          />
+          <button className="btn-secondary" disabled={isChecking || !address.includes('@')} onClick={handleAdd}>
+            {isChecking ? 'Checking...' : 'Add'}
+          </button>
+          <button className="btn-ghost" onClick={() => setIsAdding(false)}>Cancel</button>
+        </>
+      ) : (
+        <button className="btn-ghost" disabled={disabled} onClick={() => setIsAdding(true)} title="Add a shared or delegated mailbox">
+          + Mailbox
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+import { useState } from 'react';
+import { SendTimePicker, type SendTime } from './SendTimePicker';
+import { dateToZonedTime, zonedTimeToDate } from '../utils/timeZone';
+import type { ScheduledEmail } from '../types';
+
+const STATUS_CLASSES: Record<ScheduledEmail['status'], string> = {
+  scheduled: 'bg-blue-50 text-blue-700',
+  overdue: 'bg-amber-50 text-amber-700',
+  sent: 'bg-emerald-50 text-emerald-700',
+  failed: 'bg-rose-50 text-rose-700',
+};
+
+/**
+ * Emails waiting to be sent later, with cancel and edit (send time and subject). Overdue emails
+ * are sent only when the user chooses "Send now".
+ */
+export function ScheduledEmails({
+  items,
+  onClose,
+  onCancelItem,
+  onReschedule,
+  onSendNow,
+  onRemove,
+}: {
+  items: ScheduledEmail[];
+  onClose: () => void;
+  onCancelItem: (item: ScheduledEmail) => Promise<void>;
+  onReschedule: (item: ScheduledEmail, changes: { subject: string; sendAt: Date; timeZone: string }) => Promise<void>;
+  onSendNow: (item: ScheduledEmail) => Promise<void>;
+  onRemove: (item: ScheduledEmail) => void;
+}) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [subject, setSubject] = useState('');
+  const [sendTime, setSendTime] = useState<SendTime>({ wallClock: '', timeZone: 'UTC' });
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const sorted = [...items].sort((a, b) => a.scheduledFor.localeCompare(b.scheduledFor));
+
+  const startEdit = (item: ScheduledEmail) => {
+    setEditingId(item.id);
+    setSubject(item.subject);
+    setSendTime({ wallClock: dateToZonedTime(new Date(item.scheduledFor), item.timeZone), timeZone: item.timeZone });
+  };
+
+  const run = async (item: ScheduledEmail, action: () => Promise<void>, failure: string) => {
+    setBusyId(item.id);
+    try {
+      await action();
+      setEditingId(null);
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      alert(`${failure}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const hasOverdue = items.some((item) => item.status === 'overdue');
+  const editSendAt = sendTime.wallClock ? zonedTimeToDate(sendTime.wallClock, sendTime.timeZone) : null;
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center z-50 p-2">
+      <div className="glass-panel w-full max-w-lg max-h-[95vh] overflow-hidden flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-slate-200 bg-slate-50">
+          <div>
+            <h3 className="text-lg font-semibold text-slate-800">Scheduled Emails</h3>
+            <p className="text-xs text-slate-600">Emails waiting to be sent later, and those sent in the last week.</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-slate-500 hover:text-slate-700 text-xl font-light hover:bg-slate-200 rounded-full w-6 h-6 flex items-center justify-center transition-colors ml-2 flex-shrink-0"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-3 space-y-1 text-xs">
+          {hasOverdue && (
+            <div className="p-2 bg-amber-50 border border-amber-200 rounded text-amber-800">
+              Some emails came due while the app was closed and have not been sent. Send them now, pick a new time, or cancel them.
+            </div>
+          )}
+          {sorted.length === 0 && <div className="text-slate-500">Nothing scheduled. Use "Send Later" in the email editor.</div>}
+          {sorted.map((item) => (
+            <div key={item.id} className="bg-white border border-slate-200 rounded px-2 py-1 space-y-1">
+              <div className="flex items-center gap-2">
+                <span className="truncate text-slate-700 flex-1" title={item.to}>{item.toName} · {item.subject}</span>
+                <span className={`px-1.5 rounded ${STATUS_CLASSES[item.status]}`}>{item.status}</span>
+              </div>
+              <div className="flex items-center gap-2 text-slate-500">
+                <span title={`Picked in ${item.timeZone}`}>{new Date(item.scheduledFor).toLocaleString()}</span>
+                <span>{item.mode === 'server' ? 'held by Outlook' : 'sent by this app while open'}</span>
+                {item.error && <span className="text-rose-600 truncate" title={item.error}>{item.error}</span>}
+                <span className="ml-auto flex gap-2">
+                  {item.status !== 'sent' && editingId !== item.id && (
+                    <button className="text-blue-600 hover:text-blue-800" disabled={busyId === item.id} onClick={() => startEdit(item)}>
+                      Edit
+                    </button>
+                  )}
+                  {item.status === 'overdue' && (
+                    <button
+                      className="text-blue-600 hover:text-blue-800"
+                      disabled={busyId === item.id}
+                      onClick={() => confirm(`Send "${item.subject}" to ${item.to} now?`) && run(item, () => onSendNow(item), 'Failed to send email')}
+                    >
+                      Send now
+                    </button>
+                  )}
+                  {item.status === 'scheduled' || item.status === 'overdue' ? (
+                    <button
+                      className="text-rose-600 hover:text-rose-800"
+                      disabled={busyId === item.id}
+                      onClick={() => run(item, () => onCancelItem(item), 'Failed to cancel scheduled email')}
+                    >
+                      Cancel
+                    </button>
+                  ) : (
+                    <button className="text-slate-500 hover:text-slate-700" onClick={() => onRemove(item)}>Remove</button>
+                  )}
+                </span>
+              </div>
+              {editingId === item.id && (
+                <div className="space-y-1 pt-1 border-t border-slate-100">
+                  <input
+                    className="border border-slate-300 rounded px-1.5 py-0.5 bg-white w-full"
+                    value={subject}
+                    onChange={(e) => setSubject(e.target.value)}
+                  />
+                  <SendTimePicker value={sendTime} onChange={setSendTime} />
+                  <div className="flex gap-2">
+                    <button className="btn-ghost" onClick={() => setEditingId(null)}>Back</button>
+                    <button
+                      className="btn-primary disabled:opacity-50"
+                      disabled={!editSendAt || editSendAt.getTime() <= Date.now() || busyId === item.id}
+                      onClick={() => editSendAt && run(
+                        item,
+                        () => onReschedule(item, { subject, sendAt: editSendAt, timeZone: sendTime.timeZone }),
+                        'Failed to reschedule email'
+                      )}
+                    >
+                      {busyId === item.id ? 'Saving…' : item.status === 'failed' ? 'Retry' : 'Save'}
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
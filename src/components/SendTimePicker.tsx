@@ -0,0 +1,35 @@
+import { useMemo } from 'react';
+import { listTimeZones } from '../utils/timeZone';
+
+export interface SendTime {
+  wallClock: string; // YYYY-MM-DDTHH:mm in timeZone
+  timeZone: string;
+}
+
+/**
+ * Date, time and time zone for a scheduled send. The time is read in the picked zone, so
+ * "09:00 America/New_York" goes out at nine in New York whatever the local zone is.
+ */
+export function SendTimePicker({ value, onChange }: { value: SendTime; onChange: (value: SendTime) => void }) {
+  const timeZones = useMemo(() => listTimeZones(), []);
+  return (
+    <div className="flex flex-wrap items-center gap-1 text-xs">
+      <input
+        type="datetime-local"
+        className="border border-slate-300 rounded px-1.5 py-0.5 bg-white"
+        value={value.wallClock}
+        onChange={(e) => onChange({ ...value, wallClock: e.target.value })}
+      />
+      <select
+        className="border border-slate-300 rounded px-1.5 py-0.5 bg-white max-w-[12rem]"
+        value={value.timeZone}
+        onChange={(e) => onChange({ ...value, timeZone: e.target.value })}
+        title="Time zone of the send time"
+      >
+        {timeZones.map((zone) => (
+          <option key={zone} value={zone}>{zone.replace(/_/g, ' ')}</option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -0,0 +1,260 @@
+import { useRef, useState } from 'react';
+import { CONTACT_CATEGORIES } from '../types';
+import type { ContactCategory } from '../types/contact';
+import type { EmailTemplate } from '../types/email';
+import {
+  deleteTemplate,
+  exportTemplates,
+  extractTemplateVariables,
+  getTemplateHistory,
+  importTemplates,
+  loadTemplates,
+  restoreTemplateVersion,
+  saveTemplate,
+  setDefaultTemplate,
+  type TemplateInput,
+} from '../services/templateStore';
+import { getCategoryLabel } from '../utils/contactCategory';
+import { validateTemplate } from '../utils/templateEngine';
+
+const EMPTY_TEMPLATE = (category: ContactCategory): TemplateInput => ({
+  name: '',
+  subject: '',
+  body: 'Guten Tag {{name}},\n\n\n\nMit freundlichen Grüßen\n{{senderName}}',
+  category,
+});
+
+/**
+ * Create, edit and delete templates, pick each category's default, restore earlier versions,
+ * and share templates as a JSON file
+ */
+export function TemplateManager({
+  initialCategory,
+  onClose,
+  onChanged,
+}: {
+  initialCategory: ContactCategory;
+  onClose: () => void;
+  onChanged: () => void;
+}) {
+  const [templates, setTemplates] = useState<EmailTemplate[]>(() => loadTemplates());
+  const [editing, setEditing] = useState<TemplateInput>(() => {
+    const first = templates.find((t) => t.category === initialCategory);
+    return first ?? EMPTY_TEMPLATE(initialCategory);
+  });
+  const [status, setStatus] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const current = editing.id ? templates.find((t) => t.id === editing.id) : undefined;
+  const history = editing.id ? getTemplateHistory(editing.id) : [];
+  const isDirty = !current || (['name', 'subject', 'body', 'category'] as const).some((key) => current[key] !== editing[key]);
+  // Syntax only: which fields have values depends on the contact the template is used for
+  const syntaxErrors = validateTemplate(`${editing.subject}\n${editing.body}`, {}).filter((issue) => issue.kind === 'syntax');
+  const canSave = editing.name.trim() !== '' && editing.subject.trim() !== '' && isDirty && syntaxErrors.length === 0;
+  const hasUnsavedChanges = current ? isDirty : editing.name.trim() !== '' || editing.subject.trim() !== '';
+
+  const refresh = () => {
+    setTemplates(loadTemplates());
+    onChanged();
+  };
+
+  const select = (template: TemplateInput) => {
+    if (hasUnsavedChanges && !confirm('Discard your unsaved changes?')) return;
+    setEditing(template);
+    setStatus(null);
+  };
+
+  const handleSave = () => {
+    // The default flag is changed with "Make default" only, never by saving an edit
+    const saved = saveTemplate({ id: editing.id, name: editing.name.trim(), subject: editing.subject, body: editing.body, category: editing.category });
+    setEditing(saved);
+    setStatus(`Saved version ${saved.version}`);
+    refresh();
+  };
+
+  const handleDelete = () => {
+    if (!current || !confirm(`Delete the template "${current.name}"? Its history is deleted too.`)) return;
+    deleteTemplate(current.id);
+    setEditing(EMPTY_TEMPLATE(current.category));
+    setStatus(null);
+    refresh();
+  };
+
+  const handleMakeDefault = () => {
+    if (!current) return;
+    setDefaultTemplate(current.id);
+    refresh();
+  };
+
+  const handleRestore = (version: number) => {
+    if (!editing.id || !confirm(`Restore version ${version}? The current text is kept in the history.`)) return;
+    const restored = restoreTemplateVersion(editing.id, version);
+    if (restored) {
+      setEditing(restored);
+      setStatus(`Restored version ${version} as version ${restored.version}`);
+      refresh();
+    }
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportTemplates()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `olx-templates-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const { added, updated } = importTemplates(await file.text());
+      setStatus(`Imported ${added} new and ${updated} updated templates`);
+      refresh();
+    } catch (error) {
+      console.error('Failed to import templates:', error);
+      alert(`Failed to import templates: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center z-50 p-2">
+      <div className="glass-panel w-full max-w-2xl max-h-[95vh] overflow-hidden flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-slate-200 bg-slate-50">
+          <div>
+            <h3 className="text-lg font-semibold text-slate-800">Email Templates</h3>
+            <p className="text-xs text-slate-600">Templates are saved in this browser. Share them with the team by exporting and importing a JSON file.</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-slate-500 hover:text-slate-700 text-xl font-light hover:bg-slate-200 rounded-full w-6 h-6 flex items-center justify-center transition-colors ml-2 flex-shrink-0"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-3 text-xs flex gap-3">
+          <div className="w-2/5 space-y-2">
+            <div className="flex flex-wrap gap-1">
+              <button className="btn-secondary" onClick={() => select(EMPTY_TEMPLATE(editing.category))}>
+                New
+              </button>
+              <button className="btn-ghost" onClick={() => fileInputRef.current?.click()}>Import</button>
+              <button className="btn-ghost" onClick={handleExport} disabled={templates.length === 0}>Export</button>
+              <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={(e) => handleImport(e.target.files?.[0])} />
+            </div>
+            {CONTACT_CATEGORIES.map((category) => (
+              <div key={category}>
+                <div className="font-medium text-slate-600 mb-1">{getCategoryLabel(category)}</div>
+                {templates.filter((t) => t.category === category).map((t) => (
+                  <button
+                    key={t.id}
+                    onClick={() => select(t)}
+                    className={`w-full text-left bg-white border rounded px-2 py-1 mb-1 ${editing.id === t.id ? 'border-blue-400' : 'border-slate-200'}`}
+                  >
+                    <div className="flex items-center gap-1">
+                      <span className="truncate text-slate-700 flex-1">{t.name}</span>
+                      {t.isDefault && <span className="px-1.5 rounded bg-blue-50 text-blue-700">Default</span>}
+                    </div>
+                    <div className="text-slate-500">v{t.version}</div>
+                  </button>
+                ))}
+              </div>
+            ))}
+          </div>
+
+          <div className="flex-1 space-y-2">
+            <div className="flex gap-2">
+              <input
+                className="border border-slate-300 rounded px-1.5 py-0.5 bg-white flex-1"
+                placeholder="Template name"
+                value={editing.name}
+                onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+              />
+              <select
+                className="border border-slate-300 rounded px-1.5 py-0.5 bg-white"
+                value={editing.category}
+                onChange={(e) => setEditing({ ...editing, category: e.target.value as ContactCategory })}
+              >
+                {CONTACT_CATEGORIES.map((category) => (
+                  <option key={category} value={category}>{getCategoryLabel(category)}</option>
+                ))}
+              </select>
+            </div>
+            <input
+              className="border border-slate-300 rounded px-1.5 py-0.5 bg-white w-full"
+              placeholder="Subject"
+              value={editing.subject}
+              onChange={(e) => setEditing({ ...editing, subject: e.target.value })}
+            />
+            <textarea
+              className="border border-slate-300 rounded px-1.5 py-1 bg-white w-full h-48 font-mono"
+              value={editing.body}
+              onChange={(e) => setEditing({ ...editing, body: e.target.value })}
+            />
+            <div className="text-slate-500">
+              Placeholders: {extractTemplateVariables(`${editing.subject}\n${editing.body}`).map((v) => `{{${v}}}`).join(', ') || 'none'}
+            </div>
+            <div className="text-slate-500">
+              Fallback: {'{{firstName|there}}'} · Date: {'{{lastContactDate:long}}'} · Condition: {'{{#if category == "inactive"}}…{{else}}…{{/if}}'}
+            </div>
+            {syntaxErrors.map((issue) => (
+              <div key={issue.message} className="text-rose-600">{issue.message}</div>
+            ))}
+            {status && <div className="text-emerald-700">{status}</div>}
+
+            {history.length > 0 && (
+              <div>
+                <div className="font-medium text-slate-600 mb-1">Earlier versions</div>
+                {history.map((v) => (
+                  <div key={v.version} className="flex items-center gap-2">
+                    <span className="text-slate-700 truncate flex-1" title={`${v.subject}\n\n${v.body}`}>
+                      v{v.version} · {v.name} · {new Date(v.savedAt).toLocaleString()}
+                    </span>
+                    <button className="text-blue-600 hover:text-blue-800" onClick={() => handleRestore(v.version)}>Restore</button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="flex gap-2 p-3 border-t border-slate-200 bg-slate-50">
+          {current && (
+            <>
+              <button
+                onClick={handleDelete}
+                className="px-3 py-2 text-xs text-rose-700 hover:text-rose-900 transition-colors border border-rose-200 rounded-lg hover:bg-rose-50"
+              >
+                Delete
+              </button>
+              <button
+                onClick={handleMakeDefault}
+                disabled={current.isDefault}
+                className="px-3 py-2 text-xs text-slate-700 hover:text-slate-900 transition-colors border border-slate-300 rounded-lg hover:bg-slate-200 disabled:opacity-50"
+              >
+                {current.isDefault ? 'Default' : 'Make default'}
+              </button>
+            </>
+          )}
+          <button
+            onClick={onClose}
+            className="flex-1 px-3 py-2 text-xs text-slate-700 hover:text-slate-900 transition-colors border border-slate-300 rounded-lg hover:bg-slate-200"
+          >
+            Close
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!canSave}
+            className="flex-1 px-3 py-2 text-xs bg-blue-600 text-white rounded-lg hover:bg-blue-500 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {current ? 'Save new version' : 'Create template'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,108 +1,108 @@
 import type { EmailTemplate } from '../types/email';
-import type { ContactCategory } from '../types/contact';
 
-export const emailTemplates: EmailTemplate[] = [
+// Shipped templates; the template store seeds itself with these on first use
+export const builtInTemplates: EmailTemplate[] = [
   {
     id: 'follow-up-frequent',
-    name: 'Quick Check-in',
-    subject: 'Quick check-in',
-    body: `Hi {{name}},
+    name: 'Kurzer Check-in',
+    subject: 'Kurze Rückfrage',
+    body: `Guten Tag {{name}},
 
-Hope you're doing great! Just wanted to check in and see how everything is going.
+ich hoffe, es geht Ihnen gut. Ich wollte mich kurz melden und fragen, wie es bei Ihnen läuft.
 
-Is there anything I can help you with or any updates you'd like to share?
+Gibt es etwas, bei dem ich Sie unterstützen kann, oder Neuigkeiten, die Sie teilen möchten?
 
-Looking forward to hearing from you.
+Ich freue mich auf Ihre Rückmeldung.
 
-Best,
+Mit freundlichen Grüßen
 {{senderName}}`,
     category: 'recent',
-    variables: ['name', 'senderName']
+    variables: ['name', 'senderName'],
+    isDefault: true,
+    version: 1,
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    builtIn: true,
   },
   {
     id: 'reconnect-inactive',
-    name: 'Reconnect',
-    subject: "It's been a while - let's reconnect",
-    body: `Hi {{name}},
+    name: 'Wieder in Kontakt kommen',
+    subject: 'Lange nichts voneinander gehört',
+    body: `Guten Tag {{name}},
 
-I hope this email finds you well. It's been a while since we last connected, and I wanted to reach out to see how you're doing.
+es ist einige Zeit vergangen, seit wir zuletzt Kontakt hatten, und ich wollte mich gerne wieder bei Ihnen melden.
 
-I'd love to catch up and hear about what's new with you and {{company}}.
+Mich würde interessieren, wie es Ihnen und {{company}} inzwischen ergangen ist.
 
-Would you be interested in a brief call to reconnect?
+Hätten Sie Zeit für ein kurzes Telefonat?
 
-Best regards,
+Mit freundlichen Grüßen
 {{senderName}}`,
     category: 'inactive',
-    variables: ['name', 'company', 'senderName']
+    variables: ['name', 'company', 'senderName'],
+    isDefault: true,
+    version: 1,
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    builtIn: true,
   },
   {
     id: 'warm-follow-up',
-    name: 'Warm Follow-up',
-    subject: 'Following up on our conversation',
-    body: `Hi {{name}},
+    name: 'Nachfassen',
+    subject: 'Rückfrage zu unserem Gespräch',
+    body: `Guten Tag {{name}},
 
-I hope you're doing well! I wanted to follow up on our previous conversation about {{topic}}.
+ich wollte gerne an unser letztes Gespräch zum Thema {{topic}} anknüpfen.
 
-I've been thinking about what we discussed and wanted to see if you'd be interested in exploring this further.
+Ich habe mir noch einmal Gedanken dazu gemacht und würde mich freuen, das Thema mit Ihnen weiter zu vertiefen.
 
-Would you be available for a quick call this week to discuss next steps?
+Passt Ihnen diese Woche ein kurzer Termin, um die nächsten Schritte zu besprechen?
 
-Best regards,
+Mit freundlichen Grüßen
 {{senderName}}`,
     category: 'in_touch',
-    variables: ['name', 'topic', 'senderName']
+    variables: ['name', 'topic', 'senderName'],
+    isDefault: true,
+    version: 1,
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    builtIn: true,
   },
   {
     id: 'hot-opportunity',
-    name: 'Hot Opportunity',
-    subject: 'Exciting opportunity - {{company}}',
-    body: `Hi {{name}},
+    name: 'Neues Angebot',
+    subject: 'Ein Angebot für {{company}}',
+    body: `Guten Tag {{name}},
 
-I hope this email finds you well! I've been thinking about our previous discussions and have an exciting opportunity that I think would be perfect for {{company}}.
+anknüpfend an unsere bisherigen Gespräche habe ich ein Angebot, das aus meiner Sicht sehr gut zu {{company}} passen würde.
 
-Given your expertise in {{industry}}, I believe this could be a great fit.
+Gerade mit Ihrer Erfahrung im Bereich {{industry}} könnte das für Sie interessant sein.
 
-Would you be interested in a brief call to discuss this opportunity?
+Darf ich es Ihnen in einem kurzen Gespräch vorstellen?
 
-Best regards,
+Mit freundlichen Grüßen
 {{senderName}}`,
     category: 'in_touch',
-    variables: ['name', 'company', 'industry', 'senderName']
+    variables: ['name', 'company', 'industry', 'senderName'],
+    version: 1,
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    builtIn: true,
   },
   {
     id: 'cold-outreach',
-    name: 'Cold Outreach',
-    subject: 'Quick question about {{company}}',
-    body: `Hi {{name}},
+    name: 'Kontakt auffrischen',
+    subject: 'Kurze Frage zu {{company}}',
+    body: `Guten Tag {{name}},
 
-I hope you're doing well. I came across {{company}} and was impressed by what you're doing in {{industry}}.
+ich habe mir angesehen, was {{company}} derzeit im Bereich {{industry}} macht, und war beeindruckt.
 
-I'd love to learn more about your current challenges and see if there's any way I could be helpful.
+Gerne würde ich mehr über Ihre aktuellen Herausforderungen erfahren und sehen, ob wir Sie dabei unterstützen können.
 
-Do you have a few minutes for a brief conversation this week?
+Hätten Sie diese Woche ein paar Minuten Zeit für ein kurzes Gespräch?
 
-Best regards,
+Mit freundlichen Grüßen
 {{senderName}}`,
     category: 'inactive',
-    variables: ['name', 'company', 'industry', 'senderName']
+    variables: ['name', 'company', 'industry', 'senderName'],
+    version: 1,
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    builtIn: true,
   }
 ];
-
-export function getTemplateByCategory(category: ContactCategory): EmailTemplate | undefined {
-  return emailTemplates.find(template => template.category === category);
-}
-
-export function processTemplate(template: EmailTemplate, variables: Record<string, string>): { subject: string; body: string } {
-  let subject = template.subject;
-  let body = template.body;
-
-  // Replace variables in subject and body
-  Object.entries(variables).forEach(([key, value]) => {
-    const placeholder = `{{${key}}}`;
-    subject = subject.replace(new RegExp(placeholder, 'g'), value);
-    body = body.replace(new RegExp(placeholder, 'g'), value);
-  });
-
-  return { subject, body };
-}
@@ -0,0 +1,120 @@
+import { useRef, useState } from 'react';
+import { getMailProvider } from '../services/mailProvider';
+import { getActiveMailbox } from '../services/mailboxes';
+import {
+  CAMPAIGN_BATCH_INTERVAL_MS,
+  CAMPAIGN_BATCH_SIZE,
+  getSuppressionReason,
+  loadCampaigns,
+  saveCampaigns,
+} from '../services/campaigns';
+import type { Campaign, CampaignRecipient } from '../types';
+
+/**
+ * Campaigns and their sender. A running campaign sends its queued recipients in batches, one
+ * message at a time, and stops between two messages when it is paused.
+ */
+export function useCampaigns() {
+  const [campaigns, setCampaigns] = useState<Campaign[]>(() => loadCampaigns());
+  // The sender reads the latest state between awaits, so the ref is the source of truth
+  const campaignsRef = useRef(campaigns);
+  const runningRef = useRef(new Set<string>());
+
+  const update = (change: (current: Campaign[]) => Campaign[]) => {
+    const next = change(campaignsRef.current);
+    campaignsRef.current = next;
+    saveCampaigns(next);
+    setCampaigns(next);
+  };
+
+  const patchCampaign = (id: string, patch: Partial<Campaign>) =>
+    update((current) => current.map((c) => (c.id === id ? { ...c, ...patch } : c)));
+
+  const patchRecipient = (id: string, contactId: string, patch: Partial<CampaignRecipient>) =>
+    update((current) => current.map((c) => (c.id !== id ? c : {
+      ...c,
+      recipients: c.recipients.map((r) => (r.contactId === contactId ? { ...r, ...patch } : r)),
+    })));
+
+  const queuedRecipients = (id: string) =>
+    campaignsRef.current.find((c) => c.id === id)?.recipients.filter((r) => r.status === 'queued') ?? [];
+
+  /** Why the campaign cannot send right now: it belongs to another mailbox than the active one */
+  const mailboxMismatch = (id: string): string | null => {
+    const mailboxId = campaignsRef.current.find((c) => c.id === id)?.mailboxId ?? 'me';
+    if (mailboxId === getActiveMailbox()) return null;
+    return `It sends from ${mailboxId === 'me' ? 'your own mailbox' : mailboxId}; switch to that mailbox to continue`;
+  };
+
+  const run = async (id: string) => {
+    if (runningRef.current.has(id)) return;
+    runningRef.current.add(id);
+    const isRunning = () => campaignsRef.current.find((c) => c.id === id)?.status === 'running';
+    try {
+      while (isRunning()) {
+        const batch = queuedRecipients(id).slice(0, CAMPAIGN_BATCH_SIZE);
+        if (batch.length === 0) {
+          patchCampaign(id, { status: 'done' });
+          return;
+        }
+        for (const recipient of batch) {
+          if (!isRunning()) return;
+          // The mailbox can be switched while the campaign waits between batches
+          const mismatch = mailboxMismatch(id);
+          if (mismatch) {
+            patchCampaign(id, { status: 'paused', pauseReason: mismatch });
+            return;
+          }
+          // Snoozes and segment lists may have changed since the campaign was built
+          const reason = getSuppressionReason({ email: recipient.email });
+          if (reason) {
+            patchRecipient(id, recipient.contactId, { status: 'suppressed', error: reason });
+            continue;
+          }
+          try {
+            await getMailProvider().sendEmail(recipient.email, recipient.subject, recipient.htmlBody, true);
+            patchRecipient(id, recipient.contactId, { status: 'sent', sentAt: new Date().toISOString(), error: undefined });
+          } catch (error) {
+            console.error(`Failed to send campaign email to ${recipient.email}:`, error);
+            patchRecipient(id, recipient.contactId, { status: 'failed', error: error instanceof Error ? error.message : 'Unknown error' });
+          }
+        }
+        if (queuedRecipients(id).length > 0) {
+          await new Promise((resolve) => setTimeout(resolve, CAMPAIGN_BATCH_INTERVAL_MS));
+        }
+      }
+    } finally {
+      runningRef.current.delete(id);
+    }
+  };
+
+  const startCampaign = (campaign: Campaign) => {
+    update((current) => [...current, { ...campaign, status: 'running' }]);
+    void run(campaign.id);
+  };
+
+  const pauseCampaign = (id: string) => patchCampaign(id, { status: 'paused', pauseReason: undefined });
+
+  const resumeCampaign = (id: string) => {
+    const mismatch = mailboxMismatch(id);
+    if (mismatch) {
+      patchCampaign(id, { pauseReason: mismatch });
+      return;
+    }
+    patchCampaign(id, { status: 'running', pauseReason: undefined });
+    void run(id);
+  };
+
+  /** Queues the failed recipients again and resumes sending */
+  const retryFailed = (id: string) => {
+    update((current) => current.map((c) => (c.id !== id ? c : {
+      ...c,
+      recipients: c.recipients.map((r) => (r.status === 'failed' ? { ...r, status: 'queued', error: undefined } : r)),
+    })));
+    resumeCampaign(id);
+  };
+
+  const removeCampaign = (id: string) => update((current) => current.filter((c) => c.id !== id));
+
+  return { campaigns, startCampaign, pauseCampaign, resumeCampaign, retryFailed, removeCampaign } as const;
+}
@@ -1,17 +1,23 @@
 import { useState } from 'react';
 import { BatchedContactAnalysis } from '../services/batchedContactAnalysis';
-import { graphService } from '../services/microsoftGraph';
-import type { ContactWithAnalysis } from '../types/contact';
+import { getMailProvider } from '../services/mailProvider';
+import { getActiveAnalysisStore } from '../services/mailboxes';
+import { loadIdentityDecisions, proposeIdentityMerges } from '../services/identityResolution';
+import type { ContactWithAnalysis, MergeSuggestion } from '../types/contact';
 import type { ProgressUpdate } from '../services/progressTracker';
 
-type AnalysisMode = 'quick' | 'balanced' | 'comprehensive';
+export type AnalysisMode = 'quick' | 'balanced' | 'comprehensive';
 
 export function useContactAnalysis(onContactsAnalyzed: (contacts: ContactWithAnalysis[]) => void) {
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [progress, setProgress] = useState<ProgressUpdate | null>(null);
+  const [lastMode, setLastMode] = useState<AnalysisMode>('quick');
+  const [mergeSuggestions, setMergeSuggestions] = useState<MergeSuggestion[]>([]);
 
   const analyzeContacts = async (mode: AnalysisMode = 'quick') => {
     const batchedAnalysis = new BatchedContactAnalysis();
+    const provider = getMailProvider();
+    setLastMode(mode);
     setIsAnalyzing(true);
     setProgress({
       stage: 'preparing_analysis',
@@ -22,9 +28,9 @@ export function useContactAnalysis(onContactsAnalyzed: (contacts: ContactWithAna
     });
 
     try {
-      await graphService.debugAuthStatus();
+      await provider.debugAuthStatus();
 
-      const token = await graphService.getAccessToken();
+      const token = await provider.getAccessToken();
       if (!token) {
         throw new Error('No access token available. Please sign in again.');
       }
@@ -46,20 +52,20 @@ export function useContactAnalysis(onContactsAnalyzed: (contacts: ContactWithAna
       setProgress({
         stage: 'preparing_analysis',
         progress: 5,
-        message: 'Fetching contacts and emails from Microsoft Graph...',
+        message: `Fetching contacts and emails from ${provider.displayName}...`,
         itemsProcessed: 0,
         totalItems: 0,
       });
 
-      graphService.clearEmailCaches();
+      provider.clearEmailCaches();
 
       const graphStart = performance.now();
       const contactsStart = performance.now();
-      const contacts = await graphService.getContactsForAnalysis(analysisOptions);
+      const contacts = await provider.getContactsForAnalysis(analysisOptions);
       const contactsTime = performance.now() - contactsStart;
       
       const emailsStart = performance.now();
-      const emailInteractions = await graphService.getEmailInteractionsForAnalysis(
+      const emailInteractions = await provider.getEmailInteractionsForAnalysis(
         emailInteractionLimit,
         false
       );
@@ -67,13 +73,16 @@ export function useContactAnalysis(onContactsAnalyzed: (contacts: ContactWithAna
       
       const graphTotalTime = performance.now() - graphStart;
 
-      console.log(`Graph API Timing:
+      console.log(`${provider.displayName} API Timing:
   - Fetch contacts: ${contactsTime.toFixed(0)}ms (${contacts.length} contacts)
   - Fetch emails: ${emailsTime.toFixed(0)}ms (${emailInteractions.length} interactions)
-  - Total Graph: ${graphTotalTime.toFixed(0)}ms`);
+  - Total: ${graphTotalTime.toFixed(0)}ms`);
 
       const [realContacts, realEmailInteractions] = [contacts, emailInteractions];
 
+      // Proposals are reviewed by the user; accepted merges apply from the next analysis
+      setMergeSuggestions(proposeIdentityMerges(contacts, emailInteractions, loadIdentityDecisions()));
+
       setProgress({
         stage: 'preparing_analysis',
         progress: 10,
@@ -96,6 +105,13 @@ export function useContactAnalysis(onContactsAnalyzed: (contacts: ContactWithAna
       });
 
       onContactsAnalyzed(analyzedContacts);
+      const store = getActiveAnalysisStore();
+      store.saveAnalysisResults(analyzedContacts).catch((error) =>
+        console.warn('Failed to store analysis results:', error)
+      );
+      store.saveSnapshot(mode, analyzedContacts).catch((error) =>
+        console.warn('Failed to store analysis history:', error)
+      );
 
       setProgress({
         stage: 'finalizing_results',
@@ -115,7 +131,7 @@ export function useContactAnalysis(onContactsAnalyzed: (contacts: ContactWithAna
           for (let i = 0; i < topForPreview.length; i += concurrency) {
             const chunk = topForPreview.slice(i, i + concurrency);
             void Promise.all(
-              chunk.map((c) => graphService.getLastEmailWithContact(c.email).catch(() => null))
+              chunk.map((c) => provider.getLastEmailWithContact(c.email).catch(() => null))
             );
             // eslint-disable-next-line no-await-in-loop
             await new Promise((r) => setTimeout(r, 300));
@@ -131,7 +147,7 @@ export function useContactAnalysis(onContactsAnalyzed: (contacts: ContactWithAna
     }
   };
 
-  return { analyzeContacts, isAnalyzing, progress } as const;
+  return { analyzeContacts, isAnalyzing, progress, lastMode, mergeSuggestions } as const;
 }
 
 
@@ -0,0 +1,121 @@
+import { useEffect, useState } from 'react';
+import { getMailProvider } from '../services/mailProvider';
+import { getActiveMailbox } from '../services/mailboxes';
+import { getMailboxStore } from '../services/storage/analysisStore';
+import { findFollowedUpTasks, loadFollowUps, saveFollowUps, type FollowUpSettings } from '../services/followUps';
+import type { ContactWithAnalysis, EmailInteraction, FollowUpPriority, FollowUpTask } from '../types/contact';
+
+/**
+ * Follow-up tasks per contact. Whenever new analysis results arrive, open tasks whose contact
+ * has since been sent mail are marked done. Mail to a merged alias counts, and so does mail from
+ * any mailbox of the merged team view; other mailboxes are not checked.
+ */
+export function useFollowUps(contacts: ContactWithAnalysis[]) {
+  const [settings, setSettings] = useState<FollowUpSettings>(() => loadFollowUps());
+
+  const update = (change: (current: FollowUpSettings) => FollowUpSettings) => {
+    setSettings((current) => {
+      const next = change(current);
+      saveFollowUps(next);
+      return next;
+    });
+  };
+
+  const patchTask = (id: string, patch: Partial<FollowUpTask>) =>
+    update((current) => ({ ...current, tasks: current.tasks.map((t) => (t.id === id ? { ...t, ...patch } : t)) }));
+
+  const completeMirrored = (task: FollowUpTask) => {
+    if (!task.todoTaskId) return;
+    getMailProvider().completeMirroredFollowUp?.(task.todoTaskId).catch((error) =>
+      console.warn('Failed to complete the To Do task:', error)
+    );
+  };
+
+  useEffect(() => {
+    const open = settings.tasks.filter((task) => !task.doneAt);
+    if (contacts.length === 0 || open.length === 0) return;
+    let cancelled = false;
+    const contactsById = new Map<string, ContactWithAnalysis>();
+    contacts.forEach((contact) => [contact.id, ...(contact.aliases ?? [])].forEach((id) => contactsById.set(id, contact)));
+    // Addresses to look up per task contact, and per mailbox the addresses to read there
+    const idsByTaskContact = new Map<string, string[]>();
+    const idsByMailbox = new Map<string, Set<string>>();
+    open.forEach((task) => {
+      const contact = contactsById.get(task.contactId);
+      const ids = contact ? [contact.id, ...(contact.aliases ?? [])] : [task.contactId];
+      idsByTaskContact.set(task.contactId, ids);
+      (contact?.mailboxes ?? [getActiveMailbox()]).forEach((mailboxId) => {
+        const set = idsByMailbox.get(mailboxId) ?? new Set<string>();
+        ids.forEach((id) => set.add(id));
+        idsByMailbox.set(mailboxId, set);
+      });
+    });
+    Promise.all(Array.from(idsByMailbox, ([mailboxId, ids]) => getMailboxStore(mailboxId).getInteractionsForContacts(Array.from(ids))))
+      .then((results) => {
+        if (cancelled) return;
+        const byContact = new Map<string, EmailInteraction[]>();
+        idsByTaskContact.forEach((ids, contactId) =>
+          byContact.set(contactId, results.flatMap((byId) => ids.flatMap((id) => byId.get(id) ?? [])))
+        );
+        const followedUp = findFollowedUpTasks(open, byContact);
+        if (followedUp.length === 0) return;
+        const doneAt = new Date().toISOString();
+        const ids = new Set(followedUp.map((task) => task.id));
+        update((current) => ({
+          ...current,
+          tasks: current.tasks.map((t) => (ids.has(t.id) ? { ...t, doneAt, doneReason: 'mail_sent' as const } : t)),
+        }));
+        followedUp.forEach(completeMirrored);
+      })
+      .catch((error) => console.warn('Failed to check follow-ups against sent mail:', error));
+    return () => { cancelled = true; };
+    // Only new analysis results can complete tasks
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [contacts]);
+
+  const addFollowUp = async (contact: ContactWithAnalysis, dueDate: string, note: string, priority: FollowUpPriority) => {
+    const task: FollowUpTask = {
+      id: `${contact.id}:${Date.now()}`,
+      contactId: contact.id,
+      contactName: contact.name,
+      dueDate,
+      note,
+      priority,
+      createdAt: new Date().toISOString(),
+    };
+    update((current) => ({ ...current, tasks: [...current.tasks, task] }));
+    const provider = getMailProvider();
+    if (settings.mirrorToTodo && provider.mirrorFollowUp) {
+      try {
+        patchTask(task.id, { todoTaskId: await provider.mirrorFollowUp(task) });
+      } catch (error) {
+        console.warn('Failed to mirror the follow-up to To Do:', error);
+      }
+    }
+  };
+
+  const completeFollowUp = (task: FollowUpTask) => {
+    patchTask(task.id, { doneAt: new Date().toISOString(), doneReason: 'manual' });
+    completeMirrored(task);
+  };
+
+  const removeFollowUp = (task: FollowUpTask) => {
+    update((current) => ({ ...current, tasks: current.tasks.filter((t) => t.id !== task.id) }));
+    if (task.todoTaskId) {
+      getMailProvider().deleteMirroredFollowUp?.(task.todoTaskId).catch((error) =>
+        console.warn('Failed to delete the To Do task:', error)
+      );
+    }
+  };
+
+  const setMirrorToTodo = (mirrorToTodo: boolean) => update((current) => ({ ...current, mirrorToTodo }));
+
+  return {
+    followUps: settings.tasks,
+    mirrorToTodo: settings.mirrorToTodo,
+    addFollowUp,
+    completeFollowUp,
+    removeFollowUp,
+    setMirrorToTodo,
+  } as const;
+}
@@ -0,0 +1,60 @@
+import { useState } from 'react';
+import { getMailProvider, type MailboxInfo } from '../services/mailProvider';
+import { getMailboxStore } from '../services/storage/analysisStore';
+import { getActiveMailbox, mergeMailboxResults } from '../services/mailboxes';
+import type { ContactWithAnalysis } from '../types/contact';
+
+/**
+ * Mailbox switching: each mailbox keeps its own stored analysis results, and the team view
+ * merges the results of all of them
+ */
+export function useMailboxes(onContactsLoaded: (contacts: ContactWithAnalysis[]) => void) {
+  const provider = getMailProvider();
+  const [mailboxes, setMailboxes] = useState<MailboxInfo[]>(() => provider.listMailboxes?.() ?? []);
+  const [activeMailbox, setActiveMailbox] = useState<string>(() => provider.getActiveMailbox?.() ?? getActiveMailbox());
+  const [isTeamView, setIsTeamView] = useState(false);
+
+  /** Switches mailbox and shows its stored results; resolves to the number of stored contacts */
+  const selectMailbox = async (mailboxId: string): Promise<number> => {
+    provider.setActiveMailbox?.(mailboxId);
+    setActiveMailbox(mailboxId);
+    setIsTeamView(false);
+    try {
+      const stored = await getMailboxStore(mailboxId).getAnalysisResults();
+      onContactsLoaded(stored);
+      return stored.length;
+    } catch (error) {
+      console.warn(`Failed to load stored results of ${mailboxId}:`, error);
+      onContactsLoaded([]);
+      return 0;
+    }
+  };
+
+  const selectTeamView = async () => {
+    const resultsByMailbox = await Promise.all(mailboxes.map(async (mailbox) => ({
+      mailboxId: mailbox.id,
+      results: await getMailboxStore(mailbox.id).getAnalysisResults().catch((error) => {
+        console.warn(`Failed to load stored results of ${mailbox.id}:`, error);
+        return [] as ContactWithAnalysis[];
+      }),
+    })));
+    setIsTeamView(true);
+    onContactsLoaded(mergeMailboxResults(resultsByMailbox));
+  };
+
+  const addMailbox = async (address: string): Promise<MailboxInfo | null> => {
+    if (!provider.addMailbox || !provider.listMailboxes) return null;
+    const mailbox = await provider.addMailbox(address);
+    setMailboxes(provider.listMailboxes());
+    return mailbox;
+  };
+
+  const removeMailbox = async (mailboxId: string) => {
+    if (!provider.removeMailbox || !provider.listMailboxes) return;
+    provider.removeMailbox(mailboxId);
+    setMailboxes(provider.listMailboxes());
+    if (activeMailbox === mailboxId) await selectMailbox('me');
+  };
+
+  return { mailboxes, activeMailbox, isTeamView, selectMailbox, selectTeamView, addMailbox, removeMailbox } as const;
+}
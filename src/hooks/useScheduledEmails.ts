@@ -0,0 +1,150 @@
+import { useEffect, useRef, useState } from 'react';
+import { getMailProvider } from '../services/mailProvider';
+import { getActiveMailbox } from '../services/mailboxes';
+import { dueScheduledEmails, loadScheduledEmails, markOverdueScheduledEmails, saveScheduledEmails } from '../services/scheduledSend';
+import type { ScheduledEmail } from '../types';
+
+// How often the local queue is checked for due items
+const CHECK_INTERVAL_MS = 30 * 1000;
+
+export interface ScheduleRequest {
+  to: string;
+  toName: string;
+  subject: string;
+  htmlBody: string;
+  sendAt: Date;
+  timeZone: string;
+}
+
+/**
+ * Send-later queue. Providers that can defer sending get the message right away; otherwise
+ * it waits here and goes out from this tab at its time. Items that came due while the app was
+ * closed are marked overdue and wait for the user.
+ */
+export function useScheduledEmails() {
+  const [items, setItems] = useState<ScheduledEmail[]>(() => {
+    const loaded = markOverdueScheduledEmails(loadScheduledEmails());
+    saveScheduledEmails(loaded);
+    return loaded;
+  });
+  const sendingRef = useRef(new Set<string>());
+
+  const update = (change: (current: ScheduledEmail[]) => ScheduledEmail[]) => {
+    setItems((current) => {
+      const next = change(current);
+      saveScheduledEmails(next);
+      return next;
+    });
+  };
+
+  const patchItem = (id: string, patch: Partial<ScheduledEmail>) =>
+    update((current) => current.map((item) => (item.id === id ? { ...item, ...patch } : item)));
+
+  const sendLocalItem = (item: ScheduledEmail) => {
+    if (sendingRef.current.has(item.id)) return Promise.resolve();
+    sendingRef.current.add(item.id);
+    return getMailProvider().sendEmail(item.to, item.subject, item.htmlBody, true)
+      .then(() => patchItem(item.id, { status: 'sent', error: undefined }))
+      .catch((error) => {
+        console.error(`Failed to send scheduled email to ${item.to}:`, error);
+        patchItem(item.id, { status: 'failed', error: error instanceof Error ? error.message : 'Unknown error' });
+      })
+      .finally(() => sendingRef.current.delete(item.id));
+  };
+
+  /** Asks the server whether it sent a due item; one still in the Outbox is checked again later */
+  const checkServerItem = (item: ScheduledEmail) => {
+    const provider = getMailProvider();
+    if (!item.remoteId || !provider.getScheduledEmailStatus || sendingRef.current.has(item.id)) return;
+    // Checked once its mailbox is active again; elsewhere the id is unknown and would read as deleted
+    if ((item.mailboxId ?? 'me') !== getActiveMailbox()) return;
+    sendingRef.current.add(item.id);
+    provider.getScheduledEmailStatus(item.remoteId)
+      .then((status) => {
+        if (status === 'sent') patchItem(item.id, { status: 'sent' });
+        if (status === 'gone') patchItem(item.id, { status: 'failed', error: 'Deleted from the Outbox before it was sent' });
+      })
+      .catch((error) => console.warn(`Failed to check scheduled email to ${item.to}:`, error))
+      .finally(() => sendingRef.current.delete(item.id));
+  };
+
+  useEffect(() => {
+    const processDue = () => {
+      dueScheduledEmails(items).forEach((item) => {
+        if (item.mode === 'server') checkServerItem(item);
+        else void sendLocalItem(item);
+      });
+    };
+    processDue();
+    const timer = setInterval(processDue, CHECK_INTERVAL_MS);
+    return () => clearInterval(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [items]);
+
+  const scheduleEmail = async (request: ScheduleRequest): Promise<ScheduledEmail> => {
+    const provider = getMailProvider();
+    const item: ScheduledEmail = {
+      id: `${Date.now()}:${request.to}`,
+      to: request.to,
+      toName: request.toName,
+      subject: request.subject,
+      htmlBody: request.htmlBody,
+      scheduledFor: request.sendAt.toISOString(),
+      timeZone: request.timeZone,
+      mode: provider.scheduleEmail ? 'server' : 'local',
+      status: 'scheduled',
+    };
+    if (provider.scheduleEmail) {
+      item.mailboxId = getActiveMailbox();
+      item.remoteId = await provider.scheduleEmail(request.to, request.subject, request.htmlBody, request.sendAt);
+    }
+    update((current) => [...current, item]);
+    return item;
+  };
+
+  /** A server item can only be changed while its mailbox is the active one */
+  const assertInActiveMailbox = (item: ScheduledEmail) => {
+    const mailboxId = item.mailboxId ?? 'me';
+    if (mailboxId !== getActiveMailbox()) {
+      throw new Error(`It waits in the Outbox of ${mailboxId === 'me' ? 'your own mailbox' : mailboxId}; switch to that mailbox first`);
+    }
+  };
+
+  /** Withdraws an item that has not gone out; throws when the server already sent it */
+  const cancelScheduledEmail = async (item: ScheduledEmail) => {
+    if (item.mode === 'server' && item.remoteId) {
+      assertInActiveMailbox(item);
+      await getMailProvider().cancelScheduledEmail?.(item.remoteId);
+    }
+    update((current) => current.filter((i) => i.id !== item.id));
+  };
+
+  /**
+   * Changes time or subject. A server item is handed over again first and the old message is
+   * withdrawn only then, so a failure never leaves the message lost.
+   */
+  const rescheduleEmail = async (item: ScheduledEmail, changes: { subject: string; sendAt: Date; timeZone: string }) => {
+    if (item.mode === 'server') {
+      assertInActiveMailbox(item);
+      const replacement = await scheduleEmail({ ...item, subject: changes.subject, sendAt: changes.sendAt, timeZone: changes.timeZone });
+      try {
+        await cancelScheduledEmail(item);
+      } catch (error) {
+        // The old message went out meanwhile (or cannot be withdrawn); do not send it twice
+        await cancelScheduledEmail(replacement).catch((rollbackError) =>
+          console.error('Failed to withdraw the rescheduled copy:', rollbackError)
+        );
+        throw error;
+      }
+      return;
+    }
+    patchItem(item.id, { subject: changes.subject, scheduledFor: changes.sendAt.toISOString(), timeZone: changes.timeZone, status: 'scheduled', error: undefined });
+  };
+
+  /** Sends an overdue item now, once the user has confirmed it still fits */
+  const sendOverdueEmail = (item: ScheduledEmail) => sendLocalItem(item);
+
+  const removeScheduledEmail = (item: ScheduledEmail) => update((current) => current.filter((i) => i.id !== item.id));
+
+  return { scheduledEmails: items, scheduleEmail, cancelScheduledEmail, rescheduleEmail, sendOverdueEmail, removeScheduledEmail } as const;
+}
@@ -1,9 +1,12 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
 import App from './App'
+import { setMailProvider } from './services/mailProvider'
 import './index.css'
 
-// Initialize Gmail API when ready
+// Gmail entry point: route all mailbox operations through the Gmail API provider
+setMailProvider('gmail')
+
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
     <App />
@@ -0,0 +1,167 @@
+import type {
+  Account,
+  AccountSettings,
+  ContactAnalysis,
+  ContactAnalysisConfig,
+  ContactWithAnalysis,
+} from '../types/contact';
+import { evaluateCategoryRules } from './categoryRules';
+
+const STORAGE_KEY = 'olx_account_settings';
+
+export const DEFAULT_FREEMAIL_DOMAINS: readonly string[] = [
+  'gmail.com',
+  'googlemail.com',
+  'outlook.com',
+  'hotmail.com',
+  'live.com',
+  'msn.com',
+  'yahoo.com',
+  'icloud.com',
+  'me.com',
+  'aol.com',
+  'proton.me',
+  'protonmail.com',
+  'gmx.com',
+  'xtra.co.nz',
+  // German providers
+  'gmx.de',
+  'gmx.net',
+  'gmx.at',
+  'gmx.ch',
+  'web.de',
+  't-online.de',
+  'freenet.de',
+  'arcor.de',
+  'posteo.de',
+  'mailbox.org',
+  'email.de',
+  'online.de',
+  'vodafone.de',
+  'kabelmail.de',
+  'yahoo.de',
+  'hotmail.de',
+  'outlook.de',
+  'live.de',
+  'googlemail.de',
+  'icloud.de',
+  'aol.de',
+  'bluewin.ch',
+];
+
+export const DEFAULT_ACCOUNT_SETTINGS: AccountSettings = {
+  version: 1,
+  freemailDomains: [...DEFAULT_FREEMAIL_DOMAINS],
+  domainMerges: {},
+  splitDomains: [],
+};
+
+// Second-level labels under which registrations happen one level deeper (acme.co.nz)
+const SECOND_LEVEL_LABELS = new Set(['co', 'com', 'net', 'org', 'gov', 'ac', 'edu', 'govt']);
+
+function parentDomain(domain: string): string {
+  const labels = domain.split('.');
+  const keep = labels.length >= 3 && SECOND_LEVEL_LABELS.has(labels[labels.length - 2]) ? 3 : 2;
+  return labels.slice(-keep).join('.');
+}
+
+/**
+ * Account domain for an email address, or null for freemail and malformed addresses
+ */
+export function getAccountDomain(email: string, settings: AccountSettings): string | null {
+  const domain = (email.split('@')[1] || '').trim().toLowerCase();
+  if (!domain) return null;
+  if (settings.freemailDomains.includes(domain)) return null;
+  if (settings.domainMerges[domain]) return settings.domainMerges[domain];
+  if (settings.splitDomains.includes(domain)) return domain;
+  const parent = parentDomain(domain);
+  if (settings.freemailDomains.includes(parent)) return null;
+  return settings.domainMerges[parent] ?? parent;
+}
+
+function aggregateMetrics(contacts: ContactWithAnalysis[]): ContactAnalysis['metrics'] {
+  const sum = (pick: (m: ContactAnalysis['metrics']) => number) =>
+    contacts.reduce((total, c) => total + pick(c.analysis.metrics), 0);
+  const sentEmails = sum(m => m.sentEmails);
+  const replied = sum(m => m.responseRate * m.sentEmails);
+  const timedReplies = contacts.filter(c => c.analysis.metrics.averageResponseTime > 0);
+  return {
+    totalEmails: sum(m => m.totalEmails),
+    sentEmails,
+    receivedEmails: sum(m => m.receivedEmails),
+    responseRate: sentEmails > 0 ? replied / sentEmails : 0,
+    daysSinceLastContact: Math.min(...contacts.map(c => c.analysis.metrics.daysSinceLastContact)),
+    averageResponseTime: timedReplies.length > 0
+      ? timedReplies.reduce((total, c) => total + c.analysis.metrics.averageResponseTime, 0) / timedReplies.length
+      : 0,
+    conversationCount: sum(m => m.conversationCount),
+    emailsLast30Days: sum(m => m.emailsLast30Days),
+    emailsLast90Days: sum(m => m.emailsLast90Days),
+    copiedEmails: sum(m => m.copiedEmails),
+    meetings: sum(m => m.meetings ?? 0),
+    meetingsLast90Days: sum(m => m.meetingsLast90Days ?? 0),
+  };
+}
+
+/**
+ * Groups analyzed contacts into accounts by domain and categorizes each account by running
+ * the category rules over the account's combined metrics
+ */
+export function buildAccounts(
+  contacts: ContactWithAnalysis[],
+  settings: AccountSettings,
+  rules: ContactAnalysisConfig
+): Account[] {
+  const groups = new Map<string, { domains: Set<string>; contacts: ContactWithAnalysis[] }>();
+  for (const contact of contacts) {
+    const accountDomain = getAccountDomain(contact.email, settings);
+    if (!accountDomain) continue;
+    let group = groups.get(accountDomain);
+    if (!group) {
+      group = { domains: new Set(), contacts: [] };
+      groups.set(accountDomain, group);
+    }
+    group.domains.add(contact.email.split('@')[1].toLowerCase());
+    group.contacts.push(contact);
+  }
+
+  const accounts: Account[] = [];
+  groups.forEach((group, id) => {
+    const metrics = aggregateMetrics(group.contacts);
+    const lastTimes = group.contacts.map(c => c.lastContactDate?.getTime() ?? 0);
+    const lastTime = Math.max(...lastTimes);
+    const mostEngagedContact = group.contacts.reduce((best, c) =>
+      c.emailCount > best.emailCount || (c.emailCount === best.emailCount && c.responseRate > best.responseRate) ? c : best
+    );
+    accounts.push({
+      id,
+      domains: Array.from(group.domains).sort(),
+      contacts: group.contacts,
+      category: evaluateCategoryRules(rules, metrics).category,
+      metrics,
+      lastContactDate: lastTime > 0 ? new Date(lastTime) : null,
+      mostEngagedContact,
+    });
+  });
+
+  return accounts.sort((a, b) => b.metrics.totalEmails - a.metrics.totalEmails);
+}
+
+export function loadAccountSettings(): AccountSettings {
+  try {
+    const raw = typeof window !== 'undefined' ? window.localStorage.getItem(STORAGE_KEY) : null;
+    if (!raw) return DEFAULT_ACCOUNT_SETTINGS;
+    return { ...DEFAULT_ACCOUNT_SETTINGS, ...(JSON.parse(raw) as AccountSettings) };
+  } catch (error) {
+    console.warn('Failed to load account settings:', error);
+    return DEFAULT_ACCOUNT_SETTINGS;
+  }
+}
+
+export function saveAccountSettings(settings: AccountSettings): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn('Failed to save account settings:', error);
+  }
+}
@@ -0,0 +1,40 @@
+import type { AnalysisSnapshot, CategoryMove, ContactCategory, SnapshotEntry } from '../types/contact';
+
+// Higher is healthier; a move to a lower rank means the contact slipped
+const CATEGORY_RANK: Record<ContactCategory, number> = { recent: 2, in_touch: 1, inactive: 0 };
+
+/**
+ * Contacts whose category changed between two runs, slipped ones first, then by score drop.
+ * Contacts present in only one of the runs are left out.
+ */
+export function diffSnapshots(before: SnapshotEntry[], after: SnapshotEntry[]): CategoryMove[] {
+  const previous = new Map(before.map(entry => [entry.contactId, entry]));
+  const moves: CategoryMove[] = [];
+  after.forEach(entry => {
+    const old = previous.get(entry.contactId);
+    if (!old || old.category === entry.category) return;
+    moves.push({
+      contactId: entry.contactId,
+      name: entry.name,
+      from: old.category,
+      to: entry.category,
+      scoreChange: entry.score - old.score,
+      slipped: CATEGORY_RANK[entry.category] < CATEGORY_RANK[old.category],
+    });
+  });
+  return moves.sort((a, b) => Number(b.slipped) - Number(a.slipped) || a.scoreChange - b.scoreChange);
+}
+
+/**
+ * The run to compare the latest one against: the newest run of the same mode at least `days` days
+ * older, or the oldest such run when the history is shorter. Quick and comprehensive runs cover
+ * different time windows, so comparing across modes would report moves the data window caused.
+ * Snapshots are newest first.
+ */
+export function findBaselineSnapshot(snapshots: AnalysisSnapshot[], days: number): AnalysisSnapshot | null {
+  const [latest, ...earlier] = snapshots;
+  const sameMode = earlier.filter(snapshot => snapshot.mode === latest?.mode);
+  if (!latest || sameMode.length === 0) return null;
+  const cutoff = latest.takenAt.getTime() - days * 24 * 60 * 60 * 1000;
+  return sameMode.find(snapshot => snapshot.takenAt.getTime() <= cutoff) ?? sameMode[sameMode.length - 1];
+}
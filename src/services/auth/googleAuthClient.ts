@@ -0,0 +1,211 @@
+const DEBUG_GMAIL = import.meta.env.VITE_DEBUG_GMAIL === 'true';
+const GIS_SCRIPT_URL = 'https://accounts.google.com/gsi/client';
+const TOKEN_STORAGE_KEY = 'olx_google_token';
+
+export interface GoogleAuthConfig {
+  clientId: string;
+  scopes: string[];
+}
+
+interface GoogleTokenResponse {
+  access_token?: string;
+  expires_in?: number;
+  error?: string;
+  error_description?: string;
+}
+
+interface GoogleTokenClient {
+  requestAccessToken(overrides?: { prompt?: string }): void;
+}
+
+interface GoogleIdentityServices {
+  accounts: {
+    oauth2: {
+      initTokenClient(config: {
+        client_id: string;
+        scope: string;
+        callback: (response: GoogleTokenResponse) => void;
+        error_callback?: (error: { type: string; message?: string }) => void;
+      }): GoogleTokenClient;
+      revoke(token: string, done?: () => void): void;
+    };
+  };
+}
+
+declare global {
+  interface Window {
+    google?: GoogleIdentityServices;
+  }
+}
+
+type StoredToken = { accessToken: string; expiresAt: number };
+
+/**
+ * Browser OAuth client for Google APIs built on Google Identity Services (token model).
+ * Mirrors the MsalClient surface so the Gmail provider can be used like the Graph one.
+ */
+export class GoogleAuthClient {
+  private readonly config: GoogleAuthConfig;
+  private tokenClient: GoogleTokenClient | null = null;
+  private pending: { resolve: (token: string | null) => void; reject: (error: Error) => void } | null = null;
+  // The open token request; GIS answers one request at a time, so later callers wait for it
+  private pendingRequest: Promise<string | null> | null = null;
+  // Shared by concurrent getAccessToken callers, so an expired token is refreshed (or a popup opened) once
+  private refreshing: Promise<string | null> | null = null;
+
+  constructor(config: GoogleAuthConfig) {
+    this.config = config;
+  }
+
+  async initialize(): Promise<void> {
+    try {
+      await this.loadScript();
+      const oauth2 = window.google!.accounts.oauth2;
+      this.tokenClient = oauth2.initTokenClient({
+        client_id: this.config.clientId,
+        scope: this.config.scopes.join(' '),
+        callback: (response) => this.handleTokenResponse(response),
+        error_callback: (error) => {
+          this.pending?.reject(new Error(error.message || `Google sign-in failed: ${error.type}`));
+          this.pending = null;
+        },
+      });
+      if (DEBUG_GMAIL) console.log('Google Identity Services initialized successfully');
+    } catch (error) {
+      console.error('Failed to initialize Google Identity Services:', error);
+      throw error;
+    }
+  }
+
+  async signIn(): Promise<string | null> {
+    try {
+      const token = await this.requestToken('select_account');
+      if (DEBUG_GMAIL) console.log('User signed in to Google successfully');
+      return token;
+    } catch (error) {
+      console.error('Google sign in failed:', error);
+      throw error;
+    }
+  }
+
+  async signOut(): Promise<void> {
+    const stored = this.readToken();
+    this.clearToken();
+    if (stored && window.google) {
+      await new Promise<void>(resolve => window.google!.accounts.oauth2.revoke(stored.accessToken, () => resolve()));
+      if (DEBUG_GMAIL) console.log('Google token revoked');
+    }
+  }
+
+  hasValidToken(): boolean {
+    const stored = this.readToken();
+    return !!stored && stored.expiresAt > Date.now();
+  }
+
+  async getAccessToken(): Promise<string | null> {
+    const stored = this.readToken();
+    // Refresh a minute early so long-running fetches don't fail mid-way
+    if (stored && stored.expiresAt - 60_000 > Date.now()) {
+      return stored.accessToken;
+    }
+
+    if (!this.refreshing) {
+      this.refreshing = this.refreshToken().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  private async refreshToken(): Promise<string | null> {
+    try {
+      if (DEBUG_GMAIL) console.log('Attempting to acquire Google token silently...');
+      return await this.requestToken('');
+    } catch (error) {
+      console.error('Failed to get Google access token:', error);
+      try {
+        return await this.signIn();
+      } catch (loginError) {
+        console.error('Interactive Google login failed:', loginError);
+        return null;
+      }
+    }
+  }
+
+  async debugAuthStatus(): Promise<void> {
+    if (!DEBUG_GMAIL) return;
+    console.log('=== GOOGLE AUTH DEBUG INFO ===');
+    console.log('Token client initialized:', !!this.tokenClient);
+    console.log('Scopes:', this.config.scopes);
+    const stored = this.readToken();
+    console.log('Stored token:', !!stored);
+    if (stored) console.log('Token expires in (s):', Math.round((stored.expiresAt - Date.now()) / 1000));
+    console.log('=== END GOOGLE AUTH DEBUG ===');
+  }
+
+  private async requestToken(prompt: string): Promise<string | null> {
+    if (!this.tokenClient) await this.initialize();
+    if (this.pendingRequest) return this.pendingRequest;
+    this.pendingRequest = new Promise<string | null>((resolve, reject) => {
+      this.pending = { resolve, reject };
+      this.tokenClient!.requestAccessToken({ prompt });
+    }).finally(() => {
+      this.pendingRequest = null;
+    });
+    return this.pendingRequest;
+  }
+
+  private handleTokenResponse(response: GoogleTokenResponse): void {
+    const pending = this.pending;
+    this.pending = null;
+    if (response.error || !response.access_token) {
+      pending?.reject(new Error(response.error_description || response.error || 'No access token returned'));
+      return;
+    }
+    this.writeToken({
+      accessToken: response.access_token,
+      expiresAt: Date.now() + (response.expires_in ?? 3600) * 1000,
+    });
+    pending?.resolve(response.access_token);
+  }
+
+  private loadScript(): Promise<void> {
+    if (window.google?.accounts?.oauth2) return Promise.resolve();
+    return new Promise<void>((resolve, reject) => {
+      const existing = document.querySelector<HTMLScriptElement>(`script[src="${GIS_SCRIPT_URL}"]`);
+      const script = existing ?? document.createElement('script');
+      script.addEventListener('load', () => resolve());
+      script.addEventListener('error', () => reject(new Error('Failed to load Google Identity Services')));
+      if (!existing) {
+        script.src = GIS_SCRIPT_URL;
+        script.async = true;
+        document.head.appendChild(script);
+      }
+    });
+  }
+
+  private readToken(): StoredToken | null {
+    try {
+      const raw = sessionStorage.getItem(TOKEN_STORAGE_KEY);
+      return raw ? (JSON.parse(raw) as StoredToken) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private writeToken(token: StoredToken): void {
+    try {
+      sessionStorage.setItem(TOKEN_STORAGE_KEY, JSON.stringify(token));
+    } catch {
+      // ignore
+    }
+  }
+
+  private clearToken(): void {
+    try {
+      sessionStorage.removeItem(TOKEN_STORAGE_KEY);
+    } catch {
+      // ignore
+    }
+  }
+}
@@ -0,0 +1,107 @@
+import type { AutomatedOverrides, EmailInteraction } from '../types/contact';
+
+const STORAGE_KEY = 'olx_automated_overrides';
+
+// Local parts used by machines rather than people
+const AUTOMATED_LOCAL_PART = /^(no-?reply|do-?not-?reply|donotreply|mailer-daemon|postmaster|bounces?|notifications?|notify|alerts?|newsletters?|automated|auto-confirm|calendar-notification|invitations?)([+._-].*)?$/;
+
+// Newsletter, ticketing and notification platforms that send on behalf of others
+const AUTOMATED_DOMAIN_SUFFIXES = [
+  'zendesk.com',
+  'freshdesk.com',
+  'atlassian.net',
+  'sendgrid.net',
+  'mcsv.net',
+  'mailchimpapp.com',
+  'hubspotemail.net',
+  'amazonses.com',
+  'bounces.google.com',
+];
+
+// One-directional traffic: this many received messages without a single direct mail from us
+const ONE_WAY_MIN_RECEIVED = 10;
+// Share of received messages with bulk/auto headers that marks a sender as automated
+const HEADER_SHARE = 0.5;
+
+const EMPTY_OVERRIDES: AutomatedOverrides = { contacts: {}, domains: {} };
+
+/**
+ * Whether a message's headers mark it as bulk or machine-sent (RFC 2369 List-Unsubscribe,
+ * RFC 3834 Auto-Submitted, Precedence: bulk/list/junk)
+ */
+export function hasAutomatedHeaders(header: (name: string) => string | undefined): boolean {
+  if (header('List-Unsubscribe')) return true;
+  const autoSubmitted = (header('Auto-Submitted') || '').trim().toLowerCase();
+  if (autoSubmitted && autoSubmitted !== 'no') return true;
+  return ['bulk', 'list', 'junk'].includes((header('Precedence') || '').trim().toLowerCase());
+}
+
+const domainOf = (email: string) => (email.split('@')[1] || '').toLowerCase();
+
+/**
+ * Reasons a sender looks automated, from its address, the headers on its mail and the shape
+ * of the traffic. Empty when it looks like a person.
+ */
+export function detectAutomatedSender(email: string, interactions: EmailInteraction[]): string[] {
+  const reasons: string[] = [];
+  const [local = '', domain = ''] = email.toLowerCase().split('@');
+
+  if (AUTOMATED_LOCAL_PART.test(local)) reasons.push(`Address looks automated (${local}@)`);
+  if (AUTOMATED_DOMAIN_SUFFIXES.some(suffix => domain === suffix || domain.endsWith(`.${suffix}`))) {
+    reasons.push(`Sent through a bulk mail or ticketing platform (${domain})`);
+  }
+
+  // Only mail the contact authored says anything about them
+  const authored = interactions.filter(i => i.direction === 'received' && (!i.role || i.role === 'from'));
+  const withHeaders = authored.filter(i => i.automatedHeaders).length;
+  if (authored.length > 0 && withHeaders / authored.length >= HEADER_SHARE) {
+    reasons.push(`${withHeaders} of ${authored.length} messages are bulk or auto-submitted`);
+  }
+
+  const sentDirect = interactions.some(i => i.direction === 'sent' && (!i.role || i.role === 'to'));
+  if (!sentDirect && authored.length >= ONE_WAY_MIN_RECEIVED) {
+    reasons.push(`${authored.length} messages received and never written to`);
+  }
+
+  return reasons;
+}
+
+/**
+ * Final automated flag: the user's contact override, then their domain override, then detection
+ */
+export function isAutomatedSender(email: string, detectedReasons: string[], overrides: AutomatedOverrides): boolean {
+  const address = email.toLowerCase();
+  if (address in overrides.contacts) return overrides.contacts[address];
+  const domain = domainOf(address);
+  if (domain in overrides.domains) return overrides.domains[domain];
+  return detectedReasons.length > 0;
+}
+
+export function loadAutomatedOverrides(): AutomatedOverrides {
+  try {
+    const raw = typeof window !== 'undefined' ? window.localStorage.getItem(STORAGE_KEY) : null;
+    if (!raw) return EMPTY_OVERRIDES;
+    return { ...EMPTY_OVERRIDES, ...(JSON.parse(raw) as AutomatedOverrides) };
+  } catch (error) {
+    console.warn('Failed to load automated sender overrides:', error);
+    return EMPTY_OVERRIDES;
+  }
+}
+
+/**
+ * Sets (true/false) or clears (null) the override for a contact address or a whole domain
+ */
+export function setAutomatedOverride(scope: 'contact' | 'domain', email: string, value: boolean | null): AutomatedOverrides {
+  const current = loadAutomatedOverrides();
+  const next: AutomatedOverrides = { contacts: { ...current.contacts }, domains: { ...current.domains } };
+  const target = scope === 'contact' ? next.contacts : next.domains;
+  const key = scope === 'contact' ? email.toLowerCase() : domainOf(email);
+  if (value === null) delete target[key];
+  else target[key] = value;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch (error) {
+    console.warn('Failed to save automated sender overrides:', error);
+  }
+  return next;
+}
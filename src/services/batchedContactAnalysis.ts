@@ -2,7 +2,12 @@ import { ProgressTracker, type ProgressUpdate } from './progressTracker';
 // Vite worker constructor import (bundles dependencies automatically)
 // @ts-ignore
 import AnalysisWorker from './workers/contactAnalysisWorker.ts?worker';
-import type { ContactWithAnalysis } from '../types/contact';
+import { getActiveAnalysisStore, getActiveMailbox } from './mailboxes';
+import { loadCategoryRules } from './categoryRules';
+import { ContactAnalysisService } from './contactAnalysisService';
+import { loadIdentityDecisions } from './identityResolution';
+import { loadAutomatedOverrides } from './automatedSenders';
+import type { AutomatedOverrides, ContactAnalysisConfig, ContactCandidate, ContactWithAnalysis } from '../types/contact';
 import type { EmailInteraction } from '../types/contact';
 
 export interface BatchedAnalysisOptions {
@@ -13,19 +18,16 @@ export interface BatchedAnalysisOptions {
   onError?: (error: Error) => void;
 }
 
-type SerializableInteraction = {
-  id: string;
-  contactId: string;
-  subject: string;
-  date: number;
-  direction: 'sent' | 'received';
-  isRead: boolean;
-  isReplied: boolean;
-  threadId?: string;
-};
+type SerializableInteraction = Omit<EmailInteraction, 'date'> & { date: number };
+
+// Workers read interactions from IndexedDB when it is available; the inline map is the fallback.
+// The store is aligned with the run from `since` on, so workers read by contact and that date.
+type WorkerInteractionSource =
+  | { source: 'store'; mailboxId: string; since: number }
+  | { source: 'inline'; interactionsByContact: Record<string, SerializableInteraction[]> };
 
 type WorkerJobPayload = {
-  contacts: Array<{ id: string; name: string; email: string }>;
+  contacts: ContactCandidate[];
   chunkSize: number;
 };
 
@@ -48,14 +50,20 @@ class WorkerPool {
   private readonly workers: WorkerWrapper[] = [];
   private readonly queue: WorkerTask[] = [];
   private readonly maxWorkers: number;
-  private readonly serializedInteractions: Record<string, SerializableInteraction[]>;
+  private readonly interactionSource: WorkerInteractionSource;
+  private readonly categoryRules: ContactAnalysisConfig;
+  private readonly automatedOverrides: AutomatedOverrides;
 
   constructor(
     maxWorkers: number,
-    serializedInteractions: Record<string, SerializableInteraction[]>
+    interactionSource: WorkerInteractionSource,
+    categoryRules: ContactAnalysisConfig,
+    automatedOverrides: AutomatedOverrides
   ) {
     this.maxWorkers = maxWorkers;
-    this.serializedInteractions = serializedInteractions;
+    this.interactionSource = interactionSource;
+    this.categoryRules = categoryRules;
+    this.automatedOverrides = automatedOverrides;
   }
 
   runJob(
@@ -112,7 +120,8 @@ class WorkerPool {
       const data = event.data as
         | { type: 'ready' }
         | { jobId: string; type: 'progress'; processed?: number; total?: number }
-        | { jobId: string; type: 'result'; analyzedContacts?: ContactWithAnalysis[] };
+        | { jobId: string; type: 'result'; analyzedContacts?: ContactWithAnalysis[] }
+        | { jobId: string; type: 'error'; message: string };
 
       if (!data) {
         return;
@@ -146,6 +155,16 @@ class WorkerPool {
           task.reject(error as Error);
         }
         this.processQueue();
+        return;
+      }
+
+      if (data.type === 'error') {
+        wrapper.worker.removeEventListener('message', messageHandler);
+        wrapper.worker.removeEventListener('error', errorHandler);
+        wrapper.busy = false;
+        wrapper.currentTask = undefined;
+        task.reject(new Error(data.message));
+        this.processQueue();
       }
     };
 
@@ -193,7 +212,12 @@ class WorkerPool {
     };
 
     worker.addEventListener('message', onMessage);
-    worker.postMessage({ type: 'init', interactionsByContact: this.serializedInteractions });
+    worker.postMessage({
+      type: 'init',
+      categoryRules: this.categoryRules,
+      automatedOverrides: this.automatedOverrides,
+      ...this.interactionSource,
+    });
 
     this.workers.push(wrapper);
   }
@@ -210,7 +234,7 @@ export class BatchedContactAnalysis {
    * Analyze contacts in batches for better performance with large datasets
    */
   async analyzeContactsInBatches(
-    contacts: Array<{ id: string; name: string; email: string }>,
+    candidates: ContactCandidate[],
     emailInteractions: EmailInteraction[],
     options: BatchedAnalysisOptions = {}
   ): Promise<ContactWithAnalysis[]> {
@@ -233,6 +257,10 @@ export class BatchedContactAnalysis {
     const metrics = { startTime: performance.now(), stages: new Map<string, number>() };
 
     try {
+      // Merges span batches, so they are applied here rather than in the workers
+      const categoryRules = loadCategoryRules();
+      const contacts = new ContactAnalysisService(categoryRules, loadIdentityDecisions().merges)
+        .applyIdentityMerges(candidates);
       const totalContacts = contacts.length;
       const totalBatches = Math.ceil(totalContacts / batchSize);
       
@@ -270,20 +298,26 @@ export class BatchedContactAnalysis {
         }
       });
 
+      // Persist interactions so each worker reads only its contacts' history from IndexedDB
       const serializeStart = performance.now();
-      const serializedInteractionsByContact: Record<string, SerializableInteraction[]> = {};
-      interactionsByContact.forEach((interactionList, contactId) => {
-        serializedInteractionsByContact[contactId] = interactionList.map(interaction => ({
-          id: interaction.id,
-          contactId: interaction.contactId,
-          subject: interaction.subject,
-          date: interaction.date.getTime(),
-          direction: interaction.direction,
-          isRead: interaction.isRead,
-          isReplied: interaction.isReplied,
-          threadId: interaction.threadId,
-        }));
-      });
+      let interactionSource: WorkerInteractionSource;
+      try {
+        const since = emailInteractions.reduce((earliest, i) => Math.min(earliest, i.date.getTime()), Date.now());
+        // Mail from the delta sync is stored already; only the rest of the run is written
+        const written = await getActiveAnalysisStore().alignAnalysisWindow(new Date(since), emailInteractions);
+        console.log(`Interaction store aligned with the run (${written} of ${emailInteractions.length} written)`);
+        interactionSource = { source: 'store', mailboxId: getActiveMailbox(), since };
+      } catch (error) {
+        console.warn('Interaction store unavailable, sending interactions to workers inline:', error);
+        const serializedInteractionsByContact: Record<string, SerializableInteraction[]> = {};
+        interactionsByContact.forEach((interactionList, contactId) => {
+          serializedInteractionsByContact[contactId] = interactionList.map(interaction => ({
+            ...interaction,
+            date: interaction.date.getTime(),
+          }));
+        });
+        interactionSource = { source: 'inline', interactionsByContact: serializedInteractionsByContact };
+      }
 
       metrics.stages.set('serialization_ms', performance.now() - serializeStart);
       metrics.stages.set('prep_ms', performance.now() - prepStart);
@@ -294,7 +328,7 @@ export class BatchedContactAnalysis {
       this.progressTracker.updateStageProgress('analyzing_contacts', 0, totalContacts, 'Starting contact analysis...');
       
       const analyzedContacts: ContactWithAnalysis[] = [];
-      const batches: Array<{ id: string; name: string; email: string }[]> = [];
+      const batches: ContactCandidate[][] = [];
 
       for (let i = 0; i < totalContacts; i += batchSize) {
         batches.push(contacts.slice(i, i + batchSize));
@@ -309,7 +343,7 @@ export class BatchedContactAnalysis {
       const jobProgress = new Map<string, number>();
       const analysisStart = performance.now();
 
-      workerPool = new WorkerPool(maxConcurrentBatches, serializedInteractionsByContact);
+      workerPool = new WorkerPool(maxConcurrentBatches, interactionSource, categoryRules, loadAutomatedOverrides());
 
       const batchPromises = batches.map((batch, index) => {
         const jobId = `batch-${index}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
@@ -0,0 +1,108 @@
+import { getActiveMailbox } from './mailboxes';
+import type { Campaign, CampaignRecipient } from '../types';
+import type { ContactWithAnalysis } from '../types/contact';
+import type { EmailTemplate } from '../types/email';
+import { textToHtml } from '../utils/llmPrompt';
+import { isCrosswareEmail, isResellerEmail } from '../utils/segmentation';
+import { buildTemplateContext, renderTemplate } from '../utils/templateEngine';
+
+const STORAGE_KEY = 'olx_campaigns';
+// Written by useContactsFilter when a contact is snoozed
+const SNOOZE_KEY = 'olx_snoozed_until';
+
+// Graph allows about 30 messages a minute per mailbox; batches stay well below that
+export const CAMPAIGN_BATCH_SIZE = 10;
+export const CAMPAIGN_BATCH_INTERVAL_MS = 30 * 1000;
+
+export function loadCampaigns(): Campaign[] {
+  try {
+    const raw = typeof window !== 'undefined' ? window.localStorage.getItem(STORAGE_KEY) : null;
+    if (!raw) return [];
+    const parsed = JSON.parse(raw) as { version: number; campaigns: Campaign[] };
+    // A campaign that was sending when the app closed waits for the user to resume it
+    return (parsed.campaigns ?? []).map(c => (c.status === 'running' ? { ...c, status: 'paused' } : c));
+  } catch (error) {
+    console.warn('Failed to load campaigns:', error);
+    return [];
+  }
+}
+
+export function saveCampaigns(campaigns: Campaign[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: 1, campaigns }));
+  } catch (error) {
+    console.warn('Failed to save campaigns:', error);
+  }
+}
+
+function loadSnoozedUntil(): Record<string, string> {
+  try {
+    const raw = localStorage.getItem(SNOOZE_KEY);
+    return raw ? (JSON.parse(raw) as Record<string, string>) : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Why a contact must not get campaign mail (snoozed, Crossware or reseller), or null when they may.
+ * Checked when the campaign is built and again right before each send.
+ */
+export function getSuppressionReason(contact: { email: string; tags?: string[] }): string | null {
+  const snoozedUntil = loadSnoozedUntil()[contact.email];
+  if (snoozedUntil && new Date(snoozedUntil).getTime() > Date.now()) {
+    return `Snoozed until ${new Date(snoozedUntil).toLocaleDateString()}`;
+  }
+  if ((contact.tags || []).includes('crossware') || isCrosswareEmail(contact.email)) return 'Crossware contact';
+  if ((contact.tags || []).includes('reseller') || isResellerEmail(contact.email)) return 'Reseller contact';
+  return null;
+}
+
+/** Merges the template for one contact, the same variables the email editor fills in */
+export function mergeTemplateForContact(
+  template: EmailTemplate,
+  contact: ContactWithAnalysis,
+  senderName: string
+): { subject: string; htmlBody: string } {
+  const context = buildTemplateContext(contact, senderName);
+  return { subject: renderTemplate(template.subject, context), htmlBody: textToHtml(renderTemplate(template.body, context)) };
+}
+
+export function createCampaign(
+  name: string,
+  template: EmailTemplate,
+  contacts: ContactWithAnalysis[],
+  senderName: string
+): Campaign {
+  const seen = new Set<string>();
+  const recipients: CampaignRecipient[] = [];
+  for (const contact of contacts) {
+    const email = contact.email.toLowerCase();
+    if (seen.has(email)) continue;
+    seen.add(email);
+    const reason = getSuppressionReason(contact);
+    recipients.push({
+      contactId: contact.id,
+      email: contact.email,
+      name: contact.name,
+      ...mergeTemplateForContact(template, contact, senderName),
+      status: reason ? 'suppressed' : 'queued',
+      error: reason ?? undefined,
+    });
+  }
+  return {
+    id: `${Date.now()}:${template.id}`,
+    name,
+    templateId: template.id,
+    createdAt: new Date().toISOString(),
+    status: 'paused',
+    mailboxId: getActiveMailbox(),
+    recipients,
+  };
+}
+
+export function countRecipients(campaign: Campaign): Record<CampaignRecipient['status'], number> {
+  const counts = { queued: 0, sent: 0, failed: 0, suppressed: 0 };
+  campaign.recipients.forEach(r => counts[r.status]++);
+  return counts;
+}
@@ -0,0 +1,186 @@
+import type {
+  CategoryCondition,
+  CategoryMetric,
+  ContactAnalysis,
+  ContactAnalysisConfig,
+  ContactCategory,
+  EvaluatedCondition,
+  RuleEvaluation,
+} from '../types/contact';
+
+const STORAGE_KEY = 'olx_category_rules';
+
+export const CONTACT_CATEGORIES: readonly ContactCategory[] = ['recent', 'in_touch', 'inactive'];
+
+export const CATEGORY_METRICS: ReadonlyArray<{ metric: CategoryMetric; label: string; isRate?: boolean }> = [
+  { metric: 'daysSinceLastContact', label: 'Days since last contact' },
+  { metric: 'emailsLast30Days', label: 'Emails in last 30 days' },
+  { metric: 'emailsLast90Days', label: 'Emails in last 90 days' },
+  { metric: 'totalEmails', label: 'Total emails' },
+  { metric: 'sentEmails', label: 'Emails sent' },
+  { metric: 'receivedEmails', label: 'Emails received' },
+  { metric: 'responseRate', label: 'Response rate (0-1)', isRate: true },
+  { metric: 'averageResponseTime', label: 'Avg response time (hours)' },
+  { metric: 'conversationCount', label: 'Conversations' },
+  { metric: 'copiedEmails', label: 'Emails only copied on (CC/BCC)' },
+  { metric: 'meetings', label: 'Meetings' },
+  { metric: 'meetingsLast90Days', label: 'Meetings in last 90 days' },
+];
+
+/** The rules ContactAnalyzer used to hardcode */
+export const DEFAULT_CATEGORY_RULES: ContactAnalysisConfig = {
+  version: 1,
+  rules: [
+    {
+      id: 'recent',
+      category: 'recent',
+      conditionGroups: [
+        [{ metric: 'daysSinceLastContact', operator: '<=', value: 30 }],
+        [{ metric: 'emailsLast30Days', operator: '>=', value: 2 }],
+        [
+          { metric: 'emailsLast90Days', operator: '>=', value: 5 },
+          { metric: 'responseRate', operator: '>=', value: 0.2 },
+        ],
+      ],
+    },
+    {
+      id: 'in_touch',
+      category: 'in_touch',
+      conditionGroups: [
+        [
+          { metric: 'totalEmails', operator: '>=', value: 3 },
+          { metric: 'responseRate', operator: '>=', value: 0.3 },
+          { metric: 'daysSinceLastContact', operator: '<=', value: 120 },
+        ],
+      ],
+    },
+  ],
+  fallbackCategory: 'inactive',
+  customCategories: [],
+};
+
+export type CategoryRuleMatch = Pick<ContactAnalysis, 'category' | 'customCategory' | 'ruleId'> & {
+  evaluations: RuleEvaluation[];
+};
+
+function evaluateCondition(condition: CategoryCondition, metrics: ContactAnalysis['metrics']): EvaluatedCondition {
+  const actual = metrics[condition.metric];
+  const passed = condition.operator === '>=' ? actual >= condition.value : actual <= condition.value;
+  return { ...condition, actual, passed };
+}
+
+/**
+ * Returns the category of the first rule whose conditions match (or the fallback), together
+ * with the evaluation of every rule checked on the way
+ */
+export function evaluateCategoryRules(config: ContactAnalysisConfig, metrics: ContactAnalysis['metrics']): CategoryRuleMatch {
+  const evaluations: RuleEvaluation[] = [];
+  for (const rule of config.rules) {
+    const conditionGroups = rule.conditionGroups.map(group => group.map(condition => evaluateCondition(condition, metrics)));
+    const matched = conditionGroups.some(group => group.every(condition => condition.passed));
+    const customCategory = rule.customCategoryId
+      ? config.customCategories.find(c => c.id === rule.customCategoryId)?.label
+      : undefined;
+    evaluations.push({ ruleId: rule.id, category: rule.category, customCategory, conditionGroups, matched });
+    if (matched) {
+      return { category: rule.category, customCategory, ruleId: rule.id, evaluations };
+    }
+  }
+  return { category: config.fallbackCategory, evaluations };
+}
+
+export function getMetricLabel(metric: CategoryMetric): string {
+  return CATEGORY_METRICS.find(m => m.metric === metric)?.label ?? metric;
+}
+
+/**
+ * Validates a rule configuration; returns human-readable problems (empty when valid)
+ */
+export function validateCategoryRules(config: ContactAnalysisConfig): string[] {
+  const errors: string[] = [];
+  const metricNames = new Set(CATEGORY_METRICS.map(m => m.metric));
+  const customIds = new Set<string>();
+
+  if (!CONTACT_CATEGORIES.includes(config.fallbackCategory)) {
+    errors.push(`Unknown fallback category "${config.fallbackCategory}"`);
+  }
+
+  config.customCategories.forEach((custom, index) => {
+    if (!custom.id.trim()) errors.push(`Custom category ${index + 1} has no id`);
+    if (!custom.label.trim()) errors.push(`Custom category ${index + 1} has no label`);
+    if (customIds.has(custom.id)) errors.push(`Duplicate custom category id "${custom.id}"`);
+    customIds.add(custom.id);
+  });
+
+  const ruleIds = new Set<string>();
+  config.rules.forEach((rule, index) => {
+    const name = `Rule ${index + 1} (${rule.id || 'unnamed'})`;
+    if (!rule.id.trim()) errors.push(`Rule ${index + 1} has no id`);
+    if (ruleIds.has(rule.id)) errors.push(`Duplicate rule id "${rule.id}"`);
+    ruleIds.add(rule.id);
+
+    if (!CONTACT_CATEGORIES.includes(rule.category)) errors.push(`${name}: unknown category "${rule.category}"`);
+    if (rule.customCategoryId && !customIds.has(rule.customCategoryId)) {
+      errors.push(`${name}: unknown custom category "${rule.customCategoryId}"`);
+    }
+    if (rule.conditionGroups.length === 0) errors.push(`${name}: needs at least one condition group`);
+
+    rule.conditionGroups.forEach((group, groupIndex) => {
+      if (group.length === 0) errors.push(`${name}: condition group ${groupIndex + 1} is empty`);
+      group.forEach(condition => {
+        if (!metricNames.has(condition.metric)) errors.push(`${name}: unknown metric "${condition.metric}"`);
+        if (condition.operator !== '>=' && condition.operator !== '<=') {
+          errors.push(`${name}: unknown operator "${condition.operator}"`);
+        }
+        if (!Number.isFinite(condition.value) || condition.value < 0) {
+          errors.push(`${name}: ${condition.metric} needs a non-negative number`);
+        } else if (condition.metric === 'responseRate' && condition.value > 1) {
+          errors.push(`${name}: response rate must be between 0 and 1`);
+        }
+      });
+    });
+  });
+
+  return errors;
+}
+
+/**
+ * Loads the saved rule configuration, falling back to the defaults when none is saved
+ * or the saved one no longer validates
+ */
+export function loadCategoryRules(): ContactAnalysisConfig {
+  try {
+    const raw = typeof window !== 'undefined' ? window.localStorage.getItem(STORAGE_KEY) : null;
+    if (!raw) return DEFAULT_CATEGORY_RULES;
+    const parsed = JSON.parse(raw) as ContactAnalysisConfig;
+    const errors = validateCategoryRules(parsed);
+    if (errors.length > 0) {
+      console.warn('Saved category rules are invalid, using defaults:', errors);
+      return DEFAULT_CATEGORY_RULES;
+    }
+    return parsed;
+  } catch (error) {
+    console.warn('Failed to load category rules:', error);
+    return DEFAULT_CATEGORY_RULES;
+  }
+}
+
+/**
+ * Validates and persists a rule configuration; throws with the validation errors if invalid
+ */
+export function saveCategoryRules(config: ContactAnalysisConfig): void {
+  const errors = validateCategoryRules(config);
+  if (errors.length > 0) {
+    throw new Error(`Invalid category rules: ${errors.join('; ')}`);
+  }
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+}
+
+export function resetCategoryRules(): ContactAnalysisConfig {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // ignore
+  }
+  return DEFAULT_CATEGORY_RULES;
+}
@@ -0,0 +1,66 @@
+import type { CategoryChange } from './mailProvider';
+import type { ContactWithAnalysis } from '../types/contact';
+import { getCategoryLabel } from '../utils/contactCategory';
+
+/** Categories written by the analysis carry this prefix; all others belong to the user and are kept */
+export const OLX_CATEGORY_PREFIX = 'OLX: ';
+
+/** An address book entry with the addresses it is reachable under and its current categories */
+export interface AddressBookEntry {
+  id: string;
+  emails: string[];
+  categories: string[];
+}
+
+/**
+ * The analysis categories of a contact: its category and, when a rule matched, its custom category
+ */
+export function olxCategoriesFor(contact: ContactWithAnalysis): string[] {
+  const categories = [`${OLX_CATEGORY_PREFIX}${getCategoryLabel(contact.category)}`];
+  if (contact.customCategory) categories.push(`${OLX_CATEGORY_PREFIX}${contact.customCategory}`);
+  return categories;
+}
+
+const sameCategories = (a: string[], b: string[]) => {
+  const set = new Set(a);
+  return a.length === b.length && b.every(value => set.has(value));
+};
+
+/**
+ * Changes needed to bring the address book in line with the analysis. Entries are matched by any of
+ * the contact's addresses; the user's own categories stay, earlier OLX categories are replaced.
+ * Contacts without an entry get one only with createMissing, and automated senders never do.
+ */
+export function planCategoryChanges(
+  contacts: ContactWithAnalysis[],
+  entries: AddressBookEntry[],
+  options: { createMissing: boolean }
+): CategoryChange[] {
+  const entryByEmail = new Map<string, AddressBookEntry>();
+  entries.forEach(entry => entry.emails.forEach(email => {
+    if (!entryByEmail.has(email)) entryByEmail.set(email, entry);
+  }));
+
+  const changes: CategoryChange[] = [];
+  const planned = new Set<string>();
+  contacts.forEach(contact => {
+    const entry = [contact.email, ...(contact.aliases ?? [])]
+      .map(email => entryByEmail.get(email.toLowerCase()))
+      .find(Boolean);
+    const olx = olxCategoriesFor(contact);
+
+    if (!entry) {
+      if (!options.createMissing || contact.tags.includes('automated')) return;
+      changes.push({ email: contact.email, name: contact.name, before: [], after: olx });
+      return;
+    }
+    // Two analyzed addresses can share one entry; the first (primary) one decides
+    if (planned.has(entry.id)) return;
+    planned.add(entry.id);
+
+    const after = [...entry.categories.filter(c => !c.startsWith(OLX_CATEGORY_PREFIX)), ...olx];
+    if (sameCategories(entry.categories, after)) return;
+    changes.push({ email: contact.email, name: contact.name, contactId: entry.id, before: entry.categories, after });
+  });
+  return changes;
+}
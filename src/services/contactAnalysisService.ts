@@ -1,8 +1,13 @@
 import type { 
+  AutomatedOverrides,
+  ContactAnalysisConfig,
+  ContactCandidate,
   ContactWithAnalysis, 
   EmailInteraction
 } from '../types/contact';
 import { ContactAnalyzer } from './contactAnalyzer';
+import { resolvePrimaryEmail } from './identityResolution';
+import { isAutomatedSender } from './automatedSenders';
 import { isCrosswareEmail, isResellerEmail } from '../utils/segmentation';
 
 /**
@@ -11,16 +16,111 @@ import { isCrosswareEmail, isResellerEmail } from '../utils/segmentation';
 export class ContactAnalysisService {
   private analyzer: ContactAnalyzer;
   private analysisCache: Map<string, ContactWithAnalysis> = new Map();
+  private identityMerges: Record<string, string>;
+  private automatedOverrides: AutomatedOverrides = { contacts: {}, domains: {} };
 
-  constructor() {
-    this.analyzer = new ContactAnalyzer();
+  constructor(config?: ContactAnalysisConfig, identityMerges: Record<string, string> = {}) {
+    this.analyzer = new ContactAnalyzer(config);
+    this.identityMerges = identityMerges;
+  }
+
+  /**
+   * Replaces the alias -> primary address merges applied before analysis
+   */
+  public setIdentityMerges(merges: Record<string, string>): void {
+    this.identityMerges = merges;
+    this.analysisCache.clear();
+  }
+
+  /**
+   * Replaces the user's automated-sender overrides used when tagging
+   */
+  public setAutomatedOverrides(overrides: AutomatedOverrides): void {
+    this.automatedOverrides = overrides;
+    this.analysisCache.clear();
+  }
+
+  /**
+   * Folds contacts whose address was merged into another contact into that contact's `aliases`,
+   * so their histories are analyzed together
+   */
+  public applyIdentityMerges(contacts: ContactCandidate[]): ContactCandidate[] {
+    if (Object.keys(this.identityMerges).length === 0) return contacts;
+
+    const merged = new Map<string, ContactCandidate>();
+    contacts.forEach(contact => {
+      if (resolvePrimaryEmail(contact.email, this.identityMerges) === contact.email) {
+        merged.set(contact.email, { ...contact, aliases: [...(contact.aliases ?? [])] });
+      }
+    });
+    contacts.forEach(contact => {
+      const primaryEmail = resolvePrimaryEmail(contact.email, this.identityMerges);
+      if (primaryEmail === contact.email) return;
+      let primary = merged.get(primaryEmail);
+      if (!primary) {
+        // Primary address has no history of its own in this run; it takes over the alias' details
+        primary = { id: primaryEmail, name: contact.name, email: primaryEmail, aliases: [], profile: contact.profile };
+        merged.set(primaryEmail, primary);
+      }
+      if (!primary.profile && contact.profile) primary.profile = contact.profile;
+      primary.aliases!.push(contact.email, ...(contact.aliases ?? []));
+    });
+    return Array.from(merged.values());
+  }
+
+  /**
+   * A contact's interactions together with those of its merged aliases, oldest first
+   */
+  private collectInteractions(contact: ContactCandidate, interactionsByContact: Map<string, EmailInteraction[]>): EmailInteraction[] {
+    const own = interactionsByContact.get(contact.id) || [];
+    if (!contact.aliases || contact.aliases.length === 0) return own;
+
+    // A message sent to two of the person's addresses counts once
+    const seen = new Set<string>();
+    const combined: EmailInteraction[] = [];
+    [own, ...contact.aliases.map(alias => interactionsByContact.get(alias) || [])].forEach(list => {
+      list.forEach(interaction => {
+        const key = `${interaction.id}:${interaction.direction}`;
+        if (seen.has(key)) return;
+        seen.add(key);
+        combined.push(interaction);
+      });
+    });
+    return combined.sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+
+  /**
+   * Replaces the category rules used for subsequent analyses
+   */
+  public setCategoryRules(config: ContactAnalysisConfig): void {
+    this.analyzer.setConfig(config);
+    this.analysisCache.clear();
+  }
+
+  /**
+   * Re-evaluates categories of already analyzed contacts with the current rules - no mail is refetched
+   */
+  public recategorizeContacts(contacts: ContactWithAnalysis[]): ContactWithAnalysis[] {
+    return contacts.map(contact => {
+      const analysis = this.analyzer.reclassify(contact.analysis, contact.lastContactDate);
+      const recategorized: ContactWithAnalysis = {
+        ...contact,
+        category: analysis.category,
+        customCategory: analysis.customCategory,
+        analysis,
+        isActive: analysis.category === 'recent',
+        tags: this.generateTags(contact.email, analysis)
+      };
+      this.analysisCache.set(contact.id, recategorized);
+      return recategorized;
+    });
   }
 
   /**
    * Analyzes all contacts and returns updated contact list with analysis - OPTIMIZED
    */
   public analyzeContacts(
-    contacts: Array<{ id: string; name: string; email: string }>,
+    contacts: ContactCandidate[],
     emailInteractions: EmailInteraction[]
   ): ContactWithAnalysis[] {
     // Pre-group interactions by contact for O(1) lookup instead of O(n) filtering
@@ -32,8 +132,8 @@ export class ContactAnalysisService {
       interactionsByContact.get(interaction.contactId)!.push(interaction);
     }
 
-    return contacts.map(contact => {
-      const contactInteractions = interactionsByContact.get(contact.id) || [];
+    return this.applyIdentityMerges(contacts).map(contact => {
+      const contactInteractions = this.collectInteractions(contact, interactionsByContact);
       // Ensure interactions are sorted by date ascending once per contact
       if (contactInteractions.length > 1) {
         contactInteractions.sort((a, b) => a.date.getTime() - b.date.getTime());
@@ -62,10 +162,13 @@ export class ContactAnalysisService {
         id: contact.id,
         name: contact.name,
         email: contact.email,
+        aliases: contact.aliases,
+        profile: contact.profile,
         category: analysis.category,
+        customCategory: analysis.customCategory,
         analysis,
         lastContactDate,
-        emailCount: contactInteractions.length,
+        emailCount: contactInteractions.filter(i => i.channel !== 'meeting').length,
         responseRate: analysis.metrics.responseRate,
         isActive: analysis.category === 'recent',
         lastEmailSubject,
@@ -82,7 +185,7 @@ export class ContactAnalysisService {
    * Analyze contacts with pre-grouped interactions - ULTRA FAST for batch processing
    */
   public analyzeContactsWithGroupedInteractions(
-    contacts: Array<{ id: string; name: string; email: string }>,
+    contacts: ContactCandidate[],
     interactionsByContact: Map<string, EmailInteraction[]>
   ): ContactWithAnalysis[] {
     // Sort all interactions once, upfront
@@ -95,7 +198,7 @@ export class ContactAnalysisService {
     }
 
     return contacts.map(contact => {
-      const contactInteractions = sortedInteractionsByContact.get(contact.id) || [];
+      const contactInteractions = this.collectInteractions(contact, sortedInteractionsByContact);
 
       const analysis = this.analyzer.analyzeContact(contact.id, contactInteractions);
       
@@ -118,10 +221,13 @@ export class ContactAnalysisService {
         id: contact.id,
         name: contact.name,
         email: contact.email,
+        aliases: contact.aliases,
+        profile: contact.profile,
         category: analysis.category,
+        customCategory: analysis.customCategory,
         analysis,
         lastContactDate,
-        emailCount: contactInteractions.length,
+        emailCount: contactInteractions.filter(i => i.channel !== 'meeting').length,
         responseRate: analysis.metrics.responseRate,
         isActive: analysis.category === 'recent',
         lastEmailSubject,
@@ -202,7 +308,7 @@ export class ContactAnalysisService {
   /**
    * Generates tags based on analysis
    */
-  private generateTags(email: string, analysis: { metrics: { responseRate: number; daysSinceLastContact: number; totalEmails: number }; category: string }): string[] {
+  private generateTags(email: string, analysis: { metrics: { responseRate: number; daysSinceLastContact: number; totalEmails: number }; category: string; cooling?: boolean; automatedReasons?: string[] }): string[] {
     const tags: string[] = [];
 
     if (analysis.metrics.responseRate > 0.8) {
@@ -221,6 +327,14 @@ export class ContactAnalysisService {
       tags.push('reconnect-opportunity');
     }
 
+    if (analysis.cooling) {
+      tags.push('cooling');
+    }
+
+    if (isAutomatedSender(email, analysis.automatedReasons ?? [], this.automatedOverrides)) {
+      tags.push('automated');
+    }
+
     // Add segmentation tags
     if (isCrosswareEmail(email)) {
       tags.push('crossware');
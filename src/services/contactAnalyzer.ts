@@ -1,14 +1,41 @@
 import type { 
   ContactAnalysis, 
+  ContactAnalysisConfig,
   ContactCategory, 
-  EmailInteraction 
+  ContactTrend,
+  EmailInteraction,
+  ScoreFactor
 } from '../types/contact';
+import { DEFAULT_CATEGORY_RULES, evaluateCategoryRules, type CategoryRuleMatch } from './categoryRules';
+import { calculateContactTrend, COOLING_GAP_MULTIPLIER, isCooling, type ResponseSample } from './contactTrends';
+import { detectAutomatedSender } from './automatedSenders';
+
+const SCORE_BASE = 50;
+
+/**
+ * Whether the contact was addressed directly: a To recipient of our mail or the author of theirs.
+ * Interactions stored before roles were recorded only ever held direct touches.
+ */
+export function isDirectInteraction(interaction: EmailInteraction): boolean {
+  if (interaction.channel === 'meeting') return false;
+  if (!interaction.role) return true;
+  return interaction.direction === 'sent' ? interaction.role === 'to' : interaction.role === 'from';
+}
 
 /**
  * Contact Analysis Engine
  * Analyzes email communication patterns to automatically categorize contacts
  */
 export class ContactAnalyzer {
+  private config: ContactAnalysisConfig;
+
+  constructor(config: ContactAnalysisConfig = DEFAULT_CATEGORY_RULES) {
+    this.config = config;
+  }
+
+  public setConfig(config: ContactAnalysisConfig): void {
+    this.config = config;
+  }
 
   /**
    * Analyzes a contact's email interactions and determines their category
@@ -17,26 +44,71 @@ export class ContactAnalyzer {
     contactId: string, 
     interactions: EmailInteraction[]
   ): ContactAnalysis {
-    const metrics = this.calculateMetrics(interactions);
-    const category = this.determineCategory(metrics);
-    const score = this.calculateConfidenceScore(metrics, category);
-    const insights = this.generateInsights(metrics, category);
+    // Meetings only count towards recency; every mail-based measure looks at email alone
+    const emails = interactions.filter(i => i.channel !== 'meeting');
+    const meetings = interactions.filter(i => i.channel === 'meeting');
+    // Replies and reply times only make sense between us and the contact directly, not via CC
+    const directInteractions = emails.filter(isDirectInteraction);
+    const responseSamples = this.collectResponseSamples(directInteractions);
+    const metrics = this.calculateMetrics(emails, directInteractions, responseSamples, meetings);
+    const trend = calculateContactTrend(emails, responseSamples);
+    const cooling = isCooling(trend, metrics.daysSinceLastContact);
+    const { evaluations, ...match } = this.determineCategory(metrics);
+    const { score, factors } = this.calculateConfidenceScore(metrics, match.category);
+    const insights = this.generateInsights(metrics, match.category, trend, cooling);
 
     return {
       contactId,
-      category,
+      ...match,
       score,
       metrics,
       insights,
+      trend,
+      cooling,
+      automatedReasons: detectAutomatedSender(contactId, emails),
+      explanation: { rules: evaluations, usedFallback: !match.ruleId, scoreBase: SCORE_BASE, scoreFactors: factors },
       lastAnalyzed: new Date()
     };
   }
 
   /**
-   * Calculates key metrics from email interactions - OPTIMIZED single-pass version
+   * Re-applies the category rules to an existing analysis without touching its interactions.
+   * Days since last contact is moved forward to today; windowed counts keep their analysis-time values.
    */
-  private calculateMetrics(interactions: EmailInteraction[]) {
-    if (interactions.length === 0) {
+  public reclassify(analysis: ContactAnalysis, lastContactDate: Date | null): ContactAnalysis {
+    const metrics = {
+      ...analysis.metrics,
+      daysSinceLastContact: lastContactDate
+        ? Math.floor((Date.now() - lastContactDate.getTime()) / (24 * 60 * 60 * 1000))
+        : Infinity,
+    };
+    const cooling = isCooling(analysis.trend, metrics.daysSinceLastContact);
+    const { evaluations, ...match } = this.determineCategory(metrics);
+    const { score, factors } = this.calculateConfidenceScore(metrics, match.category);
+    return {
+      ...analysis,
+      cooling,
+      category: match.category,
+      customCategory: match.customCategory,
+      ruleId: match.ruleId,
+      score,
+      metrics,
+      insights: this.generateInsights(metrics, match.category, analysis.trend, cooling),
+      explanation: { rules: evaluations, usedFallback: !match.ruleId, scoreBase: SCORE_BASE, scoreFactors: factors },
+    };
+  }
+
+  /**
+   * Calculates key metrics from email interactions - OPTIMIZED single-pass version.
+   * Past meetings move the last contact forward but are not counted as emails.
+   */
+  private calculateMetrics(
+    interactions: EmailInteraction[],
+    directInteractions: EmailInteraction[],
+    responseSamples: ResponseSample[],
+    meetings: EmailInteraction[] = []
+  ) {
+    if (interactions.length === 0 && meetings.length === 0) {
       return {
         totalEmails: 0,
         sentEmails: 0,
@@ -46,7 +118,10 @@ export class ContactAnalyzer {
         averageResponseTime: 0,
         conversationCount: 0,
         emailsLast30Days: 0,
-        emailsLast90Days: 0
+        emailsLast90Days: 0,
+        copiedEmails: 0,
+        meetings: 0,
+        meetingsLast90Days: 0
       };
     }
 
@@ -58,6 +133,7 @@ export class ContactAnalyzer {
     let receivedEmails = 0;
     let emailsLast30Days = 0;
     let emailsLast90Days = 0;
+    let copiedEmails = 0;
     let lastContactTime = 0;
     const sentEmailDates: number[] = [];
     const threadIds = new Set<string>();
@@ -66,7 +142,10 @@ export class ContactAnalyzer {
     for (const interaction of interactions) {
       const interactionTime = interaction.date.getTime();
       
-      if (interaction.direction === 'sent') {
+      // Copies count towards volume and recency but not as sent/received touches
+      if (!isDirectInteraction(interaction)) {
+        copiedEmails++;
+      } else if (interaction.direction === 'sent') {
         sentEmails++;
         sentEmailDates.push(interactionTime);
       } else {
@@ -85,13 +164,22 @@ export class ContactAnalyzer {
       }
     }
 
+    let meetingsLast90Days = 0;
+    for (const meeting of meetings) {
+      const meetingTime = meeting.date.getTime();
+      if (meetingTime >= ninetyDaysAgo) meetingsLast90Days++;
+      if (meetingTime > lastContactTime) lastContactTime = meetingTime;
+    }
+
     const lastContactDate = lastContactTime > 0 ? new Date(lastContactTime) : null;
     const daysSinceLastContact = lastContactDate 
       ? Math.floor((now.getTime() - lastContactTime) / (24 * 60 * 60 * 1000))
       : Infinity;
 
-    const responseRate = this.calculateResponseRateThreadAware(interactions, sentEmailDates);
-    const averageResponseTime = this.calculateAverageResponseTimeThreadAware(interactions);
+    const responseRate = this.calculateResponseRateThreadAware(directInteractions, sentEmailDates);
+    const averageResponseTime = responseSamples.length > 0
+      ? responseSamples.reduce((sum, sample) => sum + sample.hours, 0) / responseSamples.length
+      : 0;
 
     return {
       totalEmails: interactions.length,
@@ -102,75 +190,76 @@ export class ContactAnalyzer {
       averageResponseTime,
       conversationCount: threadIds.size,
       emailsLast30Days,
-      emailsLast90Days
+      emailsLast90Days,
+      copiedEmails,
+      meetings: meetings.length,
+      meetingsLast90Days
     };
   }
 
   /**
-   * Determines contact category based on metrics and interactions
+   * Determines contact category from the configured rules (first matching rule wins)
    */
-  private determineCategory(metrics: ReturnType<ContactAnalyzer['calculateMetrics']>): ContactCategory {
-    // RECENT: recent or frequent touch and some responsiveness
-    if (
-      metrics.daysSinceLastContact <= 30 ||
-      metrics.emailsLast30Days >= 2 ||
-      (metrics.emailsLast90Days >= 5 && metrics.responseRate >= 0.2)
-    ) {
-      return 'recent';
-    }
-
-    // IN_TOUCH: good history and reasonable responsiveness in last ~4 months
-    if (
-      metrics.totalEmails >= 3 &&
-      metrics.responseRate >= 0.3 &&
-      metrics.daysSinceLastContact <= 120
-    ) {
-      return 'in_touch';
-    }
-
-    // INACTIVE: everyone else (long time since last touch or very sparse history)
-    return 'inactive';
+  private determineCategory(metrics: ReturnType<ContactAnalyzer['calculateMetrics']>): CategoryRuleMatch {
+    return evaluateCategoryRules(this.config, metrics);
   }
 
   /**
-   * Calculates confidence score for the analysis (0-100)
+   * Calculates confidence score for the analysis (0-100) and the factors that produced it
    */
-  private calculateConfidenceScore(metrics: ReturnType<ContactAnalyzer['calculateMetrics']>, category: ContactCategory): number {
-    let score = 50; // Base score
+  private calculateConfidenceScore(
+    metrics: ReturnType<ContactAnalyzer['calculateMetrics']>,
+    category: ContactCategory
+  ): { score: number; factors: ScoreFactor[] } {
+    const factors: ScoreFactor[] = [];
+    const add = (applies: boolean, label: string, points: number) => {
+      if (applies) factors.push({ label, points });
+    };
 
     // Increase confidence with more data
-    if (metrics.totalEmails > 5) score += 20;
-    if (metrics.totalEmails > 10) score += 10;
+    add(metrics.totalEmails > 5, 'More than 5 emails', 20);
+    add(metrics.totalEmails > 10, 'More than 10 emails', 10);
 
     // Increase confidence with recent activity
-    if (metrics.daysSinceLastContact < 7) score += 15;
-    if (metrics.daysSinceLastContact < 30) score += 10;
+    add(metrics.daysSinceLastContact < 7, 'Contact in the last 7 days', 15);
+    add(metrics.daysSinceLastContact < 30, 'Contact in the last 30 days', 10);
 
     // Increase confidence with good response rate
-    if (metrics.responseRate > 0.7) score += 15;
-    if (metrics.responseRate > 0.5) score += 10;
+    add(metrics.responseRate > 0.7, 'Response rate above 70%', 15);
+    add(metrics.responseRate > 0.5, 'Response rate above 50%', 10);
+
+    // Mostly-CC relationships are weaker than the volume suggests
+    add(metrics.copiedEmails > metrics.sentEmails + metrics.receivedEmails, 'Mostly copied (CC/BCC)', -10);
 
     // Category-specific adjustments
     // Category weights adjusted for simplified model
     switch (category) {
       case 'recent':
-        score += 10;
+        add(true, 'Category: Recent', 10);
         break;
       case 'in_touch':
-        score += 5;
+        add(true, 'Category: In Touch', 5);
         break;
       case 'inactive':
-        score -= 10;
+        add(true, 'Category: Inactive', -10);
         break;
     }
 
-    return Math.max(0, Math.min(100, score));
+    const raw = factors.reduce((sum, f) => sum + f.points, SCORE_BASE);
+    const score = Math.max(0, Math.min(100, raw));
+    if (score !== raw) factors.push({ label: 'Capped to 0-100', points: score - raw });
+    return { score, factors };
   }
 
   /**
    * Generates human-readable insights about the contact
    */
-  private generateInsights(metrics: ReturnType<ContactAnalyzer['calculateMetrics']>, category: ContactCategory): string[] {
+  private generateInsights(
+    metrics: ReturnType<ContactAnalyzer['calculateMetrics']>,
+    category: ContactCategory,
+    trend: ContactTrend,
+    cooling: boolean
+  ): string[] {
     const insights: string[] = [];
 
     if (category === 'recent') {
@@ -189,19 +278,32 @@ export class ContactAnalyzer {
       }
     } else if (category === 'inactive') {
       insights.push('Limited communication history');
-      if (metrics.totalEmails === 0) {
+      if (metrics.totalEmails === 0 && metrics.meetings === 0) {
         insights.push('Never contacted - perfect for cold outreach');
       } else {
         insights.push(`${metrics.totalEmails} emails but no recent activity`);
       }
     }
 
+    if (metrics.meetingsLast90Days > 0) {
+      insights.push(`${metrics.meetingsLast90Days} meeting${metrics.meetingsLast90Days === 1 ? '' : 's'} in the last 90 days`);
+    }
+
     if (metrics.responseRate > 0.7) {
       insights.push('High response rate - very responsive contact');
     } else if (metrics.responseRate < 0.3) {
       insights.push('Low response rate - may need different approach');
     }
 
+    if (cooling) {
+      insights.push(trend.typicalGapDays !== null && metrics.daysSinceLastContact > COOLING_GAP_MULTIPLIER * trend.typicalGapDays
+        ? `Cooling down - usually in touch every ${Math.round(trend.typicalGapDays)} days, quiet for ${metrics.daysSinceLastContact}`
+        : 'Cooling down - email volume this quarter is well below their usual cadence');
+    }
+    if (trend.responseTimeChange !== null && trend.responseTimeChange >= 2) {
+      insights.push('Replies are getting slower than they used to be');
+    }
+
     return insights;
   }
 
@@ -266,10 +368,10 @@ export class ContactAnalyzer {
   }
 
   /**
-   * FAST average response time calculation
+   * FAST response time samples: hours from each sent email to the first reply in its thread
    */
-  private calculateAverageResponseTimeThreadAware(interactions: EmailInteraction[]): number {
-    const responseTimes: number[] = [];
+  private collectResponseSamples(interactions: EmailInteraction[]): ResponseSample[] {
+    const samples: ResponseSample[] = [];
 
     // Group by threadId
     const threadToTimes: Map<string, { sent: number[]; received: number[] }> = new Map();
@@ -310,14 +412,12 @@ export class ContactAnalyzer {
         if (idx < entry.received.length) {
           const firstReplyTime = entry.received[idx];
           const hours = (firstReplyTime - sentTime) / (1000 * 60 * 60);
-          responseTimes.push(hours);
+          samples.push({ sentTime, hours });
         }
       }
     }
 
-    return responseTimes.length > 0
-      ? responseTimes.reduce((sum, time) => sum + time, 0) / responseTimes.length
-      : 0;
+    return samples;
   }
 
 }
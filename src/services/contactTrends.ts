@@ -0,0 +1,109 @@
+import type { ContactTrend, EmailInteraction } from '../types/contact';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RECENT_WINDOW_DAYS = 90;
+const TREND_MONTHS = 12;
+
+// Cooling needs an established rhythm of at least this many emails a month
+const COOLING_MIN_BASELINE_PER_MONTH = 2;
+const COOLING_MIN_SILENCE_DAYS = 14;
+const COOLING_CADENCE_DROP = 0.5; // recent volume at or below half the baseline
+export const COOLING_GAP_MULTIPLIER = 3; // or silent for three times the usual gap
+
+export type ResponseSample = { sentTime: number; hours: number };
+
+const monthKey = (time: number) => {
+  const d = new Date(time);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+};
+
+const average = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+
+const ratio = (recent: number | null, baseline: number | null) =>
+  recent !== null && baseline !== null && baseline > 0 ? recent / baseline : null;
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Time-series features for one contact: monthly volume, response-time trend and the
+ * last quarter's cadence compared with the contact's own history before it
+ */
+export function calculateContactTrend(
+  interactions: EmailInteraction[],
+  responseSamples: ResponseSample[],
+  now: number = Date.now()
+): ContactTrend {
+  const recentStart = now - RECENT_WINDOW_DAYS * DAY_MS;
+
+  // Pre-fill the last 12 months so quiet months show up as zeros
+  const months = new Map<string, { month: string; sent: number; received: number }>();
+  const cursor = new Date(now);
+  cursor.setDate(1);
+  cursor.setMonth(cursor.getMonth() - (TREND_MONTHS - 1));
+  for (let i = 0; i < TREND_MONTHS; i++) {
+    const key = monthKey(cursor.getTime());
+    months.set(key, { month: key, sent: 0, received: 0 });
+    cursor.setMonth(cursor.getMonth() + 1);
+  }
+
+  let firstTime = Infinity;
+  let recentCount = 0;
+  let baselineCount = 0;
+  const days = new Set<number>();
+
+  for (const interaction of interactions) {
+    const time = interaction.date.getTime();
+    const bucket = months.get(monthKey(time));
+    if (bucket) {
+      if (interaction.direction === 'sent') bucket.sent++;
+      else bucket.received++;
+    }
+    if (time >= recentStart) recentCount++;
+    else baselineCount++;
+    if (time < firstTime) firstTime = time;
+    days.add(Math.floor(time / DAY_MS));
+  }
+
+  const baselineMonths = firstTime < recentStart ? Math.max(1, (recentStart - firstTime) / (30 * DAY_MS)) : 0;
+  const baselineEmailsPerMonth = baselineMonths > 0 ? baselineCount / baselineMonths : 0;
+  const recentEmailsPerMonth = recentCount / (RECENT_WINDOW_DAYS / 30);
+
+  const sortedDays = Array.from(days).sort((a, b) => a - b);
+  const gaps = sortedDays.slice(1).map((day, i) => day - sortedDays[i]);
+  const typicalGapDays = gaps.length >= 3 ? median(gaps) : null;
+
+  const baselineResponseTimeHours = average(responseSamples.filter(s => s.sentTime < recentStart).map(s => s.hours));
+  const recentResponseTimeHours = average(responseSamples.filter(s => s.sentTime >= recentStart).map(s => s.hours));
+
+  return {
+    monthlyVolume: Array.from(months.values()),
+    baselineEmailsPerMonth,
+    recentEmailsPerMonth,
+    cadenceChange: ratio(recentEmailsPerMonth, baselineMonths > 0 ? baselineEmailsPerMonth : null),
+    typicalGapDays,
+    baselineResponseTimeHours,
+    recentResponseTimeHours,
+    responseTimeChange: ratio(recentResponseTimeHours, baselineResponseTimeHours),
+  };
+}
+
+/**
+ * A contact is cooling when they used to be in regular contact and either the last quarter's
+ * volume has dropped to half their baseline or the current silence is well past their usual gap
+ */
+export function isCooling(trend: ContactTrend, daysSinceLastContact: number): boolean {
+  // Contacts without history before the last quarter are judged on their recent rhythm
+  const usualPerMonth = trend.cadenceChange !== null ? trend.baselineEmailsPerMonth : trend.recentEmailsPerMonth;
+  if (usualPerMonth < COOLING_MIN_BASELINE_PER_MONTH) return false;
+  if (!Number.isFinite(daysSinceLastContact) || daysSinceLastContact < COOLING_MIN_SILENCE_DAYS) return false;
+
+  const cadenceDropped = trend.cadenceChange !== null && trend.cadenceChange <= COOLING_CADENCE_DROP;
+  const silenceTooLong = trend.typicalGapDays !== null && daysSinceLastContact > COOLING_GAP_MULTIPLIER * trend.typicalGapDays;
+  return cadenceDropped || silenceTooLong;
+}
@@ -0,0 +1,46 @@
+import type { EmailDraft } from '../types/email';
+
+const STORAGE_KEY = 'olx_email_drafts';
+
+type StoredDraft = Omit<EmailDraft, 'createdAt' | 'updatedAt'> & { createdAt: string; updatedAt?: string };
+
+export function loadEmailDrafts(): EmailDraft[] {
+  try {
+    const raw = typeof window !== 'undefined' ? window.localStorage.getItem(STORAGE_KEY) : null;
+    if (!raw) return [];
+    const parsed = JSON.parse(raw) as { version: number; drafts: StoredDraft[] };
+    return (parsed.drafts ?? []).map(draft => ({
+      ...draft,
+      createdAt: new Date(draft.createdAt),
+      updatedAt: draft.updatedAt ? new Date(draft.updatedAt) : undefined,
+    }));
+  } catch (error) {
+    console.warn('Failed to load email drafts:', error);
+    return [];
+  }
+}
+
+export function saveEmailDrafts(drafts: EmailDraft[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: 1, drafts }));
+  } catch (error) {
+    console.warn('Failed to save email drafts:', error);
+  }
+}
+
+/** Adds the draft or replaces the stored one with the same id */
+export function upsertEmailDraft(draft: EmailDraft): void {
+  const drafts = loadEmailDrafts().filter(d => d.id !== draft.id);
+  saveEmailDrafts([...drafts, draft]);
+}
+
+export function removeEmailDraft(draftId: string): void {
+  saveEmailDrafts(loadEmailDrafts().filter(d => d.id !== draftId));
+}
+
+/** Open drafts to a contact, most recently edited first */
+export function getDraftsForContact(contactId: string): EmailDraft[] {
+  return loadEmailDrafts()
+    .filter(d => d.contactId === contactId && d.status === 'draft')
+    .sort((a, b) => (b.updatedAt ?? b.createdAt).getTime() - (a.updatedAt ?? a.createdAt).getTime());
+}
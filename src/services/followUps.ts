@@ -0,0 +1,59 @@
+import type { EmailInteraction, FollowUpTask } from '../types/contact';
+
+const STORAGE_KEY = 'olx_follow_ups';
+
+export interface FollowUpSettings {
+  version: 1;
+  tasks: FollowUpTask[];
+  mirrorToTodo: boolean; // copy new tasks to Microsoft To Do
+}
+
+const EMPTY_SETTINGS: FollowUpSettings = { version: 1, tasks: [], mirrorToTodo: false };
+
+export function loadFollowUps(): FollowUpSettings {
+  try {
+    const raw = typeof window !== 'undefined' ? window.localStorage.getItem(STORAGE_KEY) : null;
+    if (!raw) return EMPTY_SETTINGS;
+    const parsed = JSON.parse(raw) as Partial<FollowUpSettings>;
+    return { ...EMPTY_SETTINGS, ...parsed, tasks: parsed.tasks ?? [] };
+  } catch (error) {
+    console.warn('Failed to load follow-up tasks:', error);
+    return EMPTY_SETTINGS;
+  }
+}
+
+export function saveFollowUps(settings: FollowUpSettings): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn('Failed to save follow-up tasks:', error);
+  }
+}
+
+/** Today as YYYY-MM-DD in local time, the format of FollowUpTask.dueDate */
+export function todayKey(now: Date = new Date()): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+}
+
+/** Open tasks due today or earlier, most overdue first, high priority first within a day */
+export function dueFollowUps(tasks: FollowUpTask[], today: string = todayKey()): FollowUpTask[] {
+  const rank = { high: 0, normal: 1, low: 2 } as const;
+  return tasks
+    .filter(task => !task.doneAt && task.dueDate <= today)
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate) || rank[a.priority] - rank[b.priority]);
+}
+
+/**
+ * Open tasks that mail sent to the contact after the task was created has taken care of.
+ * Meetings do not count; only a sent message is a follow-up.
+ */
+export function findFollowedUpTasks(tasks: FollowUpTask[], interactionsByContact: Map<string, EmailInteraction[]>): FollowUpTask[] {
+  return tasks.filter(task => {
+    if (task.doneAt) return false;
+    const createdAt = new Date(task.createdAt).getTime();
+    return (interactionsByContact.get(task.contactId) ?? []).some(interaction =>
+      interaction.direction === 'sent' && interaction.channel !== 'meeting' && interaction.date.getTime() > createdAt
+    );
+  });
+}
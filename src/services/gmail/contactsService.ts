@@ -0,0 +1,60 @@
+import { GmailClient } from './gmailClient';
+import type { ContactProfile } from '../../types/contact';
+
+const PEOPLE_API = 'https://people.googleapis.com/v1';
+
+interface PersonRaw {
+  resourceName: string;
+  names?: Array<{ displayName?: string }>;
+  emailAddresses?: Array<{ value?: string }>;
+  organizations?: Array<{ name?: string; title?: string }>;
+  phoneNumbers?: Array<{ value?: string }>;
+  biographies?: Array<{ value?: string }>;
+}
+
+/**
+ * Address book details of a Google contact; Google has no honorific or category fields
+ */
+function toContactProfile(person: PersonRaw): ContactProfile | undefined {
+  const profile: ContactProfile = {};
+  const organization = person.organizations?.[0];
+  if (organization?.name) profile.companyName = organization.name;
+  if (organization?.title) profile.jobTitle = organization.title;
+  const phones = (person.phoneNumbers || []).map(p => p.value || '').filter(Boolean);
+  if (phones.length > 0) profile.businessPhones = phones;
+  if (person.biographies?.[0]?.value) profile.personalNotes = person.biographies[0].value;
+  return Object.keys(profile).length > 0 ? profile : undefined;
+}
+
+export class GmailContactsService {
+  private readonly gmail: GmailClient;
+  constructor(gmail: GmailClient) {
+    this.gmail = gmail;
+  }
+
+  /**
+   * Reads the user's Google Contacts via the People API (requires contacts.readonly)
+   */
+  async getContacts(): Promise<Array<{ id: string; displayName: string; emailAddresses: Array<{ address: string }>; profile?: ContactProfile }>> {
+    const people: PersonRaw[] = [];
+    let pageToken: string | undefined;
+    do {
+      const params = new URLSearchParams({ personFields: 'names,emailAddresses,organizations,phoneNumbers,biographies', pageSize: '1000' });
+      if (pageToken) params.set('pageToken', pageToken);
+      const resp = await this.gmail.request<{ connections?: PersonRaw[]; nextPageToken?: string }>(
+        `${PEOPLE_API}/people/me/connections?${params.toString()}`
+      );
+      people.push(...(resp.connections || []));
+      pageToken = resp.nextPageToken;
+    } while (pageToken);
+
+    return people.map(p => ({
+      id: p.resourceName,
+      displayName: p.names?.[0]?.displayName || '',
+      emailAddresses: (p.emailAddresses || [])
+        .filter(e => !!e.value)
+        .map(e => ({ address: e.value! })),
+      profile: toContactProfile(p),
+    }));
+  }
+}
@@ -0,0 +1,72 @@
+import type { GoogleAuthClient } from '../auth/googleAuthClient';
+
+const DEBUG_GMAIL = import.meta.env.VITE_DEBUG_GMAIL === 'true';
+
+export class GmailClient {
+  private readonly auth: GoogleAuthClient;
+  private readonly baseUrl: string;
+
+  constructor(auth: GoogleAuthClient, baseUrl: string) {
+    this.auth = auth;
+    this.baseUrl = baseUrl;
+  }
+
+  async request<T>(
+    endpoint: string,
+    method: 'GET' | 'POST' = 'GET',
+    body?: unknown
+  ): Promise<T> {
+    const token = await this.auth.getAccessToken();
+    if (!token) throw new Error('No access token available');
+
+    const url = endpoint.startsWith('http') ? endpoint : `${this.baseUrl}${endpoint}`;
+    const headers: Record<string, string> = {
+      Authorization: `Bearer ${token}`,
+      'Content-Type': 'application/json',
+    };
+
+    const options: RequestInit = { method, headers };
+    if (body && method === 'POST') options.body = JSON.stringify(body);
+
+    const maxRetries = 5;
+    let attempt = 0;
+    let lastError: unknown;
+
+    while (attempt <= maxRetries) {
+      try {
+        const response = await fetch(url, options);
+        // Gmail signals per-user rate limits with 403 + rateLimitExceeded as well as 429
+        let rateLimited = false;
+        if (response.status === 403) {
+          const text = await response.clone().text().catch(() => '');
+          rateLimited = /ratelimitexceeded/i.test(text);
+        }
+        if (response.status === 429 || response.status === 500 || response.status === 503 || rateLimited) {
+          const retryAfter = Number(response.headers.get('Retry-After')) * 1000 || Math.min(1000 * Math.pow(2, attempt), 10000);
+          if (DEBUG_GMAIL) console.warn(`Gmail throttled (${response.status}). Retrying in ${retryAfter}ms... (attempt ${attempt + 1}/${maxRetries})`);
+          await new Promise(r => setTimeout(r, retryAfter));
+          attempt++;
+          continue;
+        }
+        if (!response.ok) throw new Error(`Gmail API call failed: ${response.status} ${response.statusText}`);
+
+        if (response.status === 204) return undefined as unknown as T;
+        const contentType = response.headers.get('content-type') || '';
+        if (contentType.includes('application/json')) return (await response.json()) as T;
+        return (await response.text()) as unknown as T;
+      } catch (error) {
+        lastError = error;
+        if (attempt >= maxRetries) {
+          console.error('Gmail API call failed:', error);
+          throw error;
+        }
+        const backoff = Math.min(500 * Math.pow(2, attempt), 5000);
+        if (DEBUG_GMAIL) console.warn(`Gmail call error. Retrying in ${backoff}ms... (attempt ${attempt + 1}/${maxRetries})`);
+        await new Promise(r => setTimeout(r, backoff));
+        attempt++;
+      }
+    }
+
+    throw lastError instanceof Error ? lastError : new Error('Gmail API call failed');
+  }
+}
@@ -0,0 +1,133 @@
+import { GmailClient } from './gmailClient';
+import { buildRawMessage, extractHtmlBody, getHeader, parseAddressList, type GmailMessagePart } from './mime';
+
+const DEBUG_GMAIL = import.meta.env.VITE_DEBUG_GMAIL === 'true';
+
+export interface GmailMessage {
+  id: string;
+  threadId: string;
+  labelIds?: string[];
+  snippet?: string;
+  internalDate: string; // epoch millis as string
+  payload?: GmailMessagePart;
+}
+
+const METADATA_HEADERS = [
+  'From', 'To', 'Cc', 'Bcc', 'Reply-To', 'Subject', 'Date', 'Message-ID', 'In-Reply-To',
+  'List-Unsubscribe', 'Auto-Submitted', 'Precedence',
+];
+
+export class GmailMailService {
+  private readonly gmail: GmailClient;
+  constructor(gmail: GmailClient) {
+    this.gmail = gmail;
+  }
+
+  /**
+   * Lists message ids matching a Gmail search query (e.g. "in:sent after:2024/01/01"), newest first
+   */
+  async listMessageIds(query: string, maxMessages: number = 500): Promise<string[]> {
+    const ids: string[] = [];
+    let pageToken: string | undefined;
+    do {
+      const pageSize = Math.min(500, maxMessages - ids.length);
+      const params = new URLSearchParams({ q: query, maxResults: String(pageSize) });
+      if (pageToken) params.set('pageToken', pageToken);
+      const resp = await this.gmail.request<{ messages?: Array<{ id: string }>; nextPageToken?: string }>(
+        `/messages?${params.toString()}`
+      );
+      (resp.messages || []).forEach(m => ids.push(m.id));
+      pageToken = resp.nextPageToken;
+    } while (pageToken && ids.length < maxMessages);
+    return ids;
+  }
+
+  async getMessageMetadata(messageId: string): Promise<GmailMessage> {
+    const headers = METADATA_HEADERS.map(h => `metadataHeaders=${h}`).join('&');
+    return this.gmail.request<GmailMessage>(`/messages/${encodeURIComponent(messageId)}?format=metadata&${headers}`);
+  }
+
+  /**
+   * Fetches metadata for many messages with bounded concurrency (Gmail has no list-with-headers call)
+   */
+  async getMessagesMetadata(messageIds: string[], concurrency: number = 10): Promise<GmailMessage[]> {
+    const startTime = performance.now();
+    const results: GmailMessage[] = [];
+    let next = 0;
+
+    const worker = async () => {
+      while (next < messageIds.length) {
+        const id = messageIds[next++];
+        try {
+          results.push(await this.getMessageMetadata(id));
+        } catch (error) {
+          console.warn(`Skipping Gmail message ${id}:`, error);
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, messageIds.length) }, worker));
+    if (DEBUG_GMAIL) console.log(`[gmail] Fetched metadata for ${results.length} messages in ${(performance.now() - startTime).toFixed(0)}ms`);
+    return results;
+  }
+
+  async getMessageFull(messageId: string): Promise<GmailMessage | null> {
+    try {
+      return await this.gmail.request<GmailMessage>(`/messages/${encodeURIComponent(messageId)}?format=full`);
+    } catch {
+      return null;
+    }
+  }
+
+  async sendEmail(to: string, subject: string, body: string, isHtml: boolean = true): Promise<void> {
+    const raw = buildRawMessage({ to, subject, body, isHtml });
+    await this.gmail.request('/messages/send', 'POST', { raw });
+  }
+
+  /**
+   * Replies in the original thread: threadId plus In-Reply-To/References keep Gmail and other clients
+   * grouping it, and the original is quoted below the new text. Reply-all adds the other To/Cc recipients.
+   */
+  async replyToEmail(messageId: string, body: string, userEmail: string, replyAll: boolean = false): Promise<void> {
+    const original = await this.getMessageFull(messageId);
+    if (!original) throw new Error('The original message could not be found');
+    const payload = original.payload;
+    const self = userEmail.toLowerCase();
+    const from = parseAddressList(getHeader(payload, 'Reply-To') || getHeader(payload, 'From'));
+    const sentByMe = parseAddressList(getHeader(payload, 'From')).some(a => a.address === self);
+    // Replying to one's own message goes to its recipients again, as mail clients do
+    const primary = sentByMe ? parseAddressList(getHeader(payload, 'To')) : from;
+    const others = replyAll
+      ? [...parseAddressList(getHeader(payload, 'To')), ...parseAddressList(getHeader(payload, 'Cc'))]
+      : [];
+    const to = unique(primary.map(a => a.address));
+    const cc = unique(others.map(a => a.address)).filter(a => a !== self && !to.includes(a));
+
+    const subject = getHeader(payload, 'Subject');
+    const messageIdHeader = getHeader(payload, 'Message-ID');
+    const references = [getHeader(payload, 'References'), messageIdHeader].filter(Boolean).join(' ');
+    const sentAt = new Date(Number(original.internalDate)).toLocaleString();
+    const quoted = `${body}<br/><div class="gmail_quote">On ${sentAt}, ${escapeAngleBrackets(getHeader(payload, 'From'))} wrote:<br/>`
+      + `<blockquote style="margin:0 0 0 .8ex;border-left:1px solid #ccc;padding-left:1ex">${extractHtmlBody(payload) ?? original.snippet ?? ''}</blockquote></div>`;
+
+    const raw = buildRawMessage({
+      to: to.join(', '),
+      cc: cc.length > 0 ? cc.join(', ') : undefined,
+      subject: /^re:/i.test(subject) ? subject : `Re: ${subject}`,
+      body: quoted,
+      isHtml: true,
+      inReplyTo: messageIdHeader || undefined,
+      references: references || undefined,
+    });
+    await this.gmail.request('/messages/send', 'POST', { raw, threadId: original.threadId });
+  }
+}
+
+function unique(addresses: string[]): string[] {
+  return Array.from(new Set(addresses));
+}
+
+// "Name <a@b.c>" would otherwise be read as a tag in the quote line
+function escapeAngleBrackets(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
@@ -0,0 +1,125 @@
+// Helpers for reading and writing the RFC 2822 messages the Gmail API exchanges
+
+export interface GmailHeader {
+  name: string;
+  value: string;
+}
+
+export interface GmailMessagePart {
+  mimeType?: string;
+  headers?: GmailHeader[];
+  body?: { data?: string; size?: number };
+  parts?: GmailMessagePart[];
+}
+
+export function getHeader(part: GmailMessagePart | undefined, name: string): string {
+  const lower = name.toLowerCase();
+  return part?.headers?.find(h => h.name.toLowerCase() === lower)?.value ?? '';
+}
+
+export function decodeBase64Url(data: string): string {
+  const base64 = data.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64);
+  const bytes = Uint8Array.from(binary, c => c.charCodeAt(0));
+  return new TextDecoder('utf-8').decode(bytes);
+}
+
+export function encodeBase64Url(text: string): string {
+  return encodeBase64(text).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function encodeBase64(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+}
+
+/**
+ * Parses an address header ("Max <max@firma.de>, \"Doe, Jane\" <jane@x.com>, bob@y.com")
+ */
+export function parseAddressList(header: string): Array<{ address: string; name?: string }> {
+  if (!header) return [];
+  const result: Array<{ address: string; name?: string }> = [];
+  // Split on commas that are not inside quotes or angle brackets
+  const entries: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  let inAngle = false;
+  for (const char of header) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (char === '<' && !inQuotes) inAngle = true;
+    else if (char === '>' && !inQuotes) inAngle = false;
+    if (char === ',' && !inQuotes && !inAngle) {
+      entries.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  entries.push(current);
+
+  for (const entry of entries) {
+    const trimmed = entry.trim();
+    if (!trimmed) continue;
+    const match = trimmed.match(/^(.*)<([^>]+)>$/);
+    if (match) {
+      const name = match[1].trim().replace(/^"|"$/g, '').trim();
+      result.push({ address: match[2].trim().toLowerCase(), name: name || undefined });
+    } else if (trimmed.includes('@')) {
+      result.push({ address: trimmed.toLowerCase() });
+    }
+  }
+  return result;
+}
+
+/**
+ * Returns the best body of a message payload: HTML if present, otherwise plain text converted to HTML
+ */
+export function extractHtmlBody(part: GmailMessagePart | undefined): string | null {
+  if (!part) return null;
+  const html = findPart(part, 'text/html');
+  if (html?.body?.data) return decodeBase64Url(html.body.data);
+  const text = findPart(part, 'text/plain');
+  if (text?.body?.data) return decodeBase64Url(text.body.data).replace(/\n/g, '<br/>');
+  return null;
+}
+
+function findPart(part: GmailMessagePart, mimeType: string): GmailMessagePart | undefined {
+  if (part.mimeType === mimeType && part.body?.data) return part;
+  for (const child of part.parts ?? []) {
+    const found = findPart(child, mimeType);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+function encodeHeaderValue(value: string): string {
+  // RFC 2047 encoded-word for anything outside printable ASCII (umlauts in German subjects)
+  return /^[\x20-\x7E]*$/.test(value) ? value : `=?UTF-8?B?${encodeBase64(value)}?=`;
+}
+
+export function buildRawMessage(params: {
+  to: string;
+  cc?: string;
+  subject: string;
+  body: string;
+  isHtml: boolean;
+  // Threading headers of a reply (Message-ID of the original, and its References chain plus that id)
+  inReplyTo?: string;
+  references?: string;
+}): string {
+  const lines = [
+    `To: ${params.to}`,
+    ...(params.cc ? [`Cc: ${params.cc}`] : []),
+    `Subject: ${encodeHeaderValue(params.subject)}`,
+    ...(params.inReplyTo ? [`In-Reply-To: ${params.inReplyTo}`] : []),
+    ...(params.references ? [`References: ${params.references}`] : []),
+    'MIME-Version: 1.0',
+    `Content-Type: ${params.isHtml ? 'text/html' : 'text/plain'}; charset=UTF-8`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBase64(params.body).replace(/.{76}/g, '$&\r\n'),
+  ];
+  return encodeBase64Url(lines.join('\r\n'));
+}
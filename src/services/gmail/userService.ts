@@ -0,0 +1,19 @@
+import { GmailClient } from './gmailClient';
+
+const USERINFO_URL = 'https://openidconnect.googleapis.com/v1/userinfo';
+
+export class GmailUserService {
+  private readonly gmail: GmailClient;
+  constructor(gmail: GmailClient) {
+    this.gmail = gmail;
+  }
+
+  async getCurrentUser(): Promise<{ displayName: string; mail: string; id: string }> {
+    const info = await this.gmail.request<{ sub: string; name?: string; email?: string }>(USERINFO_URL);
+    return {
+      id: info.sub,
+      displayName: info.name || info.email || 'Gmail user',
+      mail: (info.email || '').toLowerCase(),
+    };
+  }
+}
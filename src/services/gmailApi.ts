@@ -0,0 +1,247 @@
+import { GoogleAuthClient, type GoogleAuthConfig } from './auth/googleAuthClient';
+import { GmailClient } from './gmail/gmailClient';
+import { GmailMailService, type GmailMessage } from './gmail/mailService';
+import { GmailContactsService } from './gmail/contactsService';
+import { GmailUserService } from './gmail/userService';
+import { extractHtmlBody, getHeader, parseAddressList } from './gmail/mime';
+import type { ContactFetchOptions, LastEmailPreview, MailProvider, MailUser } from './mailProvider';
+import { hasAutomatedHeaders } from './automatedSenders';
+import type { ContactCandidate, EmailInteraction, InteractionRole } from '../types/contact';
+
+const DEBUG_GMAIL = import.meta.env.VITE_DEBUG_GMAIL === 'true';
+const HISTORY_DAYS = Number(import.meta.env.VITE_HISTORY_DAYS ?? 730); // default 2 years
+const GMAIL_MAX_MESSAGES = Number(import.meta.env.VITE_GMAIL_MAX_MESSAGES ?? 5000); // per folder, comprehensive runs
+const GMAIL_QUICK_MESSAGES = 500; // per folder, quick runs
+const DEFAULT_SCOPES = [
+  'openid',
+  'email',
+  'profile',
+  'https://www.googleapis.com/auth/gmail.readonly',
+  'https://www.googleapis.com/auth/gmail.send',
+  'https://www.googleapis.com/auth/contacts.readonly',
+];
+
+type MailboxSnapshot = { sent: GmailMessage[]; received: GmailMessage[] };
+
+/**
+ * The people on a message other than the user, each once with their most direct role
+ * (same rules as the Graph interaction mapper)
+ */
+function messageParticipants(
+  message: GmailMessage,
+  direction: 'sent' | 'received',
+  userEmail: string
+): Array<{ address: string; name?: string; role: InteractionRole }> {
+  const groups: Array<[InteractionRole, string]> = direction === 'sent'
+    ? [['to', 'To'], ['cc', 'Cc'], ['bcc', 'Bcc']]
+    : [['from', 'From'], ['from', 'Reply-To'], ['to', 'To'], ['cc', 'Cc']];
+
+  const participants = new Map<string, { address: string; name?: string; role: InteractionRole }>();
+  groups.forEach(([role, header]) => {
+    parseAddressList(getHeader(message.payload, header)).forEach(({ address, name }) => {
+      if (address && address !== userEmail && !participants.has(address)) {
+        participants.set(address, { address, name, role });
+      }
+    });
+  });
+  return Array.from(participants.values());
+}
+
+class GmailFacade implements MailProvider {
+  readonly type = 'gmail' as const;
+  readonly displayName = 'Gmail';
+
+  private readonly auth: GoogleAuthClient;
+  private readonly gmail: GmailClient;
+  private readonly users: GmailUserService;
+  private readonly mail: GmailMailService;
+  private readonly contacts: GmailContactsService;
+  private readonly metadataCache: Map<string, GmailMessage> = new Map();
+  private readonly lastEmailCache: Map<string, LastEmailPreview & { cachedAt: number }> = new Map();
+  private currentUser: MailUser | null = null;
+  private static readonly PREVIEW_TTL_MS = 5 * 60 * 1000; // 5 minutes
+
+  constructor() {
+    const scopes = (import.meta.env.VITE_GOOGLE_SCOPES || '').split(',').filter(Boolean);
+    const config: GoogleAuthConfig = {
+      clientId: import.meta.env.VITE_GOOGLE_CLIENT_ID || '',
+      scopes: scopes.length > 0 ? scopes : DEFAULT_SCOPES,
+    };
+
+    this.auth = new GoogleAuthClient(config);
+    this.gmail = new GmailClient(this.auth, 'https://gmail.googleapis.com/gmail/v1/users/me');
+    this.users = new GmailUserService(this.gmail);
+    this.mail = new GmailMailService(this.gmail);
+    this.contacts = new GmailContactsService(this.gmail);
+  }
+
+  // Auth
+  async initialize(): Promise<void> { await this.auth.initialize(); }
+  async signIn() { return this.auth.signIn(); }
+  async signOut(): Promise<void> {
+    this.currentUser = null;
+    return this.auth.signOut();
+  }
+  getCurrentAccount() {
+    return this.auth.hasValidToken() ? { username: this.currentUser?.mail ?? '' } : null;
+  }
+  async getAccessToken(): Promise<string | null> { return this.auth.getAccessToken(); }
+  async debugAuthStatus(): Promise<void> { return this.auth.debugAuthStatus(); }
+
+  clearEmailCaches(): void {
+    this.lastEmailCache.clear();
+    this.metadataCache.clear();
+  }
+
+  // Users
+  async getCurrentUser(): Promise<MailUser> {
+    if (!this.currentUser) {
+      this.currentUser = await this.users.getCurrentUser();
+    }
+    return this.currentUser;
+  }
+
+  // Mail
+  async sendEmail(to: string, subject: string, body: string, isHtml: boolean = true): Promise<void> {
+    return this.mail.sendEmail(to, subject, body, isHtml);
+  }
+
+  async replyToEmail(messageId: string, body: string, replyAll: boolean = false): Promise<void> {
+    return this.mail.replyToEmail(messageId, body, (await this.getCurrentUser()).mail, replyAll);
+  }
+
+  private formatMessageForDisplay(message: GmailMessage): LastEmailPreview {
+    const subject = getHeader(message.payload, 'Subject') || 'No Subject';
+    const receivedDateTime = new Date(Number(message.internalDate)).toISOString();
+    const html = extractHtmlBody(message.payload) ?? `<div class="email-preview bg-blue-50 p-4 rounded-lg border border-blue-200">
+        <p class="mb-2"><strong>Subject:</strong> ${subject}</p>
+        <p class="mb-2"><strong>Date:</strong> ${new Date(receivedDateTime).toLocaleString()}</p>
+        <p class="text-sm text-gray-600 mt-3"><em>${message.snippet || 'Email body content is not available.'}</em></p>
+      </div>`;
+    return { id: message.id, subject, html, receivedDateTime };
+  }
+
+  async getMessageBody(messageId: string): Promise<LastEmailPreview | null> {
+    const message = await this.mail.getMessageFull(messageId);
+    return message ? this.formatMessageForDisplay(message) : null;
+  }
+
+  async getLastEmailWithContact(contactEmail: string): Promise<LastEmailPreview | null> {
+    try {
+      const key = contactEmail.toLowerCase().trim();
+      const cached = this.lastEmailCache.get(key);
+      if (cached && Date.now() - cached.cachedAt < GmailFacade.PREVIEW_TTL_MS) {
+        return { id: cached.id, subject: cached.subject, html: cached.html, receivedDateTime: cached.receivedDateTime, categories: cached.categories };
+      }
+
+      const [latestId] = await this.mail.listMessageIds(`from:${key} OR to:${key}`, 1);
+      if (!latestId) return null;
+      const message = await this.mail.getMessageFull(latestId);
+      if (!message) return null;
+
+      const preview = this.formatMessageForDisplay(message);
+      this.lastEmailCache.set(key, { ...preview, cachedAt: Date.now() });
+      return preview;
+    } catch (error) {
+      console.error('Failed to get last email for contact:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Fetches sent and received message metadata, reusing cached metadata for ids seen before
+   */
+  private async fetchMailbox(comprehensive: boolean): Promise<MailboxSnapshot> {
+    const since = new Date();
+    since.setDate(since.getDate() - (comprehensive ? HISTORY_DAYS : 365));
+    const after = `${since.getFullYear()}/${since.getMonth() + 1}/${since.getDate()}`;
+    const max = comprehensive ? GMAIL_MAX_MESSAGES : GMAIL_QUICK_MESSAGES;
+
+    const [sentIds, receivedIds] = await Promise.all([
+      this.mail.listMessageIds(`in:sent after:${after}`, max),
+      this.mail.listMessageIds(`in:inbox after:${after}`, max),
+    ]);
+
+    const missing = [...new Set([...sentIds, ...receivedIds])].filter(id => !this.metadataCache.has(id));
+    const fetched = await this.mail.getMessagesMetadata(missing);
+    fetched.forEach(m => this.metadataCache.set(m.id, m));
+
+    const resolve = (ids: string[]) => ids.map(id => this.metadataCache.get(id)).filter((m): m is GmailMessage => !!m);
+    return { sent: resolve(sentIds), received: resolve(receivedIds) };
+  }
+
+  async getEmailInteractionsForAnalysis(limit: number = 200, useCache: boolean = true): Promise<EmailInteraction[]> {
+    if (!useCache) this.metadataCache.clear();
+    const userEmail = (await this.getCurrentUser()).mail;
+    const { sent, received } = await this.fetchMailbox(limit > 1000);
+
+    const interactions: EmailInteraction[] = [];
+
+    const toInteractions = (message: GmailMessage, direction: 'sent' | 'received') => {
+      const automatedHeaders = direction === 'received' && hasAutomatedHeaders(name => getHeader(message.payload, name));
+      return messageParticipants(message, direction, userEmail).map(({ address, role }): EmailInteraction => ({
+        id: message.id,
+        contactId: address,
+        subject: getHeader(message.payload, 'Subject') || 'No Subject',
+        date: new Date(Number(message.internalDate)),
+        direction,
+        isRead: direction === 'sent' || !(message.labelIds || []).includes('UNREAD'),
+        isReplied: false,
+        threadId: message.threadId,
+        internetMessageId: getHeader(message.payload, 'Message-ID') || undefined,
+        inReplyTo: getHeader(message.payload, 'In-Reply-To') || undefined,
+        role,
+        automatedHeaders: role === 'from' && automatedHeaders,
+      }));
+    };
+
+    sent.forEach(message => interactions.push(...toInteractions(message, 'sent')));
+    received.forEach(message => interactions.push(...toInteractions(message, 'received')));
+
+    const sortedInteractions = interactions.sort((a, b) => a.date.getTime() - b.date.getTime());
+    if (DEBUG_GMAIL) console.log(`Found ${sortedInteractions.length} Gmail interactions for analysis`);
+    return sortedInteractions;
+  }
+
+  async getContactsForAnalysis(options: ContactFetchOptions = {}): Promise<ContactCandidate[]> {
+    const userEmail = (await this.getCurrentUser()).mail;
+    const { maxEmails = 10000, useAllEmails = false } = options;
+
+    const googleRaw = await this.contacts.getContacts().catch(error => {
+      console.warn('Failed to load Google contacts (contacts.readonly granted?):', error);
+      return [];
+    });
+    const googleContacts = googleRaw
+      .map(c => {
+        const [addr = '', ...otherEmails] = (c.emailAddresses || [])
+          .map(e => (e.address || '').toLowerCase())
+          .filter(e => e && e !== userEmail);
+        // Further addresses are only proposed as merges (identity review), not merged outright
+        const contact: ContactCandidate = { id: addr, name: c.displayName || (addr.split('@')[0] || 'Unknown'), email: addr };
+        if (otherEmails.length > 0) contact.otherEmails = otherEmails;
+        if (c.profile) contact.profile = c.profile;
+        return contact;
+      })
+      .filter(c => c.email);
+
+    const { sent, received } = await this.fetchMailbox(useAllEmails);
+
+    const emailContacts = new Map<string, { id: string; name: string; email: string }>();
+    const addParticipants = (message: GmailMessage, direction: 'sent' | 'received') => {
+      messageParticipants(message, direction, userEmail).forEach(({ address, name }) => {
+        emailContacts.set(address, { id: address, name: name || address.split('@')[0], email: address });
+      });
+    };
+    sent.forEach(message => addParticipants(message, 'sent'));
+    received.forEach(message => addParticipants(message, 'received'));
+
+    const allByEmail = new Map<string, ContactCandidate>();
+    googleContacts.forEach(c => { if (!allByEmail.has(c.email)) allByEmail.set(c.email, c); });
+    emailContacts.forEach(c => { if (!allByEmail.has(c.email)) allByEmail.set(c.email, c); });
+    const all = Array.from(allByEmail.values());
+    if (DEBUG_GMAIL) console.log(`Found ${googleContacts.length} Google contacts and ${emailContacts.size} email contacts (${all.length} total)`);
+    return all.slice(0, maxEmails); // safety cap
+  }
+}
+
+export const gmailService = new GmailFacade();
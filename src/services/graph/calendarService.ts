@@ -0,0 +1,45 @@
+import { GraphClient } from './graphClient';
+
+type EmailAddress = { address: string; name?: string };
+
+export interface CalendarEvent {
+  id: string;
+  subject?: string;
+  start: { dateTime: string; timeZone: string };
+  isCancelled?: boolean;
+  isOnlineMeeting?: boolean;
+  organizer?: { emailAddress: EmailAddress };
+  attendees?: Array<{
+    type: 'required' | 'optional' | 'resource';
+    status?: { response: 'none' | 'organizer' | 'tentativelyAccepted' | 'accepted' | 'declined' | 'notResponded' };
+    emailAddress: EmailAddress;
+  }>;
+}
+
+type EventPage = { value?: CalendarEvent[]; '@odata.nextLink'?: string };
+
+const EVENT_SELECT = 'id,subject,start,isCancelled,isOnlineMeeting,organizer,attendees';
+
+export class CalendarService {
+  private readonly graph: GraphClient;
+  constructor(graph: GraphClient) {
+    this.graph = graph;
+  }
+
+  /**
+   * Event occurrences (recurring series expanded) between two instants, with start times in UTC
+   */
+  async getEventsBetween(startIso: string, endIso: string, pageSize: number = 500): Promise<CalendarEvent[]> {
+    const events: CalendarEvent[] = [];
+    let next: string | undefined =
+      `${this.graph.mailboxPath()}/calendarView?startDateTime=${startIso}&endDateTime=${endIso}&$top=${pageSize}&$select=${EVENT_SELECT}`;
+    while (next) {
+      const page: EventPage = await this.graph.request<EventPage>(next, 'GET', undefined, {
+        Prefer: 'outlook.timezone="UTC"'
+      });
+      events.push(...(page.value || []));
+      next = page['@odata.nextLink'];
+    }
+    return events;
+  }
+}
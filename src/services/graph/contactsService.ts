@@ -1,10 +1,36 @@
 import { GraphClient } from './graphClient';
-import type { EmailMessage } from './mailService';
+import { MESSAGE_LIST_SELECT, type EmailMessage } from './mailService';
+import type { ContactProfile } from '../../types/contact';
 
 interface EmailContactRaw {
   id: string;
   displayName: string;
   emailAddresses: Array<{ address: string; name?: string }>;
+  title?: string | null;
+  companyName?: string | null;
+  jobTitle?: string | null;
+  businessPhones?: string[];
+  mobilePhone?: string | null;
+  categories?: string[];
+  personalNotes?: string | null;
+}
+
+const CONTACT_SELECT = 'id,displayName,emailAddresses,title,companyName,jobTitle,businessPhones,mobilePhone,categories,personalNotes';
+
+/**
+ * Address book details of an Outlook contact, leaving out empty fields; undefined when none is filled in
+ */
+function toContactProfile(raw: EmailContactRaw): ContactProfile | undefined {
+  const profile: ContactProfile = {};
+  const text = (value?: string | null) => value?.trim() || undefined;
+  if (text(raw.title)) profile.title = text(raw.title);
+  if (text(raw.companyName)) profile.companyName = text(raw.companyName);
+  if (text(raw.jobTitle)) profile.jobTitle = text(raw.jobTitle);
+  const phones = [...(raw.businessPhones || []), raw.mobilePhone || ''].map(p => p.trim()).filter(Boolean);
+  if (phones.length > 0) profile.businessPhones = Array.from(new Set(phones));
+  if (raw.categories && raw.categories.length > 0) profile.categories = raw.categories;
+  if (text(raw.personalNotes)) profile.personalNotes = text(raw.personalNotes);
+  return Object.keys(profile).length > 0 ? profile : undefined;
 }
 
 export class ContactsService {
@@ -13,15 +39,59 @@ export class ContactsService {
     this.graph = graph;
   }
 
-  async getContacts(): Promise<EmailContactRaw[]> {
-    const response = await this.graph.request<{ value: EmailContactRaw[] }>(
-      '/me/contacts?$select=id,displayName,emailAddresses'
+  /** Every item of a collection, following @odata.nextLink (Graph pages contacts by 10 by default) */
+  private async getAllPages<T>(endpoint: string): Promise<T[]> {
+    type Page = { value?: T[]; '@odata.nextLink'?: string };
+    const items: T[] = [];
+    let next: string | undefined = endpoint;
+    while (next) {
+      const page: Page = await this.graph.request<Page>(next);
+      items.push(...(page.value || []));
+      next = page['@odata.nextLink'];
+    }
+    return items;
+  }
+
+  /**
+   * Every Outlook contact with its addresses and address book details, following paging
+   */
+  async getContacts(): Promise<Array<EmailContactRaw & { profile?: ContactProfile }>> {
+    const contacts = await this.getAllPages<EmailContactRaw>(
+      `${this.graph.mailboxPath()}/contacts?$top=500&$select=${CONTACT_SELECT}`
+    );
+    return contacts.map(raw => ({ ...raw, profile: toContactProfile(raw) }));
+  }
+
+  /**
+   * Every Outlook contact with its addresses and categories, following paging
+   */
+  async getContactCategories(): Promise<Array<{ id: string; emailAddresses: Array<{ address: string }>; categories: string[] }>> {
+    const contacts = await this.getAllPages<{ id: string; emailAddresses?: Array<{ address: string }>; categories?: string[] }>(
+      `${this.graph.mailboxPath()}/contacts?$top=500&$select=id,emailAddresses,categories`
     );
-    return response.value;
+    return contacts.map(c => ({ id: c.id, emailAddresses: c.emailAddresses || [], categories: c.categories || [] }));
+  }
+
+  /** Replaces the categories of an Outlook contact */
+  async updateContactCategories(contactId: string, categories: string[]): Promise<void> {
+    await this.graph.request(`${this.graph.mailboxPath()}/contacts/${encodeURIComponent(contactId)}`, 'PATCH', { categories });
   }
 
-  async getEmailMessagesFromPeriods(folder: 'inbox' | 'sentitems', periods: number[]): Promise<EmailMessage[]> {
-    const timeField = folder === 'sentitems' ? 'sentDateTime' : 'receivedDateTime';
+  /** Creates an Outlook contact for an address known only from mail */
+  async createContact(displayName: string, email: string, categories: string[]): Promise<void> {
+    await this.graph.request(`${this.graph.mailboxPath()}/contacts`, 'POST', {
+      displayName,
+      emailAddresses: [{ address: email, name: displayName }],
+      categories,
+    });
+  }
+
+  async getEmailMessagesFromPeriods(
+    folder: string,
+    periods: number[],
+    direction: 'sent' | 'received' = folder === 'sentitems' ? 'sent' : 'received'
+  ): Promise<EmailMessage[]> {
+    const timeField = direction === 'sent' ? 'sentDateTime' : 'receivedDateTime';
     const allEmails: EmailMessage[] = [];
     
     for (const daysBack of periods) {
@@ -29,7 +99,7 @@ export class ContactsService {
       cutoffDate.setDate(cutoffDate.getDate() - daysBack);
       const cutoffDateStr = cutoffDate.toISOString();
       const response = await this.graph.request<{ value: EmailMessage[] }>(
-        `/me/mailFolders/${folder}/messages?$top=100&$filter=${timeField} ge ${cutoffDateStr}&$orderby=${timeField} desc&$select=id,subject,receivedDateTime,sentDateTime,from,toRecipients,isRead`
+        `${this.graph.mailboxPath()}/mailFolders/${encodeURIComponent(folder)}/messages?$top=100&$filter=${timeField} ge ${cutoffDateStr}&$orderby=${timeField} desc&$select=${MESSAGE_LIST_SELECT}`
       );
       allEmails.push(...response.value);
       await new Promise(resolve => setTimeout(resolve, 100));
@@ -40,15 +110,16 @@ export class ContactsService {
   }
 
   async getEmailMessagesSince(
-    folder: 'inbox' | 'sentitems',
+    folder: string,
     sinceIso: string,
     maxPages: number = 5,
-    pageSize: number = 1000 // Optimized: 1000 per page = massive reduction in round trips
+    pageSize: number = 1000, // Optimized: 1000 per page = massive reduction in round trips
+    direction: 'sent' | 'received' = folder === 'sentitems' ? 'sent' : 'received'
   ): Promise<EmailMessage[]> {
     const startTime = performance.now();
     const emails: EmailMessage[] = [];
-    const timeField = folder === 'sentitems' ? 'sentDateTime' : 'receivedDateTime';
-    const baseUrl = `/me/mailFolders/${folder}/messages?$top=${pageSize}&$filter=${timeField} ge ${sinceIso}&$orderby=${timeField} desc&$select=id,subject,receivedDateTime,sentDateTime,from,toRecipients,isRead`;
+    const timeField = direction === 'sent' ? 'sentDateTime' : 'receivedDateTime';
+    const baseUrl = `${this.graph.mailboxPath()}/mailFolders/${encodeURIComponent(folder)}/messages?$top=${pageSize}&$filter=${timeField} ge ${sinceIso}&$orderby=${timeField} desc&$select=${MESSAGE_LIST_SELECT}`;
     
     // Fetch first page to get @odata.nextLink
     const firstResp = await this.graph.request<any>(baseUrl);
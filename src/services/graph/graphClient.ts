@@ -2,20 +2,43 @@ import type { MsalClient } from '../auth/msalClient';
 
 const DEBUG_GRAPH = import.meta.env.VITE_DEBUG_GRAPH === 'true';
 
+/** A response Graph answered with an error status */
+class GraphStatusError extends Error {
+  readonly status: number;
+
+  constructor(status: number, statusText: string) {
+    super(`Graph API call failed: ${status} ${statusText}`);
+    this.status = status;
+  }
+}
+
 export class GraphClient {
   private readonly msal: MsalClient;
   private readonly baseUrl: string;
+  private mailboxId = 'me';
 
   constructor(msal: MsalClient, baseUrl: string) {
     this.msal = msal;
     this.baseUrl = baseUrl;
   }
 
+  /** Selects the mailbox that mail and contact endpoints address ('me' or a mailbox address) */
+  setMailbox(mailboxId: string): void {
+    this.mailboxId = mailboxId;
+  }
+
+  /** `/me` for the signed-in user's mailbox, `/users/{address}` for a shared or delegated one */
+  mailboxPath(): string {
+    return this.mailboxId === 'me' ? '/me' : `/users/${encodeURIComponent(this.mailboxId)}`;
+  }
+
   async request<T>(
     endpoint: string,
-    method: 'GET' | 'POST' = 'GET',
+    method: 'GET' | 'POST' | 'PATCH' | 'DELETE' = 'GET',
     body?: unknown,
-    extraHeaders: Record<string, string> = {}
+    extraHeaders: Record<string, string> = {},
+    // Statuses the caller handles itself, e.g. 404 for a message that may be gone; they are not retried
+    finalStatuses: number[] = []
   ): Promise<T> {
     const token = await this.msal.getAccessToken();
     if (!token) throw new Error('No access token available');
@@ -28,7 +51,7 @@ export class GraphClient {
     } as Record<string, string>;
 
     const options: RequestInit = { method, headers };
-    if (body && method === 'POST') options.body = JSON.stringify(body);
+    if (body && (method === 'POST' || method === 'PATCH')) options.body = JSON.stringify(body);
 
     const maxRetries = 5;
     let attempt = 0;
@@ -44,7 +67,7 @@ export class GraphClient {
           attempt++;
           continue;
         }
-        if (!response.ok) throw new Error(`Graph API call failed: ${response.status} ${response.statusText}`);
+        if (!response.ok) throw new GraphStatusError(response.status, response.statusText);
 
         const status = response.status;
         const contentLength = response.headers.get('content-length');
@@ -56,6 +79,7 @@ export class GraphClient {
         return (await response.text()) as unknown as T;
       } catch (error) {
         lastError = error;
+        if (error instanceof GraphStatusError && finalStatuses.includes(error.status)) throw error;
         if (attempt >= maxRetries) {
           console.error('Graph API call failed:', error);
           throw error;
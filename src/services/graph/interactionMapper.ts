@@ -0,0 +1,139 @@
+import type { EmailMessage } from './mailService';
+import type { CalendarEvent } from './calendarService';
+import type { EmailInteraction, InteractionRole } from '../../types/contact';
+import { hasAutomatedHeaders } from '../automatedSenders';
+import { MEETING_ID_PREFIX } from '../storage/analysisStore';
+
+/**
+ * Thread key for a Graph message. conversationId is stable across replies and forwards
+ * within Exchange; messages without one (rare, e.g. some imported mail) become their own
+ * thread keyed by Message-ID so they never merge with unrelated mail of the same subject.
+ */
+export function resolveThreadId(email: EmailMessage): string {
+  if (email.conversationId) return email.conversationId;
+  if (email.internetMessageId) return `msg:${email.internetMessageId}`;
+  return `msg:${email.id}`;
+}
+
+/** A header from internetMessageHeaders; Graph only returns them for mail that came over the wire */
+function getHeader(email: EmailMessage, name: string): string | undefined {
+  return email.internetMessageHeaders?.find(h => h.name.toLowerCase() === name.toLowerCase())?.value;
+}
+
+type Recipient = { emailAddress: { address: string; name?: string } };
+
+/**
+ * The people on a message other than the user, each once with their most direct role.
+ * Sent mail: To, CC and BCC recipients. Received mail: the sender and Reply-To addresses ('from')
+ * plus everyone copied alongside the user.
+ */
+function messageParticipants(
+  email: EmailMessage,
+  direction: 'sent' | 'received',
+  userEmail: string
+): Array<{ address: string; name?: string; role: InteractionRole }> {
+  const groups: Array<[InteractionRole, Array<Recipient | undefined> | undefined]> = direction === 'sent'
+    ? [['to', email.toRecipients], ['cc', email.ccRecipients], ['bcc', email.bccRecipients]]
+    : [['from', [email.from]], ['from', email.replyTo], ['to', email.toRecipients], ['cc', email.ccRecipients]];
+
+  const participants = new Map<string, { address: string; name?: string; role: InteractionRole }>();
+  groups.forEach(([role, recipients]) => {
+    (recipients || []).forEach(recipient => {
+      const address = recipient?.emailAddress?.address?.toLowerCase() || '';
+      if (address && address !== userEmail && !participants.has(address)) {
+        participants.set(address, { address, name: recipient?.emailAddress?.name, role });
+      }
+    });
+  });
+  return Array.from(participants.values());
+}
+
+/**
+ * One interaction per external recipient of a sent message
+ */
+export function mapSentMessage(email: EmailMessage, userEmail: string): EmailInteraction[] {
+  return messageParticipants(email, 'sent', userEmail).map(({ address, role }) => ({
+    id: email.id,
+    contactId: address,
+    subject: email.subject || 'No Subject',
+    date: new Date(email.sentDateTime || email.receivedDateTime || new Date().toISOString()),
+    direction: 'sent',
+    isRead: true,
+    isReplied: false,
+    threadId: resolveThreadId(email),
+    internetMessageId: email.internetMessageId,
+    inReplyTo: getHeader(email, 'In-Reply-To'),
+    role,
+  }));
+}
+
+/**
+ * One interaction for the external sender of a received message, and one for each
+ * other external person on it
+ */
+export function mapReceivedMessage(email: EmailMessage, userEmail: string): EmailInteraction[] {
+  const automatedHeaders = hasAutomatedHeaders(name => getHeader(email, name));
+  return messageParticipants(email, 'received', userEmail).map(({ address, role }) => ({
+    id: email.id,
+    contactId: address,
+    subject: email.subject || 'No Subject',
+    date: new Date(email.receivedDateTime || email.sentDateTime || new Date().toISOString()),
+    direction: 'received',
+    isRead: !!email.isRead,
+    isReplied: false,
+    threadId: resolveThreadId(email),
+    internetMessageId: email.internetMessageId,
+    inReplyTo: getHeader(email, 'In-Reply-To'),
+    role,
+    automatedHeaders: role === 'from' && automatedHeaders,
+  }));
+}
+
+/**
+ * Email-derived contacts of a message: everyone on it except the user
+ */
+export function mapMessageContacts(
+  email: EmailMessage,
+  direction: 'sent' | 'received',
+  userEmail: string
+): Array<{ id: string; name: string; email: string }> {
+  return messageParticipants(email, direction, userEmail).map(({ address, name }) => ({
+    id: address,
+    name: name || address.split('@')[0],
+    email: address,
+  }));
+}
+
+/**
+ * One meeting interaction per attendee of a past event other than the user. Cancelled events,
+ * rooms and attendees who declined are left out. Ids are prefixed so meetings can be replaced
+ * as a set without touching mail.
+ */
+export function mapMeetingAttendees(event: CalendarEvent, userEmail: string): EmailInteraction[] {
+  if (event.isCancelled) return [];
+  const organizer = event.organizer?.emailAddress?.address?.toLowerCase() || '';
+  const direction = organizer === userEmail ? 'sent' : 'received';
+  // Graph omits the zone designator even when asked for UTC
+  const date = new Date(/[zZ]|[+-]\d\d:\d\d$/.test(event.start.dateTime) ? event.start.dateTime : `${event.start.dateTime}Z`);
+
+  const participants = new Map<string, InteractionRole>();
+  if (organizer && organizer !== userEmail) participants.set(organizer, 'from');
+  (event.attendees || []).forEach(attendee => {
+    const address = attendee.emailAddress?.address?.toLowerCase() || '';
+    if (!address || address === userEmail || participants.has(address)) return;
+    if (attendee.type === 'resource' || attendee.status?.response === 'declined') return;
+    participants.set(address, attendee.type === 'optional' ? 'cc' : 'to');
+  });
+
+  return Array.from(participants.entries()).map(([address, role]) => ({
+    id: `${MEETING_ID_PREFIX}${event.id}`,
+    contactId: address,
+    subject: event.subject || 'No Subject',
+    date,
+    direction,
+    isRead: true,
+    isReplied: false,
+    role,
+    channel: 'meeting',
+  }));
+}
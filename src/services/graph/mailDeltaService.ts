@@ -0,0 +1,59 @@
+import { GraphClient } from './graphClient';
+import { MESSAGE_LIST_SELECT, type EmailMessage } from './mailService';
+
+type DeltaPage = {
+  value?: Array<EmailMessage & { '@removed'?: { reason: string } }>;
+  '@odata.nextLink'?: string;
+  '@odata.deltaLink'?: string;
+};
+
+export interface MailDeltaResult {
+  changed: EmailMessage[];
+  removedIds: string[];
+  deltaLink: string;
+}
+
+export class MailDeltaService {
+  private readonly graph: GraphClient;
+  constructor(graph: GraphClient) {
+    this.graph = graph;
+  }
+
+  /**
+   * Pages through /messages/delta for a folder. Without a deltaLink this is the initial full
+   * sync (bounded by sinceIso); with one, Graph only returns messages changed since that link.
+   */
+  async fetchChanges(
+    folder: string,
+    deltaLink: string | undefined,
+    sinceIso: string,
+    pageSize: number = 1000
+  ): Promise<MailDeltaResult> {
+    const startTime = performance.now();
+    const changed: EmailMessage[] = [];
+    const removedIds: string[] = [];
+    const headers = { Prefer: `odata.maxpagesize=${pageSize}` };
+
+    let url: string | undefined = deltaLink
+      ?? `${this.graph.mailboxPath()}/mailFolders/${encodeURIComponent(folder)}/messages/delta?$select=${MESSAGE_LIST_SELECT}&$filter=receivedDateTime ge ${sinceIso}`;
+    let nextDeltaLink: string | undefined;
+    let pages = 0;
+
+    while (url) {
+      const page: DeltaPage = await this.graph.request<DeltaPage>(url, 'GET', undefined, headers);
+      (page.value || []).forEach(item => {
+        if (item['@removed']) removedIds.push(item.id);
+        else changed.push(item);
+      });
+      pages++;
+      url = page['@odata.nextLink'];
+      nextDeltaLink = page['@odata.deltaLink'] ?? nextDeltaLink;
+      if (url) await new Promise(resolve => setTimeout(resolve, 5)); // Minimal delay for rate limiting
+    }
+
+    if (!nextDeltaLink) throw new Error(`Delta query for ${folder} ended without a deltaLink`);
+
+    console.log(`[${folder}] Delta ${deltaLink ? 'incremental' : 'initial'} sync: ${pages} pages, ${changed.length} changed, ${removedIds.length} removed in ${(performance.now() - startTime).toFixed(0)}ms`);
+    return { changed, removedIds, deltaLink: nextDeltaLink };
+  }
+}
@@ -0,0 +1,72 @@
+import { GraphClient } from './graphClient';
+import type { MailFolderInfo } from '../mailProvider';
+
+interface MailFolderRaw {
+  id: string;
+  displayName: string;
+  parentFolderId?: string;
+  childFolderCount?: number;
+  totalItemCount?: number;
+}
+
+type FolderPage = { value?: MailFolderRaw[]; '@odata.nextLink'?: string };
+
+const FOLDER_SELECT = 'id,displayName,parentFolderId,childFolderCount,totalItemCount';
+// Deep folder trees are rare; this keeps a pathological mailbox from fanning out forever
+const MAX_DEPTH = 6;
+
+export class MailFolderService {
+  private readonly graph: GraphClient;
+  constructor(graph: GraphClient) {
+    this.graph = graph;
+  }
+
+  /**
+   * Every mail folder including child folders, depth first, with a "Parent / Child" path.
+   * Inbox and Sent Items are tagged with their well-known names.
+   */
+  async listFolders(): Promise<MailFolderInfo[]> {
+    const [roots, inbox, sent] = await Promise.all([
+      this.fetchAll(`${this.graph.mailboxPath()}/mailFolders?$top=100&$select=${FOLDER_SELECT}`),
+      this.graph.request<{ id: string }>(`${this.graph.mailboxPath()}/mailFolders/inbox?$select=id`).catch(() => null),
+      this.graph.request<{ id: string }>(`${this.graph.mailboxPath()}/mailFolders/sentitems?$select=id`).catch(() => null),
+    ]);
+    const wellKnown = new Map<string, 'inbox' | 'sentitems'>();
+    if (inbox) wellKnown.set(inbox.id, 'inbox');
+    if (sent) wellKnown.set(sent.id, 'sentitems');
+
+    const folders: MailFolderInfo[] = [];
+    const visit = async (raw: MailFolderRaw[], parentPath: string, depth: number) => {
+      for (const folder of raw) {
+        const path = parentPath ? `${parentPath} / ${folder.displayName}` : folder.displayName;
+        folders.push({
+          id: folder.id,
+          displayName: folder.displayName,
+          path,
+          parentId: folder.parentFolderId,
+          totalItemCount: folder.totalItemCount ?? 0,
+          wellKnownName: wellKnown.get(folder.id),
+        });
+        if ((folder.childFolderCount ?? 0) > 0 && depth < MAX_DEPTH) {
+          const children = await this.fetchAll(
+            `${this.graph.mailboxPath()}/mailFolders/${encodeURIComponent(folder.id)}/childFolders?$top=100&$select=${FOLDER_SELECT}`
+          );
+          await visit(children, path, depth + 1);
+        }
+      }
+    };
+    await visit(roots, '', 0);
+    return folders;
+  }
+
+  private async fetchAll(url: string): Promise<MailFolderRaw[]> {
+    const folders: MailFolderRaw[] = [];
+    let next: string | undefined = url;
+    while (next) {
+      const page: FolderPage = await this.graph.request<FolderPage>(next);
+      folders.push(...(page.value || []));
+      next = page['@odata.nextLink'];
+    }
+    return folders;
+  }
+}
@@ -1,27 +1,58 @@
 import { GraphClient } from './graphClient';
 
+// MAPI property that holds a message in the Outbox until the given UTC time
+const DEFERRED_SEND_TIME_PROPERTY = 'SystemTime 0x3FEF';
+
+// Fields needed to turn a message into interactions; conversationId drives thread grouping
+export const MESSAGE_LIST_SELECT = 'id,subject,receivedDateTime,sentDateTime,from,toRecipients,ccRecipients,bccRecipients,replyTo,isRead,conversationId,internetMessageId,internetMessageHeaders';
+
 export interface EmailMessage {
   id: string;
   subject: string;
   body?: { content: string; contentType: 'text' | 'html' };
   from: { emailAddress: { address: string; name?: string } };
   toRecipients: Array<{ emailAddress: { address: string; name?: string } }>;
+  ccRecipients?: Array<{ emailAddress: { address: string; name?: string } }>;
+  bccRecipients?: Array<{ emailAddress: { address: string; name?: string } }>;
+  replyTo?: Array<{ emailAddress: { address: string; name?: string } }>;
+  internetMessageHeaders?: Array<{ name: string; value: string }>;
   receivedDateTime: string;
   sentDateTime?: string;
   isRead: boolean;
   categories?: string[];
+  conversationId?: string;
+  internetMessageId?: string;
+}
+
+/** Puts the reply text at the top of the quoted body Graph generated (inside <body> when present) */
+function insertAboveQuote(quoted: string, reply: string): string {
+  const bodyTag = /<body[^>]*>/i.exec(quoted);
+  if (!bodyTag) return `${reply}${quoted}`;
+  const at = bodyTag.index + bodyTag[0].length;
+  return `${quoted.slice(0, at)}${reply}${quoted.slice(at)}`;
 }
 
+/**
+ * Mail operations on the active mailbox (mailboxPath). With a shared mailbox active, mail is sent,
+ * scheduled and drafted as that mailbox, which needs Send As rights and Mail.Send.Shared.
+ */
 export class MailService {
   private readonly graph: GraphClient;
   constructor(graph: GraphClient) {
     this.graph = graph;
   }
 
-  async getEmailMessages(folder: 'inbox' | 'sentitems' = 'inbox', limit: number = 50): Promise<EmailMessage[]> {
-    const orderBy = folder === 'sentitems' ? 'sentDateTime' : 'receivedDateTime';
+  /**
+   * Latest messages of a folder (id or well-known name). Sent folders are ordered by sentDateTime.
+   */
+  async getEmailMessages(
+    folder: string = 'inbox',
+    limit: number = 50,
+    direction: 'sent' | 'received' = folder === 'sentitems' ? 'sent' : 'received'
+  ): Promise<EmailMessage[]> {
+    const orderBy = direction === 'sent' ? 'sentDateTime' : 'receivedDateTime';
     const resp = await this.graph.request<{ value: EmailMessage[] }>(
-      `/me/mailFolders/${folder}/messages?$top=${limit}&$orderby=${orderBy} desc&$select=id,subject,receivedDateTime,sentDateTime,from,toRecipients,isRead`
+      `${this.graph.mailboxPath()}/mailFolders/${encodeURIComponent(folder)}/messages?$top=${limit}&$orderby=${orderBy} desc&$select=${MESSAGE_LIST_SELECT}`
     );
     return resp.value;
   }
@@ -29,7 +60,7 @@ export class MailService {
   async getMessageBodyQuick(messageId: string): Promise<{ id: string; subject?: string; receivedDateTime?: string; body?: { content: string; contentType: 'text' | 'html' } } | null> {
     try {
       const safeId = encodeURIComponent(messageId);
-      const endpoint = `/me/messages/${safeId}?$select=id,subject,receivedDateTime,body`;
+      const endpoint = `${this.graph.mailboxPath()}/messages/${safeId}?$select=id,subject,receivedDateTime,body`;
       const msg = await this.graph.request<any>(endpoint, 'GET', undefined, {
         Prefer: 'outlook.body-content-type="html"'
       });
@@ -53,7 +84,109 @@ export class MailService {
       },
       saveToSentItems: true,
     };
-    await this.graph.request('/me/sendMail', 'POST', emailPayload);
+    await this.graph.request(`${this.graph.mailboxPath()}/sendMail`, 'POST', emailPayload);
+  }
+
+  /**
+   * Replies in the original thread: createReply/createReplyAll sets the recipients, the "RE:" subject,
+   * the In-Reply-To/References headers and the quoted original; the new text goes above the quote.
+   */
+  async replyToEmail(messageId: string, body: string, replyAll: boolean = false): Promise<void> {
+    const base = `${this.graph.mailboxPath()}/messages/${encodeURIComponent(messageId)}`;
+    const headers = { Prefer: 'IdType="ImmutableId", outlook.body-content-type="html"' };
+    const draft = await this.graph.request<{ id: string; body?: { content: string } }>(
+      `${base}/${replyAll ? 'createReplyAll' : 'createReply'}`,
+      'POST',
+      {},
+      headers
+    );
+    const draftPath = `${this.graph.mailboxPath()}/messages/${encodeURIComponent(draft.id)}`;
+    await this.graph.request(draftPath, 'PATCH', {
+      body: { contentType: 'HTML', content: insertAboveQuote(draft.body?.content ?? '', body) },
+    }, headers);
+    await this.graph.request(`${draftPath}/send`, 'POST', undefined, headers);
+  }
+
+  /**
+   * Creates the message and sends it with a deferred send time (PidTagDeferredSendTime), so
+   * Exchange keeps it in the Outbox until then. Immutable ids keep the id valid after the move.
+   */
+  async scheduleEmail(to: string, subject: string, body: string, sendAt: Date, isHtml: boolean = true): Promise<string> {
+    const headers = { Prefer: 'IdType="ImmutableId"' };
+    const draft = await this.graph.request<{ id: string }>(`${this.graph.mailboxPath()}/messages`, 'POST', {
+      subject,
+      body: { contentType: isHtml ? 'HTML' : 'Text', content: body },
+      toRecipients: [{ emailAddress: { address: to } }],
+      singleValueExtendedProperties: [{ id: DEFERRED_SEND_TIME_PROPERTY, value: sendAt.toISOString() }],
+    }, headers);
+    await this.graph.request(`${this.graph.mailboxPath()}/messages/${encodeURIComponent(draft.id)}/send`, 'POST', undefined, headers);
+    return draft.id;
+  }
+
+  /** Creates a draft in the Drafts folder, or updates it when draftId is given; returns its (immutable) id */
+  async saveDraft(to: string, subject: string, body: string, draftId?: string): Promise<string> {
+    const headers = { Prefer: 'IdType="ImmutableId"' };
+    const message = {
+      subject,
+      body: { contentType: 'HTML', content: body },
+      toRecipients: [{ emailAddress: { address: to } }],
+    };
+    if (draftId) {
+      await this.graph.request(`${this.graph.mailboxPath()}/messages/${encodeURIComponent(draftId)}`, 'PATCH', message, headers);
+      return draftId;
+    }
+    const created = await this.graph.request<{ id: string }>(`${this.graph.mailboxPath()}/messages`, 'POST', message, headers);
+    return created.id;
+  }
+
+  /** Subject and HTML body of a draft; null when it is gone or no longer a draft (sent) */
+  async getDraft(draftId: string): Promise<{ subject: string; html: string } | null> {
+    try {
+      const message = await this.graph.request<{ subject?: string; isDraft?: boolean; body?: { content: string } }>(
+        `${this.graph.mailboxPath()}/messages/${encodeURIComponent(draftId)}?$select=subject,body,isDraft`,
+        'GET',
+        undefined,
+        { Prefer: 'IdType="ImmutableId", outlook.body-content-type="html"' }
+      );
+      if (!message?.isDraft) return null;
+      return { subject: message.subject ?? '', html: message.body?.content ?? '' };
+    } catch {
+      return null;
+    }
+  }
+
+  async deleteDraft(draftId: string): Promise<void> {
+    await this.graph.request(`${this.graph.mailboxPath()}/messages/${encodeURIComponent(draftId)}`, 'DELETE', undefined, { Prefer: 'IdType="ImmutableId"' });
+  }
+
+  /**
+   * Where a deferred message stands: still waiting in the Outbox, sent (Exchange moved it out of
+   * the Outbox), or gone (deleted before it was sent)
+   */
+  async getScheduledEmailStatus(messageId: string): Promise<'scheduled' | 'sent' | 'gone'> {
+    const headers = { Prefer: 'IdType="ImmutableId"' };
+    try {
+      const [message, outbox] = await Promise.all([
+        // A 404 means the message is gone, so it is answered at once instead of retried
+        this.graph.request<{ parentFolderId: string }>(`${this.graph.mailboxPath()}/messages/${encodeURIComponent(messageId)}?$select=parentFolderId`, 'GET', undefined, headers, [404]),
+        this.graph.request<{ id: string }>(`${this.graph.mailboxPath()}/mailFolders/outbox?$select=id`, 'GET', undefined, headers),
+      ]);
+      return message.parentFolderId === outbox.id ? 'scheduled' : 'sent';
+    } catch (error) {
+      if (error instanceof Error && error.message.includes(': 404')) return 'gone';
+      throw error;
+    }
+  }
+
+  /** Deletes a deferred message from the Outbox; refuses once Exchange has sent it, so the sent copy stays */
+  async cancelScheduledEmail(messageId: string): Promise<void> {
+    const headers = { Prefer: 'IdType="ImmutableId"' };
+    const [message, outbox] = await Promise.all([
+      this.graph.request<{ parentFolderId: string }>(`${this.graph.mailboxPath()}/messages/${encodeURIComponent(messageId)}?$select=parentFolderId`, 'GET', undefined, headers),
+      this.graph.request<{ id: string }>(`${this.graph.mailboxPath()}/mailFolders/outbox?$select=id`, 'GET', undefined, headers),
+    ]);
+    if (message.parentFolderId !== outbox.id) throw new Error('The message has already been sent');
+    await this.graph.request(`${this.graph.mailboxPath()}/messages/${encodeURIComponent(messageId)}`, 'DELETE', undefined, headers);
   }
 }
 
@@ -0,0 +1,44 @@
+import { GraphClient } from './graphClient';
+import type { FollowUpTask } from '../../types/contact';
+
+// To Do list that mirrored follow-ups go to; created on first use
+const TODO_LIST_NAME = 'OLX Follow-ups';
+
+export class TodoService {
+  private readonly graph: GraphClient;
+  private listId: string | null = null;
+  constructor(graph: GraphClient) {
+    this.graph = graph;
+  }
+
+  /** Creates a To Do task for the follow-up and returns its id. To Do is personal, so this always uses /me. */
+  async createTask(task: FollowUpTask): Promise<string> {
+    const listId = await this.getListId();
+    const created = await this.graph.request<{ id: string }>(`/me/todo/lists/${encodeURIComponent(listId)}/tasks`, 'POST', {
+      title: `Follow up: ${task.contactName}`,
+      body: { content: [task.contactId, task.note].filter(Boolean).join('\n'), contentType: 'text' },
+      dueDateTime: { dateTime: `${task.dueDate}T00:00:00`, timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC' },
+      importance: task.priority,
+    });
+    return created.id;
+  }
+
+  async completeTask(todoTaskId: string): Promise<void> {
+    const listId = await this.getListId();
+    await this.graph.request(`/me/todo/lists/${encodeURIComponent(listId)}/tasks/${encodeURIComponent(todoTaskId)}`, 'PATCH', { status: 'completed' });
+  }
+
+  async deleteTask(todoTaskId: string): Promise<void> {
+    const listId = await this.getListId();
+    await this.graph.request(`/me/todo/lists/${encodeURIComponent(listId)}/tasks/${encodeURIComponent(todoTaskId)}`, 'DELETE');
+  }
+
+  private async getListId(): Promise<string> {
+    if (this.listId) return this.listId;
+    const lists = await this.graph.request<{ value: Array<{ id: string; displayName: string }> }>('/me/todo/lists');
+    const existing = lists.value.find(list => list.displayName === TODO_LIST_NAME);
+    const list = existing ?? await this.graph.request<{ id: string }>('/me/todo/lists', 'POST', { displayName: TODO_LIST_NAME });
+    this.listId = list.id;
+    return list.id;
+  }
+}
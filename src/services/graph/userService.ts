@@ -1,14 +1,27 @@
 import { GraphClient } from './graphClient';
 
+export interface GraphUser {
+  displayName: string;
+  mail: string;
+  id: string;
+  /** Sign-in name; the address to use when mail is empty (accounts without an Exchange mailbox set) */
+  userPrincipalName?: string;
+}
+
 export class UserService {
   private readonly graph: GraphClient;
   constructor(graph: GraphClient) {
     this.graph = graph;
   }
 
-  async getCurrentUser(): Promise<{ displayName: string; mail: string; id: string }> {
+  async getCurrentUser(): Promise<GraphUser> {
     return this.graph.request('/me');
   }
+
+  /** A user or shared mailbox by address; needs User.ReadBasic.All */
+  async getUser(address: string): Promise<{ displayName: string; mail: string; id: string }> {
+    return this.graph.request(`/users/${encodeURIComponent(address)}?$select=id,displayName,mail`);
+  }
 }
 
 
@@ -0,0 +1,189 @@
+import type { ContactCandidate, EmailInteraction, IdentityDecisions, MergeSuggestion } from '../types/contact';
+
+const STORAGE_KEY = 'olx_identity_decisions';
+
+// Name buckets larger than this (very common first names) are not compared pairwise
+const MAX_NAME_BUCKET = 200;
+// Threads with more participants say little about who is the same person
+const MAX_THREAD_PARTICIPANTS = 6;
+const MIN_SHARED_THREADS = 3;
+
+const EMPTY_DECISIONS: IdentityDecisions = { version: 1, merges: {}, dismissed: [] };
+
+export const suggestionKey = (a: string, b: string) => [a, b].sort().join('|');
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/ä/g, 'ae')
+    .replace(/ö/g, 'oe')
+    .replace(/ü/g, 'ue')
+    .replace(/ß/g, 'ss')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '');
+}
+
+/**
+ * Name tokens from the display name, or from the address' local part when the display
+ * name is missing or is just the local part again
+ */
+function nameTokens(contact: ContactCandidate): string[] {
+  const local = contact.email.split('@')[0];
+  const fromName = normalize(contact.name).split(/[^a-z]+/).filter(Boolean);
+  if (fromName.length >= 2 && contact.name.toLowerCase() !== local) return fromName;
+  return normalize(local).split(/[^a-z]+/).filter(Boolean);
+}
+
+const compatibleGivenName = (a: string, b: string) =>
+  a === b || (a.length === 1 && b.startsWith(a)) || (b.length === 1 && a.startsWith(b));
+
+/** Same surname and a matching (or initial-matching) given name, in either order */
+function namesMatch(a: string[], b: string[]): boolean {
+  if (a.length < 2 || b.length < 2) return false;
+  return a.some((surname, i) => {
+    if (surname.length < 3 || !b.includes(surname)) return false;
+    const restA = a.filter((_, k) => k !== i);
+    const restB = b.filter(token => token !== surname);
+    return restA.some(x => restB.some(y => compatibleGivenName(x, y)));
+  });
+}
+
+/** Follows merge decisions (including chains) to the address a contact belongs to */
+export function resolvePrimaryEmail(email: string, merges: Record<string, string>): string {
+  let current = email;
+  for (let hops = 0; hops < 10 && merges[current]; hops++) {
+    current = merges[current];
+  }
+  return current;
+}
+
+/**
+ * Proposes pairs of addresses that likely belong to the same person, based on the address book,
+ * display-name similarity and threads both addresses took part in. Pairs already merged or
+ * dismissed are left out.
+ */
+export function proposeIdentityMerges(
+  contacts: ContactCandidate[],
+  interactions: EmailInteraction[],
+  decisions: IdentityDecisions
+): MergeSuggestion[] {
+  const byEmail = new Map(contacts.map(c => [c.email, c]));
+  const dismissed = new Set(decisions.dismissed);
+
+  const messagesByContact = new Map<string, Set<string>>();
+  const participantsByThread = new Map<string, Set<string>>();
+  interactions.forEach(interaction => {
+    if (!messagesByContact.has(interaction.contactId)) messagesByContact.set(interaction.contactId, new Set());
+    messagesByContact.get(interaction.contactId)!.add(interaction.id);
+    if (!interaction.threadId) return;
+    if (!participantsByThread.has(interaction.threadId)) participantsByThread.set(interaction.threadId, new Set());
+    participantsByThread.get(interaction.threadId)!.add(interaction.contactId);
+  });
+
+  const countShared = (a: Set<string> | undefined, b: Set<string> | undefined) => {
+    if (!a || !b) return 0;
+    let count = 0;
+    a.forEach(value => { if (b.has(value)) count++; });
+    return count;
+  };
+
+  const candidates = new Map<string, { a: string; b: string; reasons: string[]; score: number }>();
+  const addReason = (a: string, b: string, reason: string, points: number) => {
+    if (a === b || !byEmail.has(a) || !byEmail.has(b)) return;
+    if (decisions.merges[a] || decisions.merges[b]) return;
+    const key = suggestionKey(a, b);
+    if (dismissed.has(key)) return;
+    let candidate = candidates.get(key);
+    if (!candidate) {
+      candidate = { a, b, reasons: [], score: 0 };
+      candidates.set(key, candidate);
+    }
+    if (!candidate.reasons.includes(reason)) {
+      candidate.reasons.push(reason);
+      candidate.score += points;
+    }
+  };
+
+  // Address book: one entry listing several addresses
+  contacts.forEach(contact => {
+    (contact.otherEmails ?? []).forEach(other => addReason(contact.email, other, 'Same address book entry', 3));
+  });
+
+  // Display names
+  const tokensByEmail = new Map(contacts.map(c => [c.email, nameTokens(c)]));
+  const buckets = new Map<string, string[]>();
+  tokensByEmail.forEach((tokens, email) => {
+    tokens.filter(t => t.length >= 3).forEach(token => {
+      if (!buckets.has(token)) buckets.set(token, []);
+      buckets.get(token)!.push(email);
+    });
+  });
+  buckets.forEach(emails => {
+    if (emails.length < 2 || emails.length > MAX_NAME_BUCKET) return;
+    for (let i = 0; i < emails.length; i++) {
+      for (let j = i + 1; j < emails.length; j++) {
+        if (namesMatch(tokensByEmail.get(emails[i])!, tokensByEmail.get(emails[j])!)) {
+          addReason(emails[i], emails[j], 'Similar name', 2);
+        }
+      }
+    }
+  });
+
+  // Threads: both addresses in the same small threads but never on the same message
+  const sharedThreadCounts = new Map<string, number>();
+  participantsByThread.forEach(participants => {
+    if (participants.size < 2 || participants.size > MAX_THREAD_PARTICIPANTS) return;
+    const list = Array.from(participants);
+    for (let i = 0; i < list.length; i++) {
+      for (let j = i + 1; j < list.length; j++) {
+        const key = suggestionKey(list[i], list[j]);
+        sharedThreadCounts.set(key, (sharedThreadCounts.get(key) ?? 0) + 1);
+      }
+    }
+  });
+  sharedThreadCounts.forEach((count, key) => {
+    const [a, b] = key.split('|');
+    if (count < MIN_SHARED_THREADS && !candidates.has(key)) return;
+    if (countShared(messagesByContact.get(a), messagesByContact.get(b)) > 0) return;
+    addReason(a, b, `${count} shared thread${count === 1 ? '' : 's'}`, count >= MIN_SHARED_THREADS ? 2 : 1);
+  });
+
+  const addressBookPrimary = new Set(contacts.filter(c => (c.otherEmails ?? []).length > 0).map(c => c.email));
+  const activity = (email: string) => messagesByContact.get(email)?.size ?? 0;
+
+  return Array.from(candidates.entries())
+    .map(([key, { a, b, reasons, score }]) => {
+      // The address book's main address wins, otherwise the busier address
+      const aFirst = addressBookPrimary.has(a) !== addressBookPrimary.has(b)
+        ? addressBookPrimary.has(a)
+        : activity(a) !== activity(b) ? activity(a) > activity(b) : a < b;
+      const [primary, alias] = aFirst ? [byEmail.get(a)!, byEmail.get(b)!] : [byEmail.get(b)!, byEmail.get(a)!];
+      return {
+        key,
+        primary: { email: primary.email, name: primary.name },
+        alias: { email: alias.email, name: alias.name },
+        reasons,
+        score,
+      };
+    })
+    .sort((x, y) => y.score - x.score);
+}
+
+export function loadIdentityDecisions(): IdentityDecisions {
+  try {
+    const raw = typeof window !== 'undefined' ? window.localStorage.getItem(STORAGE_KEY) : null;
+    if (!raw) return EMPTY_DECISIONS;
+    return { ...EMPTY_DECISIONS, ...(JSON.parse(raw) as IdentityDecisions) };
+  } catch (error) {
+    console.warn('Failed to load identity decisions:', error);
+    return EMPTY_DECISIONS;
+  }
+}
+
+export function saveIdentityDecisions(decisions: IdentityDecisions): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(decisions));
+  } catch (error) {
+    console.warn('Failed to save identity decisions:', error);
+  }
+}
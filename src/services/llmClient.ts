@@ -8,6 +8,9 @@ export interface GenerateDraftParams {
   daysSinceLastContact?: number;
   contactCategory?: 'recent' | 'in_touch' | 'inactive';
   totalEmailCount?: number;
+  contactTitle?: string; // honorific from the address book, e.g. "Frau Dr."
+  contactCompany?: string;
+  contactJobTitle?: string;
 }
 
 export interface GeneratedDraft {
@@ -79,6 +82,9 @@ class DefaultLlmClient implements LlmClient {
       daysSinceLastContact: params.daysSinceLastContact,
       contactCategory: params.contactCategory,
       totalEmailCount: params.totalEmailCount,
+      contactTitle: params.contactTitle,
+      contactCompany: params.contactCompany,
+      contactJobTitle: params.contactJobTitle,
     });
   
     const payload = {
@@ -0,0 +1,32 @@
+import type { MailFolderSelection } from './mailProvider';
+
+const STORAGE_KEY = 'olx_mail_folders';
+
+export const DEFAULT_MAIL_FOLDERS: MailFolderSelection[] = [
+  { folder: 'sentitems', direction: 'sent', displayName: 'Sent Items' },
+  { folder: 'inbox', direction: 'received', displayName: 'Inbox' },
+];
+
+// Folder ids are per mailbox; only the well-known defaults work everywhere
+const storageKey = (mailboxId: string) => (mailboxId === 'me' ? STORAGE_KEY : `${STORAGE_KEY}:${mailboxId.toLowerCase()}`);
+
+export function loadMailFolderSelection(mailboxId: string = 'me'): MailFolderSelection[] {
+  try {
+    const raw = typeof window !== 'undefined' ? window.localStorage.getItem(storageKey(mailboxId)) : null;
+    if (!raw) return DEFAULT_MAIL_FOLDERS;
+    const parsed = JSON.parse(raw) as { version: number; folders: MailFolderSelection[] };
+    // An empty selection would analyze nothing; fall back to the defaults
+    return parsed.folders?.length ? parsed.folders : DEFAULT_MAIL_FOLDERS;
+  } catch (error) {
+    console.warn('Failed to load mail folder selection:', error);
+    return DEFAULT_MAIL_FOLDERS;
+  }
+}
+
+export function saveMailFolderSelection(folders: MailFolderSelection[], mailboxId: string = 'me'): void {
+  try {
+    localStorage.setItem(storageKey(mailboxId), JSON.stringify({ version: 1, folders }));
+  } catch (error) {
+    console.warn('Failed to save mail folder selection:', error);
+  }
+}
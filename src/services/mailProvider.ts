@@ -0,0 +1,160 @@
+import type { EmailProvider } from '../types';
+import type { ContactCandidate, ContactWithAnalysis, EmailInteraction, FollowUpTask } from '../types/contact';
+import { graphService } from './microsoftGraph';
+import { gmailService } from './gmailApi';
+import { setMailboxProvider } from './mailboxes';
+
+export type MailProviderType = EmailProvider['type'];
+
+export interface MailUser {
+  displayName: string;
+  mail: string;
+  id: string;
+}
+
+export interface ContactFetchOptions {
+  maxEmails?: number;
+  useAllEmails?: boolean;
+  quickMode?: boolean;
+}
+
+export interface LastEmailPreview {
+  /** Provider message id, used to reply in the same thread */
+  id?: string;
+  subject: string;
+  html: string;
+  receivedDateTime: string;
+  categories?: string[];
+}
+
+export interface MailFolderInfo {
+  id: string;
+  displayName: string;
+  /** Display names from the top-level folder down, e.g. "Inbox / Customers" */
+  path: string;
+  parentId?: string;
+  totalItemCount: number;
+  wellKnownName?: 'inbox' | 'sentitems';
+}
+
+/** A mailbox the user can analyze: their own ('me') or a shared/delegated one by address */
+export interface MailboxInfo {
+  id: string;
+  address: string;
+  displayName: string;
+}
+
+/**
+ * One planned write of analysis categories to an address book entry. `before` and `after` are the
+ * entry's complete category lists; contactId is missing when the entry has to be created.
+ */
+export interface CategoryChange {
+  email: string;
+  name: string;
+  contactId?: string;
+  before: string[];
+  after: string[];
+}
+
+export interface CategoryWriteBackResult {
+  written: number;
+  created: number;
+  failed: number;
+}
+
+/** A folder counted as received or sent mail; folder is a folder id or a well-known name */
+export interface MailFolderSelection {
+  folder: string;
+  direction: 'sent' | 'received';
+  displayName: string;
+}
+
+/**
+ * Operations the analysis and composer need from a mailbox backend.
+ * Implemented by the Microsoft Graph and Gmail facades.
+ */
+export interface MailProvider {
+  readonly type: MailProviderType;
+  readonly displayName: string;
+
+  // Auth
+  initialize(): Promise<void>;
+  signIn(): Promise<unknown>;
+  signOut(): Promise<void>;
+  getCurrentAccount(): { username: string } | null;
+  getAccessToken(): Promise<string | null>;
+  debugAuthStatus(): Promise<void>;
+
+  /** Clears email caches so next fetch returns fresh data */
+  clearEmailCaches(): void;
+
+  getCurrentUser(): Promise<MailUser>;
+  getContactsForAnalysis(options?: ContactFetchOptions): Promise<ContactCandidate[]>;
+  getEmailInteractionsForAnalysis(limit?: number, useCache?: boolean): Promise<EmailInteraction[]>;
+  getLastEmailWithContact(contactEmail: string): Promise<LastEmailPreview | null>;
+  /** Body of a single message by the provider's message id (EmailInteraction.id) */
+  getMessageBody(messageId: string): Promise<LastEmailPreview | null>;
+  sendEmail(to: string, subject: string, body: string, isHtml?: boolean): Promise<void>;
+  /** Replies to a message in its thread (threading headers kept, original quoted below body); replyAll adds the other recipients */
+  replyToEmail?(messageId: string, body: string, replyAll?: boolean): Promise<void>;
+  /** Hands the message to the server to send at sendAt and resolves to its id; omitted when only the app can send later */
+  scheduleEmail?(to: string, subject: string, body: string, sendAt: Date): Promise<string>;
+  /** Whether the server has sent a scheduled message; 'gone' when it was deleted before sending */
+  getScheduledEmailStatus?(messageId: string): Promise<'scheduled' | 'sent' | 'gone'>;
+  /** Withdraws a scheduled message that has not gone out yet */
+  cancelScheduledEmail?(messageId: string): Promise<void>;
+
+  // Drafts in the mailbox's Drafts folder; omitted by providers that keep drafts in the app only
+  /** Creates the draft, or updates it when draftId is given; resolves to its id */
+  saveDraft?(to: string, subject: string, body: string, draftId?: string): Promise<string>;
+  /** Current subject and body of a draft; null once it was sent or deleted */
+  getDraft?(draftId: string): Promise<{ subject: string; html: string } | null>;
+  deleteDraft?(draftId: string): Promise<void>;
+
+  // Folder selection; omitted by providers without mail folders
+  listMailFolders?(): Promise<MailFolderInfo[]>;
+  getMailFolderSelection?(): MailFolderSelection[];
+  /** Persists the selection and drops the local mailbox copy so the next analysis refetches it */
+  setMailFolderSelection?(selection: MailFolderSelection[]): Promise<void>;
+
+  // Shared and delegated mailboxes; omitted by providers that only see the user's own mailbox
+  listMailboxes?(): MailboxInfo[];
+  getActiveMailbox?(): string;
+  /** Later fetches, syncs and stored results use this mailbox */
+  setActiveMailbox?(mailboxId: string): void;
+  /** Checks the signed-in user can read the mailbox before adding it */
+  addMailbox?(address: string): Promise<MailboxInfo>;
+  removeMailbox?(mailboxId: string): void;
+
+  // Writing analysis categories to the address book; omitted by providers without contact categories
+  /** Dry run: the category changes a write-back would make, nothing is written */
+  planCategoryWriteBack?(contacts: ContactWithAnalysis[], options: { createMissing: boolean }): Promise<CategoryChange[]>;
+  applyCategoryWriteBack?(changes: CategoryChange[], onProgress?: (done: number, total: number) => void): Promise<CategoryWriteBackResult>;
+
+  // Mirroring follow-ups to the provider's task list; omitted by providers without one
+  /** Creates the mirrored task and resolves to its id */
+  mirrorFollowUp?(task: FollowUpTask): Promise<string>;
+  completeMirroredFollowUp?(todoTaskId: string): Promise<void>;
+  deleteMirroredFollowUp?(todoTaskId: string): Promise<void>;
+}
+
+const providers: Record<MailProviderType, MailProvider> = {
+  outlook: graphService,
+  gmail: gmailService,
+};
+
+let activeProviderType: MailProviderType =
+  import.meta.env.VITE_MAIL_PROVIDER === 'gmail' ? 'gmail' : 'outlook';
+setMailboxProvider(activeProviderType);
+
+/**
+ * Selects the backend used by the app. Entry points call this before rendering.
+ */
+export function setMailProvider(type: MailProviderType): void {
+  activeProviderType = type;
+  setMailboxProvider(type);
+}
+
+export function getMailProvider(): MailProvider {
+  return providers[activeProviderType];
+}
@@ -0,0 +1,150 @@
+import type { MailDeltaService } from './graph/mailDeltaService';
+import { mapMessageContacts, mapReceivedMessage, mapSentMessage } from './graph/interactionMapper';
+import type { AnalysisStore, StoredContact } from './storage/analysisStore';
+import type { EmailInteraction } from '../types/contact';
+
+const SYNC_STATE_KEY = 'graph_mail_sync';
+// Bump when the synced message fields change; delta links carry their $select, so older ones are dropped
+const SYNC_STATE_VERSION = 4;
+
+export interface SyncFolder {
+  folder: string;
+  direction: 'sent' | 'received';
+}
+
+interface MailSyncState {
+  version?: number;
+  deltaLinks: Record<string, string>;
+  lastSyncAt: number | null;
+}
+
+/**
+ * Keeps a local copy of the mailbox's interactions up to date using Graph delta queries.
+ * The first sync per folder pulls the full history window; later syncs only apply changes.
+ * Interactions and contacts live in the AnalysisStore; delta links are kept in its meta store.
+ */
+export class MailSyncEngine {
+  private readonly delta: MailDeltaService;
+  private readonly store: AnalysisStore;
+  private readonly pageSize: number;
+  private state: MailSyncState | null = null;
+  private inFlight: Promise<void> | null = null;
+
+  constructor(delta: MailDeltaService, store: AnalysisStore, pageSize: number = 1000) {
+    this.delta = delta;
+    this.store = store;
+    this.pageSize = pageSize;
+  }
+
+  private async getState(): Promise<MailSyncState> {
+    if (!this.state) {
+      const empty: MailSyncState = { version: SYNC_STATE_VERSION, deltaLinks: {}, lastSyncAt: null };
+      try {
+        const saved = await this.store.getMeta<MailSyncState>(SYNC_STATE_KEY);
+        if (saved && saved.version !== SYNC_STATE_VERSION) {
+          console.log('Mail sync state is from an older version, starting a full sync');
+        }
+        this.state = saved?.version === SYNC_STATE_VERSION ? saved : empty;
+      } catch (error) {
+        console.warn('Mail sync state unreadable, starting a full sync:', error);
+        this.state = empty;
+      }
+    }
+    return this.state;
+  }
+
+  /**
+   * True once every folder has completed its initial sync and holds a delta link
+   */
+  async hasInitialSync(folders: SyncFolder[]): Promise<boolean> {
+    const state = await this.getState();
+    return folders.every(f => !!state.deltaLinks[f.folder]);
+  }
+
+  async getLastSyncAt(): Promise<number | null> {
+    return (await this.getState()).lastSyncAt;
+  }
+
+  /**
+   * Syncs unless the last sync finished less than maxAgeMs ago (contacts and interactions
+   * are fetched back to back during one analysis run)
+   */
+  async syncIfStale(folders: SyncFolder[], userEmail: string, sinceIso: string, maxAgeMs: number): Promise<void> {
+    const lastSyncAt = await this.getLastSyncAt();
+    if (lastSyncAt && Date.now() - lastSyncAt < maxAgeMs && await this.hasInitialSync(folders)) return;
+    await this.sync(folders, userEmail, sinceIso);
+  }
+
+  async sync(folders: SyncFolder[], userEmail: string, sinceIso: string): Promise<void> {
+    if (this.inFlight) return this.inFlight;
+    this.inFlight = this.runSync(folders, userEmail, sinceIso).finally(() => {
+      this.inFlight = null;
+    });
+    return this.inFlight;
+  }
+
+  private async runSync(folders: SyncFolder[], userEmail: string, sinceIso: string): Promise<void> {
+    const state = await this.getState();
+    const startTime = performance.now();
+    let changedMessages = 0;
+
+    await Promise.all(folders.map(async ({ folder, direction }) => {
+      let result;
+      let fullResync = !state.deltaLinks[folder];
+      try {
+        result = await this.delta.fetchChanges(folder, state.deltaLinks[folder], sinceIso, this.pageSize);
+      } catch (error) {
+        if (fullResync) throw error;
+        // Delta links expire (410 Gone / syncStateNotFound); start this folder over
+        console.warn(`[${folder}] Delta link rejected, running a full sync:`, error);
+        delete state.deltaLinks[folder];
+        fullResync = true;
+        result = await this.delta.fetchChanges(folder, undefined, sinceIso, this.pageSize);
+      }
+
+      const interactions: EmailInteraction[] = [];
+      const contacts = new Map<string, StoredContact>();
+      result.changed.forEach(email => {
+        const mapped = direction === 'sent' ? mapSentMessage(email, userEmail) : mapReceivedMessage(email, userEmail);
+        // Tagged with the folder, so a full resync can drop what the folder no longer holds
+        mapped.forEach(interaction => interactions.push({ ...interaction, folder }));
+        mapMessageContacts(email, direction, userEmail).forEach(c => contacts.set(c.email, c));
+      });
+
+      if (fullResync) {
+        // Deletions made while there was no delta link are never reported; start the folder over
+        await this.store.replaceFolder(folder, direction, interactions);
+      } else {
+        // Changed messages are replaced wholesale: recipients or read state may have moved
+        const replacedIds = [...result.removedIds, ...result.changed.map(email => email.id)];
+        await this.store.replaceMessages(replacedIds, interactions);
+      }
+      await this.store.putContacts(Array.from(contacts.values()));
+      changedMessages += result.changed.length + result.removedIds.length;
+      state.deltaLinks[folder] = result.deltaLink;
+    }));
+
+    state.lastSyncAt = Date.now();
+    await this.store.setMeta(SYNC_STATE_KEY, state);
+    console.log(`Mail sync finished in ${(performance.now() - startTime).toFixed(0)}ms (${changedMessages} messages changed)`);
+  }
+
+  /**
+   * Forgets delta links and the synced interactions, e.g. after the folder selection changed.
+   * The next sync starts over with a full sync.
+   */
+  async reset(): Promise<void> {
+    if (this.inFlight) await this.inFlight.catch(() => { /* starting over anyway */ });
+    this.state = { version: SYNC_STATE_VERSION, deltaLinks: {}, lastSyncAt: null };
+    await this.store.setMeta(SYNC_STATE_KEY, this.state);
+    await this.store.clearInteractions();
+  }
+
+  async getInteractions(): Promise<EmailInteraction[]> {
+    return this.store.getAllInteractions();
+  }
+
+  async getContacts(): Promise<StoredContact[]> {
+    return this.store.getContacts();
+  }
+}
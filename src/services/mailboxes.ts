@@ -0,0 +1,77 @@
+import type { MailboxInfo, MailProviderType } from './mailProvider';
+import type { ContactWithAnalysis } from '../types/contact';
+import { getMailboxStore, type AnalysisStore } from './storage/analysisStore';
+
+const STORAGE_KEY = 'olx_mailboxes';
+
+export const OWN_MAILBOX: MailboxInfo = { id: 'me', address: '', displayName: 'My mailbox' };
+
+/** The Gmail account's data is kept in a store of its own, apart from the Outlook mailbox 'me' */
+export const GMAIL_MAILBOX_ID = 'gmail';
+
+// Set by setMailProvider; the mailbox module cannot import the providers without a cycle
+let providerType: MailProviderType = 'outlook';
+
+export function setMailboxProvider(type: MailProviderType): void {
+  providerType = type;
+}
+
+export interface MailboxSettings {
+  version: 1;
+  mailboxes: MailboxInfo[]; // shared and delegated mailboxes; the own mailbox is implicit
+  active: string; // mailbox id, 'me' for the signed-in user
+}
+
+const EMPTY_SETTINGS: MailboxSettings = { version: 1, mailboxes: [], active: 'me' };
+
+export function loadMailboxSettings(): MailboxSettings {
+  try {
+    const raw = typeof window !== 'undefined' ? window.localStorage.getItem(STORAGE_KEY) : null;
+    if (!raw) return EMPTY_SETTINGS;
+    const settings = { ...EMPTY_SETTINGS, ...(JSON.parse(raw) as MailboxSettings) };
+    // A mailbox removed elsewhere must not stay active
+    if (settings.active !== 'me' && !settings.mailboxes.some(m => m.id === settings.active)) settings.active = 'me';
+    return settings;
+  } catch (error) {
+    console.warn('Failed to load mailbox settings:', error);
+    return EMPTY_SETTINGS;
+  }
+}
+
+export function saveMailboxSettings(settings: MailboxSettings): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn('Failed to save mailbox settings:', error);
+  }
+}
+
+export function getActiveMailbox(): string {
+  if (providerType === 'gmail') return GMAIL_MAILBOX_ID;
+  return loadMailboxSettings().active;
+}
+
+/** Store of the mailbox currently being analyzed */
+export function getActiveAnalysisStore(): AnalysisStore {
+  return getMailboxStore(getActiveMailbox());
+}
+
+/**
+ * Team view across mailboxes: one entry per contact, taken from the mailbox that touched the
+ * contact last, so the category and "days since" reflect anyone on the team
+ */
+export function mergeMailboxResults(resultsByMailbox: Array<{ mailboxId: string; results: ContactWithAnalysis[] }>): ContactWithAnalysis[] {
+  const merged = new Map<string, ContactWithAnalysis>();
+  resultsByMailbox.forEach(({ mailboxId, results }) => {
+    results.forEach(contact => {
+      const current = merged.get(contact.id);
+      const mailboxes = [...(current?.mailboxes ?? []), mailboxId];
+      const isLater = !current
+        || (contact.lastContactDate?.getTime() ?? 0) > (current.lastContactDate?.getTime() ?? 0);
+      merged.set(contact.id, isLater
+        ? { ...contact, mailboxes, lastTouchMailbox: mailboxId }
+        : { ...current, mailboxes });
+    });
+  });
+  return Array.from(merged.values());
+}
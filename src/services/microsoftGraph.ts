@@ -1,22 +1,44 @@
 import { MsalClient, type GraphAuthConfig } from './auth/msalClient';
 import { GraphClient } from './graph/graphClient';
-import { UserService } from './graph/userService';
+import { UserService, type GraphUser } from './graph/userService';
 import { MailService, type EmailMessage } from './graph/mailService';
 import { ContactsService } from './graph/contactsService';
+import { MailDeltaService } from './graph/mailDeltaService';
+import { MailFolderService } from './graph/mailFolderService';
+import { CalendarService } from './graph/calendarService';
+import { TodoService } from './graph/todoService';
+import { mapMeetingAttendees, mapMessageContacts, mapReceivedMessage, mapSentMessage } from './graph/interactionMapper';
+import { MailSyncEngine, type SyncFolder } from './mailSyncEngine';
+import { getMailboxStore, type AnalysisStore } from './storage/analysisStore';
+import { loadMailFolderSelection, saveMailFolderSelection } from './mailFolderSelection';
+import { loadMailboxSettings, saveMailboxSettings, OWN_MAILBOX } from './mailboxes';
+import { planCategoryChanges } from './categoryWriteBack';
+import type { CategoryChange, CategoryWriteBackResult, LastEmailPreview, MailboxInfo, MailFolderInfo, MailFolderSelection, MailProvider } from './mailProvider';
+import type { ContactCandidate, ContactWithAnalysis, EmailInteraction, FollowUpTask } from '../types/contact';
 
 const DEBUG_GRAPH = import.meta.env.VITE_DEBUG_GRAPH === 'true';
 const HISTORY_DAYS = Number(import.meta.env.VITE_HISTORY_DAYS ?? 730); // default 2 years
 const GRAPH_PAGE_SIZE = Number(import.meta.env.VITE_GRAPH_PAGE_SIZE ?? 1000); // Optimized: 1000 per page = fewer round trips
-const GRAPH_MAX_PAGES = Number(import.meta.env.VITE_GRAPH_MAX_PAGES ?? 5); // Optimized: 5000 emails max with fewer API calls
 const CACHE_TTL_MINUTES = 30; // Cache emails for 30 minutes
+const SYNC_REUSE_MS = 60 * 1000; // Contacts and interactions share one delta sync per analysis run
+const QUICK_FETCH_KEY = 'graph_quick_fetch'; // limit -> timestamp of the last quick fetch
+const CATEGORY_WRITE_INTERVAL_MS = 250; // at most 4 contact writes per second
+
+class MicrosoftGraphFacade implements MailProvider {
+  readonly type = 'outlook' as const;
+  readonly displayName = 'Outlook';
 
-class MicrosoftGraphFacade {
   private readonly msal: MsalClient;
   private readonly graph: GraphClient;
   private readonly users: UserService;
   private readonly mail: MailService;
   private readonly contacts: ContactsService;
-  private readonly lastEmailCache: Map<string, { subject: string; html: string; receivedDateTime: string; categories?: string[]; cachedAt: number }> = new Map();
+  private readonly folders: MailFolderService;
+  private readonly calendar: CalendarService;
+  private readonly todo: TodoService;
+  private readonly syncEngines = new Map<string, MailSyncEngine>();
+  private mailboxId: string;
+  private readonly lastEmailCache: Map<string, LastEmailPreview & { cachedAt: number }> = new Map();
   private static readonly PREVIEW_TTL_MS = 5 * 60 * 1000; // 5 minutes
 
   constructor() {
@@ -32,8 +54,172 @@ class MicrosoftGraphFacade {
     this.users = new UserService(this.graph);
     this.mail = new MailService(this.graph);
     this.contacts = new ContactsService(this.graph);
+    this.folders = new MailFolderService(this.graph);
+    this.calendar = new CalendarService(this.graph);
+    this.todo = new TodoService(this.graph);
+    this.mailboxId = loadMailboxSettings().active;
+    this.graph.setMailbox(this.mailboxId);
+  }
+
+  /** Local store of the active mailbox */
+  private get store(): AnalysisStore {
+    return getMailboxStore(this.mailboxId);
+  }
+
+  /** Delta sync of the active mailbox; each mailbox keeps its own delta links and interactions */
+  private get sync(): MailSyncEngine {
+    let engine = this.syncEngines.get(this.mailboxId);
+    if (!engine) {
+      engine = new MailSyncEngine(new MailDeltaService(this.graph), this.store, GRAPH_PAGE_SIZE);
+      this.syncEngines.set(this.mailboxId, engine);
+    }
+    return engine;
+  }
+
+  /**
+   * The address the analysis treats as "us": the signed-in user, or the shared mailbox itself
+   */
+  private async getMailboxAddress(): Promise<string> {
+    if (this.mailboxId !== 'me') return this.mailboxId;
+    const currentUser = await this.getCurrentUser();
+    return (currentUser.mail || currentUser.userPrincipalName || '').toLowerCase();
+  }
+
+  /**
+   * Brings the delta-synced mailbox up to date. The first call pulls HISTORY_DAYS of mail;
+   * later calls only fetch what changed since the stored delta links.
+   */
+  private async syncMailbox(userEmail: string): Promise<void> {
+    const since = new Date();
+    since.setDate(since.getDate() - HISTORY_DAYS);
+    await this.sync.syncIfStale(this.getSyncFolders(), userEmail, since.toISOString(), SYNC_REUSE_MS);
+  }
+
+  /**
+   * Refetches past calendar meetings since `since` and replaces the stored ones. Calendar access
+   * (Calendars.Read) is optional: without it the analysis runs on mail alone.
+   */
+  private async syncMeetings(userEmail: string, since: Date): Promise<EmailInteraction[]> {
+    try {
+      const events = await this.calendar.getEventsBetween(since.toISOString(), new Date().toISOString());
+      const meetings = events.flatMap(event => mapMeetingAttendees(event, userEmail));
+      await this.store.replaceMeetings(meetings);
+      if (DEBUG_GRAPH) console.log(`Found ${events.length} calendar events (${meetings.length} meeting interactions)`);
+      return meetings;
+    } catch (error) {
+      console.warn('Calendar unavailable, analyzing mail only:', error);
+      return [];
+    }
+  }
+
+  /** The folders the user counts as sent and received mail (Sent Items and Inbox by default) */
+  private getSyncFolders(): SyncFolder[] {
+    return loadMailFolderSelection(this.mailboxId).map(({ folder, direction }) => ({ folder, direction }));
+  }
+
+  /**
+   * Runs a non-synced fetch for every selected folder and splits the results by direction
+   */
+  private async fetchSelectedFolders(
+    fetchFolder: (folder: SyncFolder) => Promise<EmailMessage[]>
+  ): Promise<[EmailMessage[], EmailMessage[]]> {
+    const folders = this.getSyncFolders();
+    const results = await Promise.all(folders.map(fetchFolder));
+    const sent: EmailMessage[] = [];
+    const received: EmailMessage[] = [];
+    folders.forEach((folder, i) => (folder.direction === 'sent' ? sent : received).push(...results[i]));
+    return [sent, received];
+  }
+
+  // Folders
+  async listMailFolders(): Promise<MailFolderInfo[]> {
+    return this.folders.listFolders();
+  }
+
+  getMailFolderSelection(): MailFolderSelection[] {
+    return loadMailFolderSelection(this.mailboxId);
+  }
+
+  async setMailFolderSelection(selection: MailFolderSelection[]): Promise<void> {
+    saveMailFolderSelection(selection, this.mailboxId);
+    // Interactions from folders that were dropped must not linger in the local copy
+    await this.sync.reset();
+    await this.store.setMeta(QUICK_FETCH_KEY, {});
+  }
+
+  // Mailboxes
+  listMailboxes(): MailboxInfo[] {
+    return [OWN_MAILBOX, ...loadMailboxSettings().mailboxes];
+  }
+
+  getActiveMailbox(): string {
+    return this.mailboxId;
   }
 
+  setActiveMailbox(mailboxId: string): void {
+    this.mailboxId = mailboxId;
+    this.graph.setMailbox(mailboxId);
+    this.lastEmailCache.clear();
+    saveMailboxSettings({ ...loadMailboxSettings(), active: mailboxId });
+  }
+
+  async addMailbox(address: string): Promise<MailboxInfo> {
+    const id = address.trim().toLowerCase();
+    // Fails with 403/404 unless the signed-in user has full access or delegate rights
+    await this.graph.request(`/users/${encodeURIComponent(id)}/mailFolders/inbox?$select=id`);
+    const user = await this.users.getUser(id).catch(() => null);
+    const mailbox: MailboxInfo = { id, address: id, displayName: user?.displayName || id };
+    const settings = loadMailboxSettings();
+    saveMailboxSettings({ ...settings, mailboxes: [...settings.mailboxes.filter(m => m.id !== id), mailbox] });
+    return mailbox;
+  }
+
+  removeMailbox(mailboxId: string): void {
+    if (mailboxId === 'me') return;
+    if (this.mailboxId === mailboxId) this.setActiveMailbox('me');
+    const settings = loadMailboxSettings();
+    saveMailboxSettings({ ...settings, mailboxes: settings.mailboxes.filter(m => m.id !== mailboxId) });
+  }
+
+  async planCategoryWriteBack(contacts: ContactWithAnalysis[], options: { createMissing: boolean }): Promise<CategoryChange[]> {
+    const entries = (await this.contacts.getContactCategories()).map(c => ({
+      id: c.id,
+      emails: c.emailAddresses.map(e => (e.address || '').toLowerCase()).filter(Boolean),
+      categories: c.categories,
+    }));
+    return planCategoryChanges(contacts, entries, options);
+  }
+
+  /**
+   * Writes the planned categories one contact at a time, spaced out to stay clear of Graph throttling.
+   * A failed write is logged and skipped.
+   */
+  async applyCategoryWriteBack(changes: CategoryChange[], onProgress?: (done: number, total: number) => void): Promise<CategoryWriteBackResult> {
+    const result: CategoryWriteBackResult = { written: 0, created: 0, failed: 0 };
+    for (let i = 0; i < changes.length; i++) {
+      const change = changes[i];
+      try {
+        if (change.contactId) {
+          await this.contacts.updateContactCategories(change.contactId, change.after);
+          result.written++;
+        } else {
+          await this.contacts.createContact(change.name, change.email, change.after);
+          result.created++;
+        }
+      } catch (error) {
+        console.warn(`Failed to write categories of ${change.email}:`, error);
+        result.failed++;
+      }
+      onProgress?.(i + 1, changes.length);
+      if (i < changes.length - 1) await new Promise(resolve => setTimeout(resolve, CATEGORY_WRITE_INTERVAL_MS));
+    }
+    return result;
+  }
+
+  async mirrorFollowUp(task: FollowUpTask): Promise<string> { return this.todo.createTask(task); }
+  async completeMirroredFollowUp(todoTaskId: string): Promise<void> { return this.todo.completeTask(todoTaskId); }
+  async deleteMirroredFollowUp(todoTaskId: string): Promise<void> { return this.todo.deleteTask(todoTaskId); }
+
   // Auth
   async initialize(): Promise<void> { await this.msal.initialize(); }
   async signIn() { return this.msal.signIn(); }
@@ -42,11 +228,16 @@ class MicrosoftGraphFacade {
   async getAccessToken(): Promise<string | null> { return this.msal.getAccessToken(); }
   async debugAuthStatus(): Promise<void> { return this.msal.debugAuthStatus(); }
 
-  /** Clears email caches so next fetch returns fresh data. Call when user requests a refresh (Quick/All). */
+  /**
+   * Clears email caches so next fetch returns fresh data. Call when user requests a refresh (Quick/All).
+   * The delta-synced interaction store is kept: the next sync only fetches what changed.
+   */
   clearEmailCaches(): void {
     this.lastEmailCache.clear();
+    this.store.setMeta(QUICK_FETCH_KEY, {}).catch(() => { /* ignore */ });
     try {
-      ['olx_email_cache_200', 'olx_email_cache_50000', 'olx_email_cache_1000'].forEach((key) =>
+      // Legacy localStorage caches, superseded by the IndexedDB interaction store
+      ['olx_email_cache_200', 'olx_email_cache_50000', 'olx_email_cache_1000', 'olx_mail_sync_state'].forEach((key) =>
         localStorage.removeItem(key)
       );
     } catch {
@@ -55,7 +246,7 @@ class MicrosoftGraphFacade {
   }
 
   // Users
-  async getCurrentUser(): Promise<{ displayName: string; mail: string; id: string }> {
+  async getCurrentUser(): Promise<GraphUser> {
     return this.users.getCurrentUser();
   }
 
@@ -64,7 +255,35 @@ class MicrosoftGraphFacade {
     return this.mail.sendEmail(to, subject, body, isHtml);
   }
 
-  private formatEmailForDisplay(email: any): { subject: string; html: string; receivedDateTime: string, categories?: string[] } {
+  async replyToEmail(messageId: string, body: string, replyAll: boolean = false): Promise<void> {
+    return this.mail.replyToEmail(messageId, body, replyAll);
+  }
+
+  async scheduleEmail(to: string, subject: string, body: string, sendAt: Date): Promise<string> {
+    return this.mail.scheduleEmail(to, subject, body, sendAt);
+  }
+
+  async getScheduledEmailStatus(messageId: string): Promise<'scheduled' | 'sent' | 'gone'> {
+    return this.mail.getScheduledEmailStatus(messageId);
+  }
+
+  async cancelScheduledEmail(messageId: string): Promise<void> {
+    return this.mail.cancelScheduledEmail(messageId);
+  }
+
+  async saveDraft(to: string, subject: string, body: string, draftId?: string): Promise<string> {
+    return this.mail.saveDraft(to, subject, body, draftId);
+  }
+
+  async getDraft(draftId: string): Promise<{ subject: string; html: string } | null> {
+    return this.mail.getDraft(draftId);
+  }
+
+  async deleteDraft(draftId: string): Promise<void> {
+    return this.mail.deleteDraft(draftId);
+  }
+
+  private formatEmailForDisplay(email: any): LastEmailPreview {
     const subject = email.subject || 'No Subject';
     const receivedDateTime = email.receivedDateTime;
     let html = '';
@@ -78,15 +297,20 @@ class MicrosoftGraphFacade {
         <p class="text-sm text-gray-600 mt-3"><em>Email body content is not available.</em></p>
       </div>`;
     }
-    return { subject, html, receivedDateTime, categories: Array.isArray(email.categories) ? email.categories : undefined };
+    return { id: email.id, subject, html, receivedDateTime, categories: Array.isArray(email.categories) ? email.categories : undefined };
   }
 
-  async getLastEmailWithContact(contactEmail: string): Promise<{ subject: string; html: string; receivedDateTime: string, categories?: string[] } | null> {
+  async getMessageBody(messageId: string): Promise<LastEmailPreview | null> {
+    const msg = await this.mail.getMessageBodyQuick(messageId);
+    return msg ? this.formatEmailForDisplay(msg) : null;
+  }
+
+  async getLastEmailWithContact(contactEmail: string): Promise<LastEmailPreview | null> {
     try {
       const key = contactEmail.toLowerCase().trim();
       const cached = this.lastEmailCache.get(key);
       if (cached && Date.now() - cached.cachedAt < MicrosoftGraphFacade.PREVIEW_TTL_MS) {
-        return { subject: cached.subject, html: cached.html, receivedDateTime: cached.receivedDateTime, categories: cached.categories };
+        return { id: cached.id, subject: cached.subject, html: cached.html, receivedDateTime: cached.receivedDateTime, categories: cached.categories };
       }
 
       const normalizedEmail = key;
@@ -94,7 +318,7 @@ class MicrosoftGraphFacade {
       // Prefer Graph $search first to avoid brittle $filter on nested properties
       try {
         const searchQuery = `"${normalizedEmail}"`;
-        const searchEndpoint = `/me/messages?$search=${encodeURIComponent(searchQuery)}&$top=3&$select=id,subject,receivedDateTime,from,toRecipients,categories,bodyPreview`;
+        const searchEndpoint = `${this.graph.mailboxPath()}/messages?$search=${encodeURIComponent(searchQuery)}&$top=3&$select=id,subject,receivedDateTime,from,toRecipients,categories,bodyPreview`;
         const searchResp = await this.graph.request<{ value?: any[] }>(searchEndpoint, 'GET', undefined, { 'ConsistencyLevel': 'eventual' });
         const hits = (searchResp.value || []).sort((a, b) => new Date(b.receivedDateTime).getTime() - new Date(a.receivedDateTime).getTime());
         const direct = hits.find(m => {
@@ -138,180 +362,113 @@ class MicrosoftGraphFacade {
     }
   }
 
-  private extractThreadId(subject: string): string {
-    const baseSubject = subject.replace(/^(re:|fwd?:|fw:)\s*/i, '').trim().toLowerCase();
-    return baseSubject.replace(/[^a-z0-9]/g, '').substring(0, 20) || 'thread-' + Math.random().toString(36).substr(2, 9);
-  }
+  async getEmailInteractionsForAnalysis(limit: number = 200, useCache: boolean = true): Promise<EmailInteraction[]> {
+    const userEmail = await this.getMailboxAddress();
+
+    // Comprehensive runs (and any run after one) read from the delta-synced mailbox
+    if (limit > 1000 || await this.sync.hasInitialSync(this.getSyncFolders())) {
+      const since = new Date();
+      since.setDate(since.getDate() - HISTORY_DAYS);
+      await Promise.all([this.syncMailbox(userEmail), this.syncMeetings(userEmail, since)]);
+      const synced = await this.sync.getInteractions();
+      if (DEBUG_GRAPH) console.log(`Found ${synced.length} synced email interactions for analysis`);
+      return synced;
+    }
 
-  async getEmailInteractionsForAnalysis(limit: number = 200, useCache: boolean = true): Promise<Array<{
-    id: string;
-    contactId: string;
-    subject: string;
-    date: Date;
-    direction: 'sent' | 'received';
-    isRead: boolean;
-    isReplied: boolean;
-    threadId?: string;
-  }>> {
-    // Try cache first
+    // The quick fetch covers the last year; reuse the stored copy while it is fresh
+    const quickSince = new Date();
+    quickSince.setDate(quickSince.getDate() - 365);
     if (useCache) {
       try {
-        const cacheKey = `olx_email_cache_${limit}`;
-        const cached = localStorage.getItem(cacheKey);
-        if (cached) {
-          const { data, timestamp } = JSON.parse(cached);
-          const age = Date.now() - timestamp;
-          if (age < CACHE_TTL_MINUTES * 60 * 1000) {
-            console.log(`Using cached emails (${(age / 1000 / 60).toFixed(1)} minutes old)`);
-            return data.map((item: any) => ({ ...item, date: new Date(item.date) }));
-          }
+        const fetchedAt = (await this.store.getMeta<Record<number, number>>(QUICK_FETCH_KEY))?.[limit];
+        const age = fetchedAt ? Date.now() - fetchedAt : Infinity;
+        if (age < CACHE_TTL_MINUTES * 60 * 1000) {
+          console.log(`Using stored emails (${(age / 1000 / 60).toFixed(1)} minutes old)`);
+          return await this.store.getInteractionsSince(quickSince);
         }
       } catch (error) {
-        console.warn('Cache read failed:', error);
+        console.warn('Interaction store read failed:', error);
       }
     }
 
-    const currentUser = await this.getCurrentUser();
-    const userEmail = (currentUser.mail || (currentUser as any).userPrincipalName || '').toLowerCase();
-    // For comprehensive runs, fetch paginated messages since two years ago to ensure coverage
-    const since = new Date();
-    since.setDate(since.getDate() - HISTORY_DAYS);
-    const sinceIso = since.toISOString();
-    const usePaged = limit > 1000;
-    const [sentEmails, receivedEmails] = await Promise.all([
-      usePaged
-        ? this.contacts.getEmailMessagesSince('sentitems', sinceIso, GRAPH_MAX_PAGES, GRAPH_PAGE_SIZE)
-        : this.contacts.getEmailMessagesFromPeriods('sentitems', [0, 30, 90, 180, 365]),
-      usePaged
-        ? this.contacts.getEmailMessagesSince('inbox', sinceIso, GRAPH_MAX_PAGES, GRAPH_PAGE_SIZE)
-        : this.contacts.getEmailMessagesFromPeriods('inbox', [0, 30, 90, 180, 365])
-    ]);
-
-    const interactions: Array<{
-      id: string; contactId: string; subject: string; date: Date; direction: 'sent' | 'received'; isRead: boolean; isReplied: boolean; threadId?: string;
-    }> = [];
+    const [sentEmails, receivedEmails] = await this.fetchSelectedFolders(({ folder, direction }) =>
+      this.contacts.getEmailMessagesFromPeriods(folder, [0, 30, 90, 180, 365], direction)
+    );
 
-    sentEmails.forEach(email => {
-      (email.toRecipients || []).forEach(recipient => {
-        const addr = recipient?.emailAddress?.address?.toLowerCase() || '';
-        if (addr && addr !== userEmail) {
-          interactions.push({
-            id: email.id,
-            contactId: addr,
-            subject: email.subject || 'No Subject',
-            date: new Date(email.sentDateTime || email.receivedDateTime || new Date().toISOString()),
-            direction: 'sent',
-            isRead: true,
-            isReplied: false,
-            threadId: this.extractThreadId(email.subject || '')
-          });
-        }
-      });
-    });
+    const interactions: EmailInteraction[] = [];
 
-    receivedEmails.forEach(email => {
-      const senderEmail = email?.from?.emailAddress?.address?.toLowerCase() || '';
-      if (senderEmail && senderEmail !== userEmail) {
-        interactions.push({
-          id: email.id,
-          contactId: senderEmail,
-          subject: email.subject || 'No Subject',
-          date: new Date(email.receivedDateTime || email.sentDateTime || new Date().toISOString()),
-          direction: 'received',
-          isRead: !!email.isRead,
-          isReplied: false,
-          threadId: this.extractThreadId(email.subject || '')
-        });
-      }
-    });
+    sentEmails.forEach(email => interactions.push(...mapSentMessage(email, userEmail)));
+    receivedEmails.forEach(email => interactions.push(...mapReceivedMessage(email, userEmail)));
+    interactions.push(...await this.syncMeetings(userEmail, quickSince));
 
-    // Sort and cache the results
+    // Sort and store the results
     const sortedInteractions = interactions.sort((a, b) => a.date.getTime() - b.date.getTime());
-    
-    if (useCache) {
-      try {
-        const cacheKey = `olx_email_cache_${limit}`;
-        localStorage.setItem(cacheKey, JSON.stringify({
-          data: sortedInteractions,
-          timestamp: Date.now()
-        }));
-        console.log(`Cached ${sortedInteractions.length} email interactions`);
-      } catch (error) {
-        console.warn('Cache write failed (storage full?):', error);
-      }
+
+    try {
+      await this.store.putInteractions(sortedInteractions);
+      const fetchTimes = (await this.store.getMeta<Record<number, number>>(QUICK_FETCH_KEY)) ?? {};
+      await this.store.setMeta(QUICK_FETCH_KEY, { ...fetchTimes, [limit]: Date.now() });
+      console.log(`Stored ${sortedInteractions.length} email interactions`);
+    } catch (error) {
+      console.warn('Interaction store write failed:', error);
     }
 
     if (DEBUG_GRAPH) console.log(`Found ${sortedInteractions.length} email interactions for analysis`);
     return sortedInteractions;
   }
 
-  async getContactsForAnalysis(options: { maxEmails?: number; useAllEmails?: boolean; quickMode?: boolean } = {}): Promise<Array<{ id: string; name: string; email: string }>> {
-    const currentUser = await this.getCurrentUser();
-    const userEmail = (currentUser.mail || (currentUser as any).userPrincipalName || '').toLowerCase();
+  async getContactsForAnalysis(options: { maxEmails?: number; useAllEmails?: boolean; quickMode?: boolean } = {}): Promise<ContactCandidate[]> {
+    const userEmail = await this.getMailboxAddress();
     const { maxEmails = 10000, useAllEmails = false, quickMode = false } = options;
 
-    // Outlook contacts
-    const outlookRaw = await this.contacts.getContacts();
+    // Outlook contacts (shared mailboxes often don't expose their contacts folder)
+    const outlookRaw = await this.contacts.getContacts().catch((error) => {
+      if (this.mailboxId === 'me') throw error;
+      console.warn(`Contacts of ${this.mailboxId} are not accessible, using mail only:`, error);
+      return [];
+    });
     const outlookContacts = outlookRaw
       .map(c => {
-        const addr = (c.emailAddresses?.[0]?.address || '').toLowerCase();
-        return { id: addr, name: c.displayName || (addr.split('@')[0] || 'Unknown'), email: addr };
+        const [addr = '', ...otherEmails] = (c.emailAddresses || [])
+          .map(e => (e.address || '').toLowerCase())
+          .filter(e => e && e !== userEmail);
+        // Further addresses are only proposed as merges (identity review), not merged outright
+        const contact: ContactCandidate = { id: addr, name: c.displayName || (addr.split('@')[0] || 'Unknown'), email: addr };
+        if (otherEmails.length > 0) contact.otherEmails = otherEmails;
+        if (c.profile) contact.profile = c.profile;
+        return contact;
       })
-      .filter(c => c.email && c.email !== userEmail);
+      .filter(c => c.email);
 
+    const emailContacts = new Map<string, { id: string; name: string; email: string }>();
     let sentEmails: EmailMessage[] = [];
     let receivedEmails: EmailMessage[] = [];
-    if (useAllEmails) {
-      // Comprehensive: fetch since HISTORY_DAYS with paging
-      const since = new Date();
-      since.setDate(since.getDate() - HISTORY_DAYS);
-      const sinceIso = since.toISOString();
-      [sentEmails, receivedEmails] = await Promise.all([
-        this.contacts.getEmailMessagesSince('sentitems', sinceIso, GRAPH_MAX_PAGES, GRAPH_PAGE_SIZE),
-        this.contacts.getEmailMessagesSince('inbox', sinceIso, GRAPH_MAX_PAGES, GRAPH_PAGE_SIZE)
-      ]);
+    if (useAllEmails || await this.sync.hasInitialSync(this.getSyncFolders())) {
+      // Comprehensive: delta sync since HISTORY_DAYS (incremental after the first run)
+      await this.syncMailbox(userEmail);
+      (await this.sync.getContacts()).forEach(c => emailContacts.set(c.email, c));
     } else if (quickMode) {
-      [sentEmails, receivedEmails] = await Promise.all([
-        this.mail.getEmailMessages('sentitems', 1000),
-        this.mail.getEmailMessages('inbox', 1000)
-      ]);
+      [sentEmails, receivedEmails] = await this.fetchSelectedFolders(({ folder, direction }) =>
+        this.mail.getEmailMessages(folder, 1000, direction)
+      );
     } else {
-      [sentEmails, receivedEmails] = await Promise.all([
-        this.contacts.getEmailMessagesFromPeriods('sentitems', [0, 30, 90, 180, 365]),
-        this.contacts.getEmailMessagesFromPeriods('inbox', [0, 30, 90, 180, 365])
-      ]);
+      [sentEmails, receivedEmails] = await this.fetchSelectedFolders(({ folder, direction }) =>
+        this.contacts.getEmailMessagesFromPeriods(folder, [0, 30, 90, 180, 365], direction)
+      );
     }
 
-    const emailContacts = new Map<string, { id: string; name: string; email: string }>();
     sentEmails.forEach(email => {
-      (email.toRecipients || []).forEach(recipient => {
-        const addr = recipient?.emailAddress?.address?.toLowerCase() || '';
-        if (addr && addr !== userEmail) {
-          emailContacts.set(addr, {
-            id: addr,
-            name: recipient?.emailAddress?.name || addr.split('@')[0],
-            email: addr,
-          });
-        }
-      });
+      mapMessageContacts(email, 'sent', userEmail).forEach(c => emailContacts.set(c.email, c));
     });
-
     receivedEmails.forEach(email => {
-      const sender = email?.from?.emailAddress?.address?.toLowerCase() || '';
-      if (sender && sender !== userEmail) {
-        emailContacts.set(sender, {
-          id: sender,
-          name: email?.from?.emailAddress?.name || sender.split('@')[0],
-          email: sender,
-        });
-      }
+      mapMessageContacts(email, 'received', userEmail).forEach(c => emailContacts.set(c.email, c));
     });
 
     // Deduplicate across Outlook + email-derived contacts by email (lowercase)
-    const allByEmail = new Map<string, { id: string; name: string; email: string }>();
+    const allByEmail = new Map<string, ContactCandidate>();
     outlookContacts.forEach(c => { if (!allByEmail.has(c.email)) allByEmail.set(c.email, c); });
     emailContacts.forEach(c => { if (!allByEmail.has(c.email)) allByEmail.set(c.email, c); });
-    const all: Array<{ id: string; name: string; email: string }> = Array.from(allByEmail.values());
+    const all: ContactCandidate[] = Array.from(allByEmail.values());
     if (DEBUG_GRAPH) console.log(`Found ${outlookContacts.length} Outlook contacts and ${emailContacts.size} email contacts (${all.length} total)`);
     return all.slice(0, maxEmails); // safety cap
   }
@@ -0,0 +1,25 @@
+// Access to the Outlook host when the app runs as an add-in (Office.js is loaded by outlook-addin.html)
+
+interface OfficeMailbox {
+  displayNewMessageForm(parameters: { toRecipients: string[]; subject: string; htmlBody: string }): void;
+}
+
+function getOfficeMailbox(): OfficeMailbox | null {
+  if (typeof window === 'undefined') return null;
+  return (window.Office?.context?.mailbox as OfficeMailbox | undefined) ?? null;
+}
+
+/** Whether the app runs inside Outlook and can open Outlook's own compose window */
+export function canOpenOutlookCompose(): boolean {
+  return typeof getOfficeMailbox()?.displayNewMessageForm === 'function';
+}
+
+/**
+ * Opens a new message in Outlook's compose window, where the user's signature and the full
+ * editor are available. The message is not saved or sent by the app.
+ */
+export function openOutlookCompose(message: { to: string; subject: string; htmlBody: string }): void {
+  const mailbox = getOfficeMailbox();
+  if (!mailbox) throw new Error('Not running inside Outlook');
+  mailbox.displayNewMessageForm({ toRecipients: [message.to], subject: message.subject, htmlBody: message.htmlBody });
+}
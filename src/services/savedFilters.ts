@@ -0,0 +1,36 @@
+const STORAGE_KEY = 'olx_saved_filters';
+
+export interface ContactFilterOptions {
+  searchTerm: string;
+  responseRateRange: [number, number];
+  lastContactFilter: string;
+  emailCountRange: [number, number];
+  sortBy: 'default' | 'name' | 'emailCount' | 'lastContact' | 'responseRate';
+  sortOrder: 'asc' | 'desc';
+}
+
+/** A named contact search, e.g. "Inactive, 5+ emails", to pick a campaign segment again */
+export interface SavedFilter {
+  name: string;
+  filters: ContactFilterOptions;
+}
+
+export function loadSavedFilters(): SavedFilter[] {
+  try {
+    const raw = typeof window !== 'undefined' ? window.localStorage.getItem(STORAGE_KEY) : null;
+    if (!raw) return [];
+    const parsed = JSON.parse(raw) as { version: number; filters: SavedFilter[] };
+    return parsed.filters ?? [];
+  } catch (error) {
+    console.warn('Failed to load saved filters:', error);
+    return [];
+  }
+}
+
+export function saveSavedFilters(filters: SavedFilter[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: 1, filters }));
+  } catch (error) {
+    console.warn('Failed to save filters:', error);
+  }
+}
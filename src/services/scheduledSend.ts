@@ -0,0 +1,45 @@
+import type { ScheduledEmail } from '../types';
+
+const STORAGE_KEY = 'olx_scheduled_emails';
+// Sent and failed items stay listed this long, then drop out of the queue
+const KEEP_FINISHED_MS = 7 * 24 * 60 * 60 * 1000;
+
+export function loadScheduledEmails(): ScheduledEmail[] {
+  try {
+    const raw = typeof window !== 'undefined' ? window.localStorage.getItem(STORAGE_KEY) : null;
+    if (!raw) return [];
+    const parsed = JSON.parse(raw) as { version: number; items: ScheduledEmail[] };
+    const cutoff = Date.now() - KEEP_FINISHED_MS;
+    return (parsed.items ?? []).filter(item =>
+      item.status === 'scheduled' || item.status === 'overdue' || new Date(item.scheduledFor).getTime() > cutoff
+    );
+  } catch (error) {
+    console.warn('Failed to load scheduled emails:', error);
+    return [];
+  }
+}
+
+export function saveScheduledEmails(items: ScheduledEmail[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: 1, items }));
+  } catch (error) {
+    console.warn('Failed to save scheduled emails:', error);
+  }
+}
+
+/**
+ * Marks local items whose time passed while the app was closed as overdue. They are not sent
+ * on their own: the message may no longer fit, so the user decides.
+ */
+export function markOverdueScheduledEmails(items: ScheduledEmail[], now: number = Date.now()): ScheduledEmail[] {
+  return items.map(item =>
+    item.mode === 'local' && item.status === 'scheduled' && new Date(item.scheduledFor).getTime() <= now
+      ? { ...item, status: 'overdue' }
+      : item
+  );
+}
+
+/** Scheduled items whose send time has come */
+export function dueScheduledEmails(items: ScheduledEmail[], now: number = Date.now()): ScheduledEmail[] {
+  return items.filter(item => item.status === 'scheduled' && new Date(item.scheduledFor).getTime() <= now);
+}
@@ -0,0 +1,113 @@
+// IndexedDB schema shared by the main thread and the analysis worker
+
+export const DB_NAME = 'olx_analysis';
+export const DB_VERSION = 2;
+
+export const STORES = {
+  interactions: 'interactions',
+  contacts: 'contacts',
+  analysisResults: 'analysisResults',
+  meta: 'meta',
+  snapshots: 'snapshots',
+  snapshotEntries: 'snapshotEntries',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+type Migration = (db: IDBDatabase, tx: IDBTransaction) => void;
+
+/**
+ * Schema migrations keyed by the version they upgrade to. Never edit a released migration;
+ * bump DB_VERSION and add a new entry instead.
+ */
+const MIGRATIONS: Record<number, Migration> = {
+  1: (db) => {
+    // One record per (message, contact): a sent mail to three people is three interactions
+    const interactions = db.createObjectStore(STORES.interactions, { keyPath: ['id', 'contactId'] });
+    interactions.createIndex('contactId', 'contactId');
+    interactions.createIndex('date', 'date');
+    interactions.createIndex('messageId', 'id');
+
+    db.createObjectStore(STORES.contacts, { keyPath: 'email' });
+
+    const results = db.createObjectStore(STORES.analysisResults, { keyPath: 'id' });
+    results.createIndex('category', 'category');
+
+    db.createObjectStore(STORES.meta, { keyPath: 'key' });
+  },
+  2: (db) => {
+    // One record per analysis run, and one entry per (run, contact) so a contact's history is an index lookup
+    db.createObjectStore(STORES.snapshots, { keyPath: 'id' });
+    const entries = db.createObjectStore(STORES.snapshotEntries, { keyPath: ['snapshotId', 'contactId'] });
+    entries.createIndex('contactId', 'contactId');
+  },
+};
+
+export function isIndexedDbAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+/**
+ * Database holding one mailbox's data: the signed-in user's own mailbox ('me') keeps the
+ * original name, shared and delegated mailboxes get one database each
+ */
+export function mailboxDbName(mailboxId: string): string {
+  return mailboxId === 'me' ? DB_NAME : `${DB_NAME}:${mailboxId.toLowerCase()}`;
+}
+
+const dbPromises = new Map<string, Promise<IDBDatabase>>();
+
+export function openAnalysisDb(name: string = DB_NAME): Promise<IDBDatabase> {
+  const existing = dbPromises.get(name);
+  if (existing) return existing;
+
+  const dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (!isIndexedDbAvailable()) {
+      reject(new Error('IndexedDB is not available in this environment'));
+      return;
+    }
+
+    const request = indexedDB.open(name, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const tx = request.transaction!;
+      for (let version = event.oldVersion + 1; version <= DB_VERSION; version++) {
+        console.log(`[analysisDb] Migrating schema to v${version}`);
+        MIGRATIONS[version]?.(db, tx);
+      }
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab upgraded the schema; drop this connection so the upgrade can proceed
+      db.onversionchange = () => {
+        db.close();
+        dbPromises.delete(name);
+      };
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error ?? new Error('Failed to open IndexedDB'));
+    request.onblocked = () => console.warn('[analysisDb] Upgrade blocked by another open tab');
+  });
+
+  // Allow a retry on the next call instead of caching the failure
+  dbPromise.catch(() => { dbPromises.delete(name); });
+  dbPromises.set(name, dbPromise);
+  return dbPromise;
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('IndexedDB transaction aborted'));
+  });
+}
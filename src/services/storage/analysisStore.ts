@@ -0,0 +1,307 @@
+import { DB_NAME, mailboxDbName, openAnalysisDb, requestToPromise, STORES, transactionDone } from './analysisDb';
+import type { AnalysisSnapshot, ContactWithAnalysis, EmailInteraction, SnapshotEntry } from '../../types/contact';
+
+export type StoredContact = { id: string; name: string; email: string };
+
+type MetaRecord<T> = { key: string; value: T; updatedAt: number };
+
+/** Calendar meetings are stored next to mail under ids with this prefix */
+export const MEETING_ID_PREFIX = 'meeting:';
+
+/** Identifies one stored interaction, as its [id, contactId] key does in the store */
+export function interactionKey(interaction: Pick<EmailInteraction, 'id' | 'contactId'>): string {
+  return `${interaction.id}\u0000${interaction.contactId}`;
+}
+
+/** True when a stored record still says what a freshly fetched interaction says */
+function isSameInteraction(stored: EmailInteraction, fetched: EmailInteraction): boolean {
+  return stored.date.getTime() === fetched.date.getTime()
+    && stored.isRead === fetched.isRead
+    && stored.isReplied === fetched.isReplied
+    && stored.subject === fetched.subject
+    && stored.role === fetched.role;
+}
+
+/** Analysis runs kept in the history; older ones are dropped when a new run is stored */
+const SNAPSHOT_RETENTION = 60;
+
+/**
+ * Persistent store for interactions, contacts and analysis results. Records keep their Date
+ * fields (IndexedDB clones them natively), so nothing needs serializing on the way in or out.
+ * Works on the main thread and inside the analysis worker. Each mailbox has a store of its own.
+ */
+export class AnalysisStore {
+  private readonly dbName: string;
+  constructor(dbName: string = DB_NAME) {
+    this.dbName = dbName;
+  }
+
+  // Interactions
+
+  async putInteractions(interactions: EmailInteraction[]): Promise<void> {
+    if (interactions.length === 0) return;
+    const db = await openAnalysisDb(this.dbName);
+    const tx = db.transaction(STORES.interactions, 'readwrite');
+    const store = tx.objectStore(STORES.interactions);
+    interactions.forEach(interaction => store.put(interaction));
+    await transactionDone(tx);
+  }
+
+  /**
+   * Drops every stored interaction of the given messages, then writes the replacements.
+   * Runs in one transaction so readers never see a message half-updated.
+   */
+  async replaceMessages(messageIds: string[], interactions: EmailInteraction[]): Promise<void> {
+    if (messageIds.length === 0 && interactions.length === 0) return;
+    const db = await openAnalysisDb(this.dbName);
+    const tx = db.transaction(STORES.interactions, 'readwrite');
+    const store = tx.objectStore(STORES.interactions);
+    const byMessage = store.index('messageId');
+
+    // Writes must be queued after the deletes, or a replacement sharing a key would be deleted
+    const writeReplacements = () => interactions.forEach(interaction => store.put(interaction));
+    let pendingLookups = messageIds.length;
+    if (pendingLookups === 0) writeReplacements();
+    messageIds.forEach(messageId => {
+      const keysRequest = byMessage.getAllKeys(IDBKeyRange.only(messageId));
+      keysRequest.onsuccess = () => {
+        keysRequest.result.forEach(key => store.delete(key));
+        if (--pendingLookups === 0) writeReplacements();
+      };
+    });
+    await transactionDone(tx);
+  }
+
+  /**
+   * Replaces everything a full sync of one folder read: the folder's earlier interactions, and mail
+   * of the same direction stored without a folder (quick fetches). Mail deleted from the folder
+   * since the last sync does not linger.
+   */
+  async replaceFolder(folder: string, direction: EmailInteraction['direction'], interactions: EmailInteraction[]): Promise<void> {
+    const db = await openAnalysisDb(this.dbName);
+    const tx = db.transaction(STORES.interactions, 'readwrite');
+    const store = tx.objectStore(STORES.interactions);
+    const cursorRequest = store.openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) {
+        // Written once the scan is done, so the replacements are not deleted again
+        interactions.forEach(interaction => store.put(interaction));
+        return;
+      }
+      const record = cursor.value as EmailInteraction;
+      const isUntaggedMail = !record.folder && !record.id.startsWith(MEETING_ID_PREFIX) && record.direction === direction;
+      if (record.folder === folder || isUntaggedMail) cursor.delete();
+      cursor.continue();
+    };
+    await transactionDone(tx);
+  }
+
+  /**
+   * Makes the interactions stored from `since` on match an analysis run, so workers can read the run
+   * by contact and date. Only interactions missing or changed are written; stored ones the run does
+   * not have are dropped, except mail kept by the delta sync (tagged with a folder), which only the
+   * sync maintains. Resolves to the number written.
+   */
+  async alignAnalysisWindow(since: Date, interactions: EmailInteraction[]): Promise<number> {
+    const pending = new Map(interactions.map(interaction => [interactionKey(interaction), interaction]));
+    let written = 0;
+    const db = await openAnalysisDb(this.dbName);
+    const tx = db.transaction(STORES.interactions, 'readwrite');
+    const store = tx.objectStore(STORES.interactions);
+    const cursorRequest = store.index('date').openCursor(IDBKeyRange.lowerBound(since));
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) {
+        // Whatever the scan did not find stored unchanged
+        pending.forEach(interaction => store.put(interaction));
+        written = pending.size;
+        return;
+      }
+      const record = cursor.value as EmailInteraction;
+      const key = interactionKey(record);
+      const current = pending.get(key);
+      if (current && isSameInteraction(record, current)) pending.delete(key);
+      else if (!current && !record.folder) cursor.delete();
+      cursor.continue();
+    };
+    await transactionDone(tx);
+    return written;
+  }
+
+  /**
+   * Replaces every stored meeting interaction with a freshly fetched set, so cancelled or
+   * moved meetings do not linger
+   */
+  async replaceMeetings(meetings: EmailInteraction[]): Promise<void> {
+    const db = await openAnalysisDb(this.dbName);
+    const tx = db.transaction(STORES.interactions, 'readwrite');
+    const store = tx.objectStore(STORES.interactions);
+    // Keys are [id, contactId]; every meeting id sorts between the prefix and the prefix + U+FFFF
+    store.delete(IDBKeyRange.bound([MEETING_ID_PREFIX], [`${MEETING_ID_PREFIX}\uffff`]));
+    meetings.forEach(meeting => store.put(meeting));
+    await transactionDone(tx);
+  }
+
+  /** All stored interactions, oldest first */
+  async getAllInteractions(): Promise<EmailInteraction[]> {
+    const db = await openAnalysisDb(this.dbName);
+    const index = db.transaction(STORES.interactions).objectStore(STORES.interactions).index('date');
+    return requestToPromise(index.getAll() as IDBRequest<EmailInteraction[]>);
+  }
+
+  /** Interactions dated on or after `since`, oldest first */
+  async getInteractionsSince(since: Date): Promise<EmailInteraction[]> {
+    const db = await openAnalysisDb(this.dbName);
+    const index = db.transaction(STORES.interactions).objectStore(STORES.interactions).index('date');
+    return requestToPromise(index.getAll(IDBKeyRange.lowerBound(since)) as IDBRequest<EmailInteraction[]>);
+  }
+
+  /**
+   * Interactions grouped by contact for the requested contacts only (every id gets an entry)
+   */
+  async getInteractionsForContacts(contactIds: string[]): Promise<Map<string, EmailInteraction[]>> {
+    const db = await openAnalysisDb(this.dbName);
+    const index = db.transaction(STORES.interactions).objectStore(STORES.interactions).index('contactId');
+    const lists = await Promise.all(
+      contactIds.map(id => requestToPromise(index.getAll(IDBKeyRange.only(id)) as IDBRequest<EmailInteraction[]>))
+    );
+    const map = new Map<string, EmailInteraction[]>();
+    contactIds.forEach((id, i) => map.set(id, lists[i]));
+    return map;
+  }
+
+  async clearInteractions(): Promise<void> {
+    const db = await openAnalysisDb(this.dbName);
+    const tx = db.transaction(STORES.interactions, 'readwrite');
+    tx.objectStore(STORES.interactions).clear();
+    await transactionDone(tx);
+  }
+
+  // Contacts
+
+  async putContacts(contacts: StoredContact[]): Promise<void> {
+    if (contacts.length === 0) return;
+    const db = await openAnalysisDb(this.dbName);
+    const tx = db.transaction(STORES.contacts, 'readwrite');
+    const store = tx.objectStore(STORES.contacts);
+    contacts.forEach(contact => store.put(contact));
+    await transactionDone(tx);
+  }
+
+  async getContacts(): Promise<StoredContact[]> {
+    const db = await openAnalysisDb(this.dbName);
+    const store = db.transaction(STORES.contacts).objectStore(STORES.contacts);
+    return requestToPromise(store.getAll() as IDBRequest<StoredContact[]>);
+  }
+
+  // Analysis results
+
+  /** Replaces the stored results with the latest analysis run */
+  async saveAnalysisResults(results: ContactWithAnalysis[]): Promise<void> {
+    const db = await openAnalysisDb(this.dbName);
+    const tx = db.transaction(STORES.analysisResults, 'readwrite');
+    const store = tx.objectStore(STORES.analysisResults);
+    store.clear();
+    results.forEach(result => store.put(result));
+    await transactionDone(tx);
+  }
+
+  async getAnalysisResults(): Promise<ContactWithAnalysis[]> {
+    const db = await openAnalysisDb(this.dbName);
+    const store = db.transaction(STORES.analysisResults).objectStore(STORES.analysisResults);
+    return requestToPromise(store.getAll() as IDBRequest<ContactWithAnalysis[]>);
+  }
+
+  // Analysis history
+
+  /**
+   * Remembers an analysis run: category, score and metrics of every contact. Drops the oldest
+   * runs beyond the retention limit in the same transaction.
+   */
+  async saveSnapshot(mode: string, results: ContactWithAnalysis[], takenAt: Date = new Date()): Promise<AnalysisSnapshot> {
+    const snapshot: AnalysisSnapshot = { id: takenAt.getTime(), takenAt, mode, contactCount: results.length };
+    const db = await openAnalysisDb(this.dbName);
+    const tx = db.transaction([STORES.snapshots, STORES.snapshotEntries], 'readwrite');
+    const snapshots = tx.objectStore(STORES.snapshots);
+    const entries = tx.objectStore(STORES.snapshotEntries);
+    snapshots.put(snapshot);
+    results.forEach(result => {
+      const entry: SnapshotEntry = {
+        snapshotId: snapshot.id,
+        contactId: result.id,
+        name: result.name,
+        category: result.category,
+        customCategory: result.customCategory,
+        score: result.analysis.score,
+        metrics: result.analysis.metrics,
+      };
+      entries.put(entry);
+    });
+
+    const keysRequest = snapshots.getAllKeys();
+    keysRequest.onsuccess = () => {
+      const keys = keysRequest.result as number[]; // ascending, so the oldest come first
+      keys.slice(0, Math.max(0, keys.length - SNAPSHOT_RETENTION)).forEach(id => {
+        snapshots.delete(id);
+        entries.delete(IDBKeyRange.bound([id], [id, []]));
+      });
+    };
+    await transactionDone(tx);
+    return snapshot;
+  }
+
+  /** Stored analysis runs, newest first */
+  async getSnapshots(): Promise<AnalysisSnapshot[]> {
+    const db = await openAnalysisDb(this.dbName);
+    const store = db.transaction(STORES.snapshots).objectStore(STORES.snapshots);
+    const snapshots = await requestToPromise(store.getAll() as IDBRequest<AnalysisSnapshot[]>);
+    return snapshots.reverse();
+  }
+
+  async getSnapshotEntries(snapshotId: number): Promise<SnapshotEntry[]> {
+    const db = await openAnalysisDb(this.dbName);
+    const store = db.transaction(STORES.snapshotEntries).objectStore(STORES.snapshotEntries);
+    // Keys are [snapshotId, contactId]; an array sorts after every string contactId
+    return requestToPromise(store.getAll(IDBKeyRange.bound([snapshotId], [snapshotId, []])) as IDBRequest<SnapshotEntry[]>);
+  }
+
+  /** A contact's entries across all stored runs, oldest first */
+  async getContactHistory(contactId: string): Promise<SnapshotEntry[]> {
+    const db = await openAnalysisDb(this.dbName);
+    const index = db.transaction(STORES.snapshotEntries).objectStore(STORES.snapshotEntries).index('contactId');
+    const entries = await requestToPromise(index.getAll(IDBKeyRange.only(contactId)) as IDBRequest<SnapshotEntry[]>);
+    return entries.sort((a, b) => a.snapshotId - b.snapshotId);
+  }
+
+  // Small key/value records (sync state, cache timestamps)
+
+  async getMeta<T>(key: string): Promise<T | null> {
+    const db = await openAnalysisDb(this.dbName);
+    const store = db.transaction(STORES.meta).objectStore(STORES.meta);
+    const record = await requestToPromise(store.get(key) as IDBRequest<MetaRecord<T> | undefined>);
+    return record ? record.value : null;
+  }
+
+  async setMeta<T>(key: string, value: T): Promise<void> {
+    const db = await openAnalysisDb(this.dbName);
+    const tx = db.transaction(STORES.meta, 'readwrite');
+    const record: MetaRecord<T> = { key, value, updatedAt: Date.now() };
+    tx.objectStore(STORES.meta).put(record);
+    await transactionDone(tx);
+  }
+}
+
+export const analysisStore = new AnalysisStore();
+
+const mailboxStores = new Map<string, AnalysisStore>([['me', analysisStore]]);
+
+/** Store of a mailbox by id ('me' or a shared/delegated mailbox address) */
+export function getMailboxStore(mailboxId: string): AnalysisStore {
+  let store = mailboxStores.get(mailboxId);
+  if (!store) {
+    store = new AnalysisStore(mailboxDbName(mailboxId));
+    mailboxStores.set(mailboxId, store);
+  }
+  return store;
+}
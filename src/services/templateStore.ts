@@ -0,0 +1,176 @@
+import { builtInTemplates } from '../data/emailTemplates';
+import { CONTACT_CATEGORIES } from '../types';
+import type { ContactCategory } from '../types/contact';
+import type { EmailTemplate, EmailTemplateVersion } from '../types/email';
+import { getTemplateVariables } from '../utils/templateEngine';
+
+const STORAGE_KEY = 'olx_email_templates';
+// Earlier versions kept per template
+const HISTORY_LIMIT = 20;
+// Marks an export file, so importing some other JSON fails with a clear message
+const EXPORT_FORMAT = 'olx-email-templates';
+
+type StoredTemplate = EmailTemplate & { history: EmailTemplateVersion[] };
+
+export type TemplateInput = Pick<EmailTemplate, 'name' | 'subject' | 'body' | 'category'> & { id?: string; isDefault?: boolean };
+
+function loadStored(): StoredTemplate[] {
+  try {
+    const raw = typeof window !== 'undefined' ? window.localStorage.getItem(STORAGE_KEY) : null;
+    // Seeded with the shipped templates until the team saves its own
+    if (!raw) return builtInTemplates.map(t => ({ ...t, history: [] }));
+    const parsed = JSON.parse(raw) as { version: number; templates: StoredTemplate[] };
+    return (parsed.templates ?? []).map(t => ({ ...t, history: t.history ?? [] }));
+  } catch (error) {
+    console.warn('Failed to load email templates:', error);
+    return builtInTemplates.map(t => ({ ...t, history: [] }));
+  }
+}
+
+function saveStored(templates: StoredTemplate[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: 1, templates }));
+  } catch (error) {
+    console.warn('Failed to save email templates:', error);
+  }
+}
+
+function withoutHistory(stored: StoredTemplate): EmailTemplate {
+  const template: EmailTemplate & { history?: EmailTemplateVersion[] } = { ...stored };
+  delete template.history;
+  return template;
+}
+
+/** Placeholder names used in a template's subject and body, e.g. ["name", "company"] */
+export function extractTemplateVariables(text: string): string[] {
+  return getTemplateVariables(text);
+}
+
+/** All templates; defaults first within each category, then by name */
+export function loadTemplates(): EmailTemplate[] {
+  return loadStored()
+    .map(withoutHistory)
+    .sort((a, b) => Number(Boolean(b.isDefault)) - Number(Boolean(a.isDefault)) || a.name.localeCompare(b.name));
+}
+
+export function getTemplatesForCategory(category: ContactCategory): EmailTemplate[] {
+  return loadTemplates().filter(t => t.category === category);
+}
+
+/** The category's default template, or its first one when none is marked */
+export function getDefaultTemplate(category: ContactCategory): EmailTemplate | undefined {
+  return getTemplatesForCategory(category)[0];
+}
+
+/** Keeps a single default per category: marking one clears the flag on the others */
+function applyDefault(templates: StoredTemplate[], defaultId: string): StoredTemplate[] {
+  const category = templates.find(t => t.id === defaultId)?.category;
+  return templates.map(t => (t.category === category ? { ...t, isDefault: t.id === defaultId } : t));
+}
+
+/**
+ * Creates a template (under input.id when given), or saves an edit as a new version; the previous
+ * text goes to the template's history. Saving without changes keeps the version.
+ */
+export function saveTemplate(input: TemplateInput): EmailTemplate {
+  const templates = loadStored();
+  const now = new Date().toISOString();
+  const existing = input.id ? templates.find(t => t.id === input.id) : undefined;
+  let saved: StoredTemplate;
+
+  if (existing) {
+    const changed = (['name', 'subject', 'body', 'category'] as const).some(key => existing[key] !== input[key]);
+    const history: EmailTemplateVersion[] = changed
+      ? [
+          { version: existing.version, name: existing.name, subject: existing.subject, body: existing.body, category: existing.category, savedAt: existing.updatedAt },
+          ...existing.history,
+        ].slice(0, HISTORY_LIMIT)
+      : existing.history;
+    saved = {
+      ...existing,
+      name: input.name,
+      subject: input.subject,
+      body: input.body,
+      category: input.category,
+      variables: extractTemplateVariables(`${input.subject}\n${input.body}`),
+      isDefault: input.isDefault ?? existing.isDefault,
+      version: changed ? existing.version + 1 : existing.version,
+      updatedAt: changed ? now : existing.updatedAt,
+      history,
+    };
+  } else {
+    saved = {
+      id: input.id ?? `custom-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      name: input.name,
+      subject: input.subject,
+      body: input.body,
+      category: input.category,
+      variables: extractTemplateVariables(`${input.subject}\n${input.body}`),
+      isDefault: input.isDefault,
+      version: 1,
+      updatedAt: now,
+      history: [],
+    };
+  }
+
+  let next = existing ? templates.map(t => (t.id === saved.id ? saved : t)) : [...templates, saved];
+  if (saved.isDefault) next = applyDefault(next, saved.id);
+  saveStored(next);
+  return withoutHistory(saved);
+}
+
+export function deleteTemplate(templateId: string): void {
+  saveStored(loadStored().filter(t => t.id !== templateId));
+}
+
+export function setDefaultTemplate(templateId: string): void {
+  saveStored(applyDefault(loadStored(), templateId));
+}
+
+/** Earlier versions of a template, newest first */
+export function getTemplateHistory(templateId: string): EmailTemplateVersion[] {
+  return loadStored().find(t => t.id === templateId)?.history ?? [];
+}
+
+/** Brings back an earlier version; it is saved as a new version, so the restore can be undone too */
+export function restoreTemplateVersion(templateId: string, version: number): EmailTemplate | null {
+  const template = loadStored().find(t => t.id === templateId);
+  const earlier = template?.history.find(v => v.version === version);
+  if (!template || !earlier) return null;
+  return saveTemplate({ id: templateId, name: earlier.name, subject: earlier.subject, body: earlier.body, category: earlier.category });
+}
+
+/** JSON for sharing templates with the team; history stays local */
+export function exportTemplates(templateIds?: string[]): string {
+  const templates = loadTemplates().filter(t => !templateIds || templateIds.includes(t.id));
+  return JSON.stringify({ format: EXPORT_FORMAT, version: 1, exportedAt: new Date().toISOString(), templates }, null, 2);
+}
+
+/**
+ * Adds the templates of an export file. A template whose id exists here is saved as a new
+ * version of it when its text differs. Throws when the file is not a template export.
+ */
+export function importTemplates(json: string): { added: number; updated: number } {
+  let parsed: { format?: string; templates?: Partial<EmailTemplate>[] };
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  if (parsed.format !== EXPORT_FORMAT || !Array.isArray(parsed.templates)) {
+    throw new Error('The file is not an OLXOutreach template export');
+  }
+
+  let added = 0;
+  let updated = 0;
+  for (const incoming of parsed.templates) {
+    if (!incoming.name || typeof incoming.subject !== 'string' || typeof incoming.body !== 'string') continue;
+    if (!incoming.category || !(CONTACT_CATEGORIES as readonly string[]).includes(incoming.category)) continue;
+    const existing = incoming.id ? loadStored().find(t => t.id === incoming.id) : undefined;
+    // The exported id is kept, so importing the same file again updates instead of duplicating
+    const saved = saveTemplate({ id: incoming.id, name: incoming.name, subject: incoming.subject, body: incoming.body, category: incoming.category });
+    if (!existing) added++;
+    else if (saved.version !== existing.version) updated++;
+  }
+  return { added, updated };
+}
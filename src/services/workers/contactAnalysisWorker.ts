@@ -1,28 +1,21 @@
 /* eslint-disable no-restricted-globals */
 /// <reference lib="webworker" />
 import { ContactAnalysisService } from '../contactAnalysisService';
-import type { EmailInteraction } from '../../types/contact';
-
-type SerializableInteraction = {
-  id: string;
-  contactId: string;
-  subject: string;
-  date: number | string;
-  direction: 'sent' | 'received';
-  isRead: boolean;
-  isReplied: boolean;
-  threadId?: string;
-};
+import { getMailboxStore, type AnalysisStore } from '../storage/analysisStore';
+import type { AutomatedOverrides, ContactAnalysisConfig, ContactCandidate, EmailInteraction } from '../../types/contact';
 
-type WorkerInitMessage = {
-  type: 'init';
-  interactionsByContact: Record<string, SerializableInteraction[]>;
-};
+type SerializableInteraction = Omit<EmailInteraction, 'date'> & { date: number | string };
+
+// Workers have no localStorage, so the main thread passes the saved rules and overrides along
+type WorkerInitMessage = { type: 'init'; categoryRules: ContactAnalysisConfig; automatedOverrides: AutomatedOverrides } & (
+  | { source: 'store'; mailboxId: string; since: number }
+  | { source: 'inline'; interactionsByContact: Record<string, SerializableInteraction[]> }
+);
 
 type WorkerJobMessage = {
   type: 'job';
   jobId: string;
-  contacts: Array<{ id: string; name: string; email: string }>;
+  contacts: ContactCandidate[];
   chunkSize: number;
 };
 
@@ -41,6 +34,13 @@ type WorkerResult = {
   analyzedContacts: Array<any>;
 };
 
+// A rejected job (e.g. the IndexedDB read failed); an async handler's rejection fires no error event
+type WorkerJobError = {
+  jobId: string;
+  type: 'error';
+  message: string;
+};
+
 const service = new ContactAnalysisService();
 
 const toInteractionMap = (input: Record<string, SerializableInteraction[]>): Map<string, EmailInteraction[]> => {
@@ -57,26 +57,46 @@ const toInteractionMap = (input: Record<string, SerializableInteraction[]>): Map
   return map;
 };
 
+let initialized = false;
+// Set only when the main thread sends interactions inline (IndexedDB unavailable)
 let interactionsByContact: Map<string, EmailInteraction[]> | null = null;
+let store: AnalysisStore | null = null;
+// Start of the run's window; the store also holds older history the run does not cover
+let runSince = 0;
+
+// Merged contacts need their aliases' interactions as well
+const contactIdsWithAliases = (contacts: ContactCandidate[]): string[] =>
+  contacts.flatMap(contact => [contact.id, ...(contact.aliases ?? [])]);
 
 const buildContactInteractionMap = (
-  contacts: Array<{ id: string }>,
+  contacts: ContactCandidate[],
   source: Map<string, EmailInteraction[]>
 ): Map<string, EmailInteraction[]> => {
   const map = new Map<string, EmailInteraction[]>();
-  contacts.forEach(contact => {
-    map.set(contact.id, source.get(contact.id) ?? []);
+  contactIdsWithAliases(contacts).forEach(id => {
+    map.set(id, source.get(id) ?? []);
+  });
+  return map;
+};
+
+const readRunInteractions = async (contacts: ContactCandidate[]): Promise<Map<string, EmailInteraction[]>> => {
+  const stored = await store!.getInteractionsForContacts(contactIdsWithAliases(contacts));
+  const map = new Map<string, EmailInteraction[]>();
+  stored.forEach((list, contactId) => {
+    map.set(contactId, list.filter(interaction => interaction.date.getTime() >= runSince));
   });
   return map;
 };
 
 const handleJob = async ({ jobId, contacts, chunkSize }: WorkerJobMessage) => {
-  if (!interactionsByContact) {
+  if (!initialized) {
     throw new Error('Worker not initialized');
   }
 
   const jobStart = performance.now();
-  const map = buildContactInteractionMap(contacts, interactionsByContact);
+  const map = interactionsByContact
+    ? buildContactInteractionMap(contacts, interactionsByContact)
+    : await readRunInteractions(contacts);
   const mapTime = performance.now() - jobStart;
 
   const total = contacts.length;
@@ -123,12 +143,26 @@ self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
   }
 
   if (data.type === 'init') {
-    interactionsByContact = toInteractionMap(data.interactionsByContact);
+    service.setCategoryRules(data.categoryRules);
+    service.setAutomatedOverrides(data.automatedOverrides);
+    interactionsByContact = data.source === 'inline' ? toInteractionMap(data.interactionsByContact) : null;
+    store = data.source === 'store' ? getMailboxStore(data.mailboxId) : null;
+    runSince = data.source === 'store' ? data.since : 0;
+    initialized = true;
     (self as unknown as Worker)['postMessage']({ type: 'ready' });
     return;
   }
 
-  await handleJob(data);
+  try {
+    await handleJob(data);
+  } catch (error) {
+    const failure: WorkerJobError = {
+      jobId: data.jobId,
+      type: 'error',
+      message: error instanceof Error ? error.message : String(error),
+    };
+    (self as unknown as Worker)['postMessage'](failure);
+  }
 };
 
 
@@ -8,12 +8,32 @@ export interface EmailInteraction {
   direction: 'sent' | 'received';
   isRead: boolean;
   isReplied: boolean;
-  threadId?: string;
+  threadId?: string; // provider conversation id (Graph conversationId, Gmail threadId)
+  internetMessageId?: string; // RFC 5322 Message-ID
+  inReplyTo?: string; // Message-ID of the parent mail, where the provider exposes it
+  role?: InteractionRole; // the contact's place on the message; missing on interactions stored before roles were recorded
+  automatedHeaders?: boolean; // received mail carrying List-Unsubscribe or Auto-Submitted
+  channel?: InteractionChannel; // missing on email interactions
+  folder?: string; // mail folder the delta sync read the message from; missing on quick fetches
 }
 
+/**
+ * Where a touch happened. Meetings come from the calendar: 'sent' when we organized it,
+ * 'received' when the contact did (or someone else invited us both).
+ */
+export type InteractionChannel = 'email' | 'meeting';
+
+/**
+ * How a contact appeared on a message. 'from' covers the sender and any Reply-To address;
+ * on received mail 'to'/'cc' mark people copied alongside the user.
+ */
+export type InteractionRole = 'to' | 'cc' | 'bcc' | 'from';
+
 export interface ContactAnalysis {
   contactId: string;
   category: ContactCategory;
+  customCategory?: string; // label of the custom category whose rule matched
+  ruleId?: string; // rule that decided the category (undefined = fallback)
   score: number; // 0-100 confidence score
   metrics: {
     totalEmails: number;
@@ -23,33 +43,147 @@ export interface ContactAnalysis {
     daysSinceLastContact: number;
     averageResponseTime: number; // in hours
     conversationCount: number;
+    emailsLast30Days: number;
+    emailsLast90Days: number;
+    copiedEmails: number; // messages where the contact was only copied (CC/BCC or a co-recipient)
+    meetings: number; // past calendar meetings with the contact
+    meetingsLast90Days: number;
   };
   insights: string[];
+  trend: ContactTrend;
+  cooling: boolean; // cadence has dropped well below the contact's own baseline
+  automatedReasons: string[]; // why the sender looks automated (empty = looks like a person); overrides apply on top
+  explanation: AnalysisExplanation;
   lastAnalyzed: Date;
 }
 
+/**
+ * User corrections to automated-sender detection: true forces the flag on, false forces it off.
+ * A contact override wins over its domain's.
+ */
+export interface AutomatedOverrides {
+  contacts: Record<string, boolean>;
+  domains: Record<string, boolean>;
+}
+
+export interface ContactTrend {
+  monthlyVolume: Array<{ month: string; sent: number; received: number }>; // last 12 months (YYYY-MM), oldest first
+  baselineEmailsPerMonth: number; // history before the last quarter
+  recentEmailsPerMonth: number; // last 90 days
+  cadenceChange: number | null; // recent / baseline volume; null when there is no baseline
+  typicalGapDays: number | null; // median days between interactions
+  baselineResponseTimeHours: number | null;
+  recentResponseTimeHours: number | null;
+  responseTimeChange: number | null; // recent / baseline; above 1 means replies are getting slower
+}
+
+export interface EvaluatedCondition extends CategoryCondition {
+  actual: number;
+  passed: boolean;
+}
+
+export interface RuleEvaluation {
+  ruleId: string;
+  category: ContactCategory;
+  customCategory?: string;
+  conditionGroups: EvaluatedCondition[][];
+  matched: boolean;
+}
+
+/**
+ * Why a contact got its category and score: every rule checked up to the one that fired,
+ * and each factor that moved the confidence score
+ */
+export interface AnalysisExplanation {
+  rules: RuleEvaluation[]; // in evaluation order; the last one matched unless the fallback applied
+  usedFallback: boolean;
+  scoreBase: number;
+  scoreFactors: ScoreFactor[];
+}
+
+export interface ScoreFactor {
+  label: string;
+  points: number;
+}
+
+export type CategoryMetric = keyof ContactAnalysis['metrics'];
+
+export interface CategoryCondition {
+  metric: CategoryMetric;
+  operator: '>=' | '<=';
+  value: number;
+}
+
+export interface CategoryRule {
+  id: string;
+  category: ContactCategory;
+  customCategoryId?: string; // optional finer-grained category reported alongside `category`
+  // Matches when every condition of at least one group holds (OR of ANDs)
+  conditionGroups: CategoryCondition[][];
+}
+
+export interface CustomCategoryDefinition {
+  id: string;
+  label: string;
+}
+
+/**
+ * Category rules for ContactAnalyzer. Rules are evaluated in order and the first match wins;
+ * contacts matching no rule get `fallbackCategory`.
+ */
 export interface ContactAnalysisConfig {
-  frequent: {
-    minEmailsLast30Days: number;
-    maxDaysSinceLastContact: number;
-    minResponseRate: number;
-  };
-  inactive: {
-    minDaysSinceLastContact: number;
-    maxDaysSinceLastContact: number;
-    minPreviousEmails: number;
-  };
-  cold: {
-    maxEmailsTotal: number;
-    maxDaysSinceLastContact: number;
-  };
+  version: 1;
+  rules: CategoryRule[];
+  fallbackCategory: ContactCategory;
+  customCategories: CustomCategoryDefinition[];
+}
+
+/**
+ * A contact as handed to analysis. `aliases` are addresses merged into this contact whose
+ * history counts towards it; `otherEmails` are further addresses from the user's address book.
+ */
+export interface ContactCandidate {
+  id: string;
+  name: string;
+  email: string;
+  aliases?: string[];
+  otherEmails?: string[];
+  profile?: ContactProfile;
+}
+
+/** Address book details of a contact; only fields the entry actually has are set */
+export interface ContactProfile {
+  title?: string; // honorific as entered (Herr, Frau, Dr., Ms.)
+  companyName?: string;
+  jobTitle?: string;
+  businessPhones?: string[];
+  categories?: string[];
+  personalNotes?: string;
+}
+
+/** Saved identity-review decisions; merges map an alias address to the address it belongs to */
+export interface IdentityDecisions {
+  version: 1;
+  merges: Record<string, string>;
+  dismissed: string[]; // MergeSuggestion keys the user rejected
+}
+
+export interface MergeSuggestion {
+  key: string; // both addresses, sorted and joined with '|'
+  primary: { email: string; name: string };
+  alias: { email: string; name: string };
+  reasons: string[];
+  score: number; // higher is more certain
 }
 
 export interface ContactWithAnalysis {
   id: string;
   name: string;
   email: string;
+  aliases?: string[]; // merged addresses
+  profile?: ContactProfile; // from the address book, when the contact is in it
   category: ContactCategory;
+  customCategory?: string;
   analysis: ContactAnalysis;
   lastContactDate: Date | null;
   emailCount: number;
@@ -57,4 +191,73 @@ export interface ContactWithAnalysis {
   isActive: boolean;
   lastEmailSubject?: string;
   tags: string[];
+  // Merged team view only: mailboxes with results for this contact and the one with the last touch
+  mailboxes?: string[];
+  lastTouchMailbox?: string;
+}
+
+export type FollowUpPriority = 'low' | 'normal' | 'high';
+
+/** A reminder to get back to a contact by a due date */
+export interface FollowUpTask {
+  id: string;
+  contactId: string; // lowercase email
+  contactName: string;
+  dueDate: string; // YYYY-MM-DD, local calendar day
+  note: string;
+  priority: FollowUpPriority;
+  createdAt: string; // ISO timestamp; mail sent after it completes the task
+  doneAt?: string;
+  doneReason?: 'manual' | 'mail_sent';
+  todoTaskId?: string; // mirrored Microsoft To Do task
+}
+
+/** One analysis run as remembered in the history */
+export interface AnalysisSnapshot {
+  id: number; // takenAt in ms, unique per mailbox
+  takenAt: Date;
+  mode: string; // analysis mode of the run (quick, comprehensive)
+  contactCount: number;
+}
+
+/** A contact's category, score and metrics in one analysis run */
+export interface SnapshotEntry {
+  snapshotId: number;
+  contactId: string;
+  name: string;
+  category: ContactCategory;
+  customCategory?: string;
+  score: number;
+  metrics: ContactAnalysis['metrics'];
+}
+
+/** A contact whose category differs between two runs; slipped = moved towards inactive */
+export interface CategoryMove {
+  contactId: string;
+  name: string;
+  from: ContactCategory;
+  to: ContactCategory;
+  scoreChange: number;
+  slipped: boolean;
+}
+
+/**
+ * How contacts are grouped into accounts. Subdomains roll up to their parent domain
+ * unless listed in `splitDomains`.
+ */
+export interface AccountSettings {
+  version: 1;
+  freemailDomains: string[]; // never grouped; their contacts have no account
+  domainMerges: Record<string, string>; // domain -> account domain it belongs to
+  splitDomains: string[]; // subdomains kept as accounts of their own
+}
+
+export interface Account {
+  id: string; // account domain
+  domains: string[]; // every contact domain rolled up into the account
+  contacts: ContactWithAnalysis[];
+  category: ContactCategory;
+  metrics: ContactAnalysis['metrics'];
+  lastContactDate: Date | null; // last touch by anyone at the account
+  mostEngagedContact: ContactWithAnalysis;
 }
@@ -7,6 +7,20 @@ export interface EmailTemplate {
   body: string;
   category: ContactCategory;
   variables: string[];
+  isDefault?: boolean; // suggested first for its category
+  version: number; // raised on every saved edit
+  updatedAt: string; // ISO timestamp
+  builtIn?: boolean; // shipped with the app rather than written by the team
+}
+
+/** An earlier state of a template, kept so an edit can be undone */
+export interface EmailTemplateVersion {
+  version: number;
+  name: string;
+  subject: string;
+  body: string;
+  category: ContactCategory;
+  savedAt: string; // ISO timestamp
 }
 
 export interface EmailDraft {
@@ -15,6 +29,10 @@ export interface EmailDraft {
   templateId: string;
   subject: string;
   body: string;
+  htmlBody?: string;
   status: 'draft' | 'sent';
   createdAt: Date;
+  updatedAt?: Date;
+  remoteId?: string; // id of the copy in the mailbox's Drafts folder, when the provider keeps one
+  mailboxId?: string; // mailbox holding that copy; its id is only valid there
 }
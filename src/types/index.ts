@@ -1,4 +1,5 @@
 import type { ContactCategory } from './contact';
+import type { EmailTemplate } from './email';
 
 export const CONTACT_CATEGORIES = ['recent', 'in_touch', 'inactive'] as const;
 export type { ContactCategory } from './contact';
@@ -19,15 +20,7 @@ export interface Contact {
 }
 
 
-export interface EmailTemplate {
-  id: string;
-  name: string;
-  subject: string;
-  body: string;
-  category: ContactCategory;
-  isDefault: boolean;
-  variables: string[];
-}
+export type { EmailTemplate, EmailTemplateVersion } from './email';
 
 export interface EmailDraft {
   id: string;
@@ -40,6 +33,52 @@ export interface EmailDraft {
   scheduledFor?: Date;
 }
 
+/**
+ * An email queued to go out later. Outlook holds 'server' items in the Outbox until the send
+ * time; 'local' items are sent by the app and only while it is open.
+ */
+export interface ScheduledEmail {
+  id: string;
+  to: string;
+  toName: string;
+  subject: string;
+  htmlBody: string;
+  scheduledFor: string; // ISO timestamp (UTC)
+  timeZone: string; // zone the time was picked in, for display and editing
+  mode: 'server' | 'local';
+  remoteId?: string; // Outlook message id of a server item
+  mailboxId?: string; // mailbox a server item waits in; its id is only valid there
+  // overdue: a local item that came due while the app was closed; it waits for the user to send it
+  status: 'scheduled' | 'overdue' | 'sent' | 'failed';
+  error?: string;
+}
+
+export type CampaignRecipientStatus = 'queued' | 'sent' | 'failed' | 'suppressed';
+
+/** One recipient of a campaign, with the template already merged for them */
+export interface CampaignRecipient {
+  contactId: string;
+  email: string;
+  name: string;
+  subject: string;
+  htmlBody: string;
+  status: CampaignRecipientStatus;
+  error?: string; // send error, or why the recipient was suppressed
+  sentAt?: string; // ISO timestamp
+}
+
+/** A template sent to a segment of contacts in throttled batches */
+export interface Campaign {
+  id: string;
+  name: string;
+  templateId: string;
+  createdAt: string; // ISO timestamp
+  status: 'running' | 'paused' | 'done';
+  mailboxId?: string; // mailbox the campaign sends from; campaigns saved before lack it
+  pauseReason?: string; // why the sender paused or would not resume the campaign
+  recipients: CampaignRecipient[];
+}
+
 export interface ContactAnalysis {
   totalContacts: number;
   frequentContacts: number;
@@ -5,6 +5,9 @@ export interface BuildDraftPromptParams {
   daysSinceLastContact?: number;
   contactCategory?: 'recent' | 'in_touch' | 'inactive';
   totalEmailCount?: number;
+  contactTitle?: string; // honorific from the address book, e.g. "Frau Dr."
+  contactCompany?: string;
+  contactJobTitle?: string;
 }
 
 export interface DraftPromptMessages {
@@ -208,6 +211,14 @@ function determineEmailContext(params: BuildDraftPromptParams, emailText: string
   };
 }
 
+export type DraftMode = 'reply' | 'hybrid' | 'outreach';
+
+/** Mode the draft for these params is written in; reply and hybrid drafts answer the last email */
+export function getDraftMode(params: BuildDraftPromptParams): DraftMode {
+  const { isOutreach, isHybrid } = determineEmailContext(params, htmlToPlainText(params.lastEmailHtml));
+  return isOutreach ? 'outreach' : isHybrid ? 'hybrid' : 'reply';
+}
+
 //  Single-pass draft prompt. Parse output with parseDraftResponse().
 
 //  Usage:   const prompt = buildDraftPrompt(params);
@@ -263,8 +274,15 @@ export function buildDraftPrompt(params: BuildDraftPromptParams): DraftPromptMes
   // Build user prompt
   const userPromptParts = [
     `Von: "${params.senderName}" An: "${params.contactName}"`,
-    '',
   ];
+  // Address book details make the salutation reliable instead of guessed from the name
+  if (params.contactTitle) {
+    userPromptParts.push(`Anrede laut Adressbuch: "${params.contactTitle}" (verwende sie in der Anrede vor dem Nachnamen)`);
+  }
+  if (params.contactJobTitle || params.contactCompany) {
+    userPromptParts.push(`Empfaenger: ${[params.contactJobTitle, params.contactCompany].filter(Boolean).join(', ')}`);
+  }
+  userPromptParts.push('');
 
   if (isOutreach) {
     userPromptParts.push(
@@ -0,0 +1,346 @@
+import type { ContactProfile, ContactWithAnalysis } from '../types/contact';
+import { getCategoryLabel } from './contactCategory';
+
+/*
+ * Template language for email templates:
+ *
+ *   {{firstName}}                         value of a field, alias or metric
+ *   {{profile.companyName}}               dotted path into the contact
+ *   {{firstName|there}}                   fallback when the contact has no value
+ *   {{lastContactDate:long}}              date format: date, long, month or relative
+ *   {{#if category == "inactive"}}…{{else}}…{{/if}}
+ *   {{#if tags contains "cooling"}}…{{/if}}
+ *   {{#if company}}…{{/if}}               a field with a value
+ *
+ * Conditions compare with ==, !=, >, >=, <, <= or contains against a "string" or a number.
+ * A placeholder without a value is left in the text as written, so it is seen and caught
+ * by findUnresolvedPlaceholders before sending.
+ */
+
+// The team writes German; dates are formatted for it
+const TEMPLATE_LOCALE = 'de-DE';
+
+type TemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'value'; raw: string; path: string; format?: string; fallback?: string }
+  | { type: 'if'; raw: string; condition: string; then: TemplateNode[]; otherwise: TemplateNode[] };
+
+export interface TemplateIssue {
+  kind: 'syntax' | 'unknown' | 'missing';
+  variable?: string;
+  message: string;
+}
+
+export type TemplateContext = Record<string, unknown>;
+
+export class TemplateSyntaxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateSyntaxError';
+  }
+}
+
+function parseValueTag(raw: string, inner: string): TemplateNode {
+  const pipe = inner.indexOf('|');
+  const expression = (pipe >= 0 ? inner.slice(0, pipe) : inner).trim();
+  const fallback = pipe >= 0 ? inner.slice(pipe + 1) : undefined;
+  const colon = expression.indexOf(':');
+  return {
+    type: 'value',
+    raw,
+    path: (colon >= 0 ? expression.slice(0, colon) : expression).trim(),
+    format: colon >= 0 ? expression.slice(colon + 1).trim() : undefined,
+    fallback,
+  };
+}
+
+/** Parses a template into nodes; throws TemplateSyntaxError on unbalanced #if/else//if */
+function parseTemplate(text: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  // Open #if blocks; new nodes go to the innermost block's current branch
+  const stack: Array<{ node: Extract<TemplateNode, { type: 'if' }>; inElse: boolean }> = [];
+  const target = () => {
+    const top = stack[stack.length - 1];
+    return top ? (top.inElse ? top.node.otherwise : top.node.then) : root;
+  };
+
+  const tagPattern = /\{\{([^}]*)\}\}/g;
+  let last = 0;
+  let match: RegExpExecArray | null;
+  while ((match = tagPattern.exec(text)) !== null) {
+    if (match.index > last) target().push({ type: 'text', text: text.slice(last, match.index) });
+    last = match.index + match[0].length;
+    const inner = match[1].trim();
+
+    if (inner.startsWith('#if ')) {
+      const node: Extract<TemplateNode, { type: 'if' }> = { type: 'if', raw: match[0], condition: inner.slice(4).trim(), then: [], otherwise: [] };
+      target().push(node);
+      stack.push({ node, inElse: false });
+    } else if (inner === 'else') {
+      const top = stack[stack.length - 1];
+      if (!top || top.inElse) throw new TemplateSyntaxError('{{else}} without a matching {{#if}}');
+      top.inElse = true;
+    } else if (inner === '/if') {
+      if (!stack.pop()) throw new TemplateSyntaxError('{{/if}} without a matching {{#if}}');
+    } else {
+      target().push(parseValueTag(match[0], inner));
+    }
+  }
+  if (last < text.length) target().push({ type: 'text', text: text.slice(last) });
+  if (stack.length > 0) throw new TemplateSyntaxError(`${stack[stack.length - 1].node.raw} is not closed with {{/if}}`);
+  return root;
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+/** Looks up a top-level name or dotted path; undefined when any step is missing */
+function resolvePath(context: TemplateContext, path: string): unknown {
+  // Values entered in the editor are stored under the full path
+  if (path in context) return context[path];
+  let value: unknown = context;
+  for (const key of path.split('.')) {
+    if (value === null || typeof value !== 'object' || !(key in value)) return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+function hasPath(context: TemplateContext, path: string): boolean {
+  if (path in context) return true;
+  const parent = path.includes('.') ? resolvePath(context, path.slice(0, path.lastIndexOf('.'))) : context;
+  return parent !== null && typeof parent === 'object' && path.slice(path.lastIndexOf('.') + 1) in parent;
+}
+
+function toDate(value: unknown): Date | null {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value)) {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+  return null;
+}
+
+function formatDate(date: Date, format: string | undefined): string {
+  switch (format) {
+    case 'long':
+      return date.toLocaleDateString(TEMPLATE_LOCALE, { day: 'numeric', month: 'long', year: 'numeric' });
+    case 'month':
+      return date.toLocaleDateString(TEMPLATE_LOCALE, { month: 'long', year: 'numeric' });
+    case 'relative': {
+      const days = Math.round((date.getTime() - Date.now()) / (24 * 60 * 60 * 1000));
+      const rtf = new Intl.RelativeTimeFormat(TEMPLATE_LOCALE, { numeric: 'auto' });
+      if (Math.abs(days) >= 365) return rtf.format(Math.round(days / 365), 'year');
+      if (Math.abs(days) >= 30) return rtf.format(Math.round(days / 30), 'month');
+      if (Math.abs(days) >= 7) return rtf.format(Math.round(days / 7), 'week');
+      return rtf.format(days, 'day');
+    }
+    default:
+      return date.toLocaleDateString(TEMPLATE_LOCALE);
+  }
+}
+
+/** Text for a value, or null when it has none that can be printed */
+function formatValue(value: unknown, format: string | undefined): string | null {
+  if (isEmpty(value)) return null;
+  const date = toDate(value);
+  if (date) return formatDate(date, format);
+  if (Array.isArray(value)) return value.map(String).join(', ');
+  if (typeof value === 'number') return Number.isInteger(value) ? String(value) : value.toLocaleString(TEMPLATE_LOCALE, { maximumFractionDigits: 1 });
+  if (typeof value === 'boolean') return value ? 'ja' : 'nein';
+  if (typeof value === 'object') return null;
+  return String(value);
+}
+
+function parseLiteral(raw: string): string | number {
+  const trimmed = raw.trim();
+  const quoted = /^"(.*)"$|^'(.*)'$/.exec(trimmed);
+  if (quoted) return quoted[1] ?? quoted[2];
+  const number = Number(trimmed);
+  return trimmed !== '' && !isNaN(number) ? number : trimmed;
+}
+
+/** Variable a condition reads, e.g. "category" for `category == "inactive"` */
+function conditionPath(condition: string): string {
+  return /^!?\s*([\w.]+)/.exec(condition.trim())?.[1] ?? '';
+}
+
+function evaluateCondition(condition: string, context: TemplateContext): boolean {
+  const match = /^(!?)\s*([\w.]+)\s*(?:(==|!=|>=|<=|>|<|contains)\s*(.+))?$/.exec(condition.trim());
+  if (!match) throw new TemplateSyntaxError(`Cannot read the condition "${condition}"`);
+  const [, negate, path, operator, literal] = match;
+  const value = resolvePath(context, path);
+  let result: boolean;
+  if (!operator) {
+    result = !isEmpty(value) && value !== false && value !== 0;
+  } else {
+    const literalValue = parseLiteral(literal);
+    // Dates compare against a "YYYY-MM-DD" literal
+    const expected = toDate(literalValue)?.getTime() ?? literalValue;
+    const actual = toDate(value)?.getTime() ?? value;
+    switch (operator) {
+      case '==': result = String(actual ?? '').toLowerCase() === String(expected).toLowerCase(); break;
+      case '!=': result = String(actual ?? '').toLowerCase() !== String(expected).toLowerCase(); break;
+      case 'contains':
+        result = Array.isArray(value)
+          ? value.some((item) => String(item).toLowerCase() === String(expected).toLowerCase())
+          : String(value ?? '').toLowerCase().includes(String(expected).toLowerCase());
+        break;
+      default: {
+        const left = Number(actual);
+        const right = Number(expected);
+        if (isNaN(left) || isNaN(right)) {
+          result = false;
+        } else {
+          result = operator === '>' ? left > right : operator === '>=' ? left >= right : operator === '<' ? left < right : left <= right;
+        }
+      }
+    }
+  }
+  return negate ? !result : result;
+}
+
+function renderNodes(nodes: TemplateNode[], context: TemplateContext): string {
+  return nodes.map((node) => {
+    if (node.type === 'text') return node.text;
+    if (node.type === 'if') return renderNodes(evaluateCondition(node.condition, context) ? node.then : node.otherwise, context);
+    const text = formatValue(resolvePath(context, node.path), node.format);
+    if (text !== null) return text;
+    return node.fallback !== undefined ? node.fallback : node.raw;
+  }).join('');
+}
+
+/**
+ * Renders a template for a context. Placeholders without a value stay as written; a template
+ * that cannot be parsed is returned unchanged (validateTemplate reports why).
+ */
+export function renderTemplate(text: string, context: TemplateContext): string {
+  try {
+    return renderNodes(parseTemplate(text), context);
+  } catch (error) {
+    if (error instanceof TemplateSyntaxError) return text;
+    throw error;
+  }
+}
+
+/** Root variable names a template uses, in values and conditions, e.g. ["firstName", "company"] */
+export function getTemplateVariables(text: string): string[] {
+  const names = new Set<string>();
+  for (const match of text.matchAll(/\{\{([^}]*)\}\}/g)) {
+    const inner = match[1].trim();
+    if (inner === 'else' || inner === '/if') continue;
+    if (inner.startsWith('#if ')) {
+      names.add(conditionPath(inner.slice(4)));
+    } else {
+      const node = parseValueTag(match[0], inner);
+      if (node.type === 'value' && node.path) names.add(node.path);
+    }
+  }
+  return Array.from(names);
+}
+
+/**
+ * Problems that would put a placeholder in a sent mail: syntax errors, variables that are not
+ * a contact field (typos), and fields this contact has no value for, unless a fallback is given.
+ */
+export function validateTemplate(text: string, context: TemplateContext): TemplateIssue[] {
+  let nodes: TemplateNode[];
+  try {
+    nodes = parseTemplate(text);
+  } catch (error) {
+    if (error instanceof TemplateSyntaxError) return [{ kind: 'syntax', message: error.message }];
+    throw error;
+  }
+
+  const issues: TemplateIssue[] = [];
+  const seen = new Set<string>();
+  const visit = (list: TemplateNode[]) => {
+    for (const node of list) {
+      if (node.type === 'if') {
+        try {
+          evaluateCondition(node.condition, context);
+        } catch (error) {
+          if (error instanceof TemplateSyntaxError) issues.push({ kind: 'syntax', message: error.message });
+          else throw error;
+        }
+        const path = conditionPath(node.condition);
+        if (path && !hasPath(context, path) && !seen.has(path)) {
+          seen.add(path);
+          issues.push({ kind: 'unknown', variable: path, message: `"${path}" in ${node.raw} is not a contact field; fill it in or check the spelling` });
+        }
+        visit(node.then);
+        visit(node.otherwise);
+      } else if (node.type === 'value' && node.fallback === undefined && !seen.has(node.path)) {
+        if (formatValue(resolvePath(context, node.path), node.format) !== null) continue;
+        seen.add(node.path);
+        issues.push(hasPath(context, node.path)
+          ? { kind: 'missing', variable: node.path, message: `No value for ${node.raw}; fill it in or add a fallback like {{${node.path}|…}}` }
+          : { kind: 'unknown', variable: node.path, message: `${node.raw} is not a contact field; fill it in or check the spelling` });
+      }
+    }
+  };
+  visit(nodes);
+  return issues;
+}
+
+/** Template tags left in rendered text, e.g. "{{company}}"; anything listed must not be sent */
+export function findUnresolvedPlaceholders(text: string): string[] {
+  return Array.from(new Set(text.match(/\{\{[^}]*\}\}/g) ?? []));
+}
+
+/** First and last name from a display name ("Müller, Hans" or "Dr. Hans Müller") */
+function splitName(name: string): { firstName?: string; lastName?: string } {
+  if (!name || name.includes('@')) return {};
+  if (name.includes(',')) {
+    const [last, first] = name.split(',').map((part) => part.trim());
+    return { firstName: first?.split(/\s+/)[0] || undefined, lastName: last || undefined };
+  }
+  const parts = name.split(/\s+/).filter((part) => !/^(dr|prof|herr|frau|mr|mrs|ms)\.?$/i.test(part));
+  if (parts.length < 2) return { firstName: parts[0] };
+  return { firstName: parts[0], lastName: parts[parts.length - 1] };
+}
+
+/**
+ * Values a template can use for a contact: every ContactWithAnalysis field (profile.*,
+ * analysis.metrics.*, …), the metrics at the top level, and these aliases: firstName,
+ * lastName, title, company, jobTitle, categoryLabel, daysSinceLastContact, responseRate
+ * (percent) and senderName. Values entered in the editor override all of them.
+ */
+export function buildTemplateContext(
+  contact: ContactWithAnalysis,
+  senderName: string,
+  overrides: Record<string, string> = {}
+): TemplateContext {
+  const { firstName, lastName } = splitName(contact.name);
+  // Optional fields are listed even when unset, so a template using them reads as missing, not unknown
+  const profile: ContactProfile = {
+    title: undefined,
+    companyName: undefined,
+    jobTitle: undefined,
+    businessPhones: undefined,
+    categories: undefined,
+    personalNotes: undefined,
+    ...contact.profile,
+  };
+  const context: TemplateContext = {
+    ...contact.analysis.metrics,
+    customCategory: undefined,
+    lastEmailSubject: undefined,
+    ...contact,
+    profile,
+    firstName,
+    lastName,
+    title: contact.profile?.title,
+    company: contact.profile?.companyName,
+    jobTitle: contact.profile?.jobTitle,
+    categoryLabel: getCategoryLabel(contact.category),
+    daysSinceLastContact: contact.analysis.metrics.daysSinceLastContact,
+    responseRate: Math.round(contact.responseRate * 100),
+    senderName,
+  };
+  for (const [key, value] of Object.entries(overrides)) {
+    if (value !== '') context[key] = value;
+  }
+  return context;
+}
@@ -0,0 +1,45 @@
+// Wall-clock times in a chosen IANA time zone, without a date library
+
+export function getLocalTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+/** Time zones offered in pickers; the local zone first */
+export function listTimeZones(): string[] {
+  const local = getLocalTimeZone();
+  const all = typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : ['UTC'];
+  return [local, ...all.filter(zone => zone !== local)];
+}
+
+/** Offset of the zone from UTC at the given instant, in ms (positive east of Greenwich) */
+function zoneOffsetMs(instant: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric', month: '2-digit', day: '2-digit',
+    hour: '2-digit', minute: '2-digit', second: '2-digit',
+  }).formatToParts(new Date(instant));
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value ?? 0);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return asUtc - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * The instant a wall-clock time ("YYYY-MM-DDTHH:mm", as from a datetime-local input) happens
+ * in the zone. Corrects once more so times next to a DST change land right.
+ */
+export function zonedTimeToDate(wallClock: string, timeZone: string): Date {
+  const [datePart, timePart = '00:00'] = wallClock.split('T');
+  const [year, month, day] = datePart.split('-').map(Number);
+  const [hour, minute] = timePart.split(':').map(Number);
+  const naive = Date.UTC(year, month - 1, day, hour, minute);
+  let instant = naive - zoneOffsetMs(naive, timeZone);
+  instant = naive - zoneOffsetMs(instant, timeZone);
+  return new Date(instant);
+}
+
+/** The wall-clock time of an instant in the zone, in datetime-local input format */
+export function dateToZonedTime(date: Date, timeZone: string): string {
+  const shifted = new Date(date.getTime() + zoneOffsetMs(date.getTime(), timeZone));
+  return shifted.toISOString().slice(0, 16);
+}